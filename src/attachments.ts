@@ -0,0 +1,248 @@
+import { createHash } from "crypto";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { fileURLToPath } from "url";
+import { GeminiError } from "./errors.js";
+import { PathAccessError, isWithinRoots } from "./files.js";
+
+// Attachments for multimodal prompts (screenshots, PDFs, text documents).
+// Each one arrives as base64 data, text or a file:/data: URI, is checked against the
+// size and MIME limits, and is written to a per-request temporary directory that the
+// prompt references with @paths. The directory is removed when the request ends.
+
+export interface AttachmentConfig {
+  // Size limit of one attachment
+  maxBytes: number;
+  // Size limit of all attachments of one request
+  maxTotalBytes: number;
+  maxCount: number;
+  // Accepted MIME types; "image/*" accepts every image type
+  allowedMimeTypes: string[];
+  // Parent of the per-request directories (default: the system temp directory)
+  directory?: string;
+}
+
+export const DEFAULT_ATTACHMENTS: AttachmentConfig = {
+  maxBytes: 20 * 1024 * 1024,
+  maxTotalBytes: 50 * 1024 * 1024,
+  maxCount: 10,
+  allowedMimeTypes: ["image/png", "image/jpeg", "image/gif", "image/webp", "image/heic", "image/heif", "application/pdf", "application/json", "text/*"]
+};
+
+// One attachment as passed by the client: exactly one of data, text and uri
+export interface AttachmentInput {
+  // Base64 content, e.g. the data of MCP image content or a resource blob
+  data?: string;
+  // Text content, e.g. a text resource
+  text?: string;
+  // file:// (subject to the allowed roots) or data: URI
+  uri?: string;
+  mime_type?: string;
+  name?: string;
+}
+
+export interface LoadedAttachment {
+  name: string;
+  mimeType: string;
+  content: Buffer;
+  sha256: string;
+}
+
+export interface StagedAttachments {
+  directory: string;
+  // Absolute paths, in the order of the attachments
+  files: string[];
+  cleanup(): Promise<void>;
+}
+
+export class AttachmentError extends GeminiError {
+  constructor(message: string) {
+    super("INVALID_REQUEST", message);
+    this.name = "AttachmentError";
+  }
+}
+
+const EXTENSIONS: Record<string, string> = {
+  "image/png": ".png",
+  "image/jpeg": ".jpg",
+  "image/gif": ".gif",
+  "image/webp": ".webp",
+  "image/heic": ".heic",
+  "image/heif": ".heif",
+  "application/pdf": ".pdf",
+  "application/json": ".json",
+  "text/plain": ".txt",
+  "text/markdown": ".md",
+  "text/html": ".html",
+  "text/csv": ".csv"
+};
+
+const MIME_BY_EXTENSION: Record<string, string> = {
+  ...Object.fromEntries(Object.entries(EXTENSIONS).map(([mimeType, extension]) => [extension, mimeType])),
+  ".jpeg": "image/jpeg",
+  ".markdown": "text/markdown",
+  ".htm": "text/html"
+};
+
+const BASE64_PATTERN = /^[A-Za-z0-9+/]*={0,2}$/;
+
+// Type recognized from the first bytes of binary formats
+export function sniffMimeType(content: Buffer): string | undefined {
+  const ascii = (start: number, end: number) => content.subarray(start, end).toString("latin1");
+  if (content.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) return "image/png";
+  if (content[0] === 0xff && content[1] === 0xd8 && content[2] === 0xff) return "image/jpeg";
+  if (ascii(0, 6) === "GIF87a" || ascii(0, 6) === "GIF89a") return "image/gif";
+  if (ascii(0, 4) === "RIFF" && ascii(8, 12) === "WEBP") return "image/webp";
+  if (ascii(0, 5) === "%PDF-") return "application/pdf";
+  return undefined;
+}
+
+export function isMimeTypeAllowed(mimeType: string, allowed: string[]): boolean {
+  return allowed.some((pattern) => pattern === mimeType || (pattern.endsWith("/*") && mimeType.startsWith(pattern.slice(0, -1))));
+}
+
+function decodeBase64(data: string, label: string, maxBytes: number): Buffer {
+  const compact = data.replace(/\s+/g, "");
+  if (!BASE64_PATTERN.test(compact)) {
+    throw new AttachmentError(`${label} is not valid base64`);
+  }
+  // Checked before decoding so an oversized attachment is never held in memory twice
+  if (Math.floor(compact.length * 3 / 4) > maxBytes + 2) {
+    throw new AttachmentError(`${label} is larger than ${formatBytes(maxBytes)}`);
+  }
+  return Buffer.from(compact, "base64");
+}
+
+function formatBytes(bytes: number): string {
+  return bytes >= 1024 * 1024 ? `${Math.round(bytes / 1024 / 1024 * 10) / 10} MB` : `${Math.ceil(bytes / 1024)} KB`;
+}
+
+// A file name that is safe to create and ends in the extension of its type
+function fileName(name: string | undefined, mimeType: string, index: number): string {
+  const extension = EXTENSIONS[mimeType] ?? "";
+  const base = path.basename(name ?? "").replace(/[^\w.-]+/g, "_").replace(/^\.+/, "").substring(0, 100);
+  if (!base) return `attachment-${index + 1}${extension}`;
+  return MIME_BY_EXTENSION[path.extname(base).toLowerCase()] === mimeType ? base : `${base}${extension}`;
+}
+
+// Read and check one attachment
+async function loadAttachment(input: AttachmentInput, index: number, config: AttachmentConfig, allowedRoots: string[]): Promise<LoadedAttachment> {
+  const label = `Attachment ${index + 1}${input.name ? ` (${input.name})` : ""}`;
+  const sources = [input.data, input.text, input.uri].filter((source) => source !== undefined);
+  if (sources.length !== 1) {
+    throw new AttachmentError(`${label} needs exactly one of data, text and uri`);
+  }
+
+  let content: Buffer;
+  let declared = input.mime_type?.toLowerCase().split(";")[0].trim();
+  let name = input.name;
+  if (input.data !== undefined) {
+    content = decodeBase64(input.data, label, config.maxBytes);
+  } else if (input.text !== undefined) {
+    content = Buffer.from(input.text, "utf8");
+    declared ??= "text/plain";
+  } else if (input.uri!.startsWith("data:")) {
+    const match = input.uri!.match(/^data:([^;,]*)(?:;[^,]*)?;base64,(.*)$/s);
+    if (!match) {
+      throw new AttachmentError(`${label}: only base64 data: URIs are supported`);
+    }
+    declared ??= match[1].toLowerCase() || undefined;
+    content = decodeBase64(match[2], label, config.maxBytes);
+  } else if (input.uri!.startsWith("file:")) {
+    let file: string;
+    try {
+      file = fileURLToPath(input.uri!);
+    } catch (error) {
+      throw new AttachmentError(`${label}: invalid file URI (${error instanceof Error ? error.message : String(error)})`);
+    }
+    if (!isWithinRoots(file, allowedRoots)) {
+      throw new PathAccessError(`${label}: ${file} is outside the allowed roots (${allowedRoots.join(", ")})`);
+    }
+    const stat = await fs.promises.stat(file).catch(() => undefined);
+    if (!stat?.isFile()) {
+      throw new AttachmentError(`${label}: file not found: ${file}`);
+    }
+    if (stat.size > config.maxBytes) {
+      throw new AttachmentError(`${label} is larger than ${formatBytes(config.maxBytes)}`);
+    }
+    content = await fs.promises.readFile(file);
+    name ??= path.basename(file);
+    declared ??= MIME_BY_EXTENSION[path.extname(file).toLowerCase()];
+  } else {
+    throw new AttachmentError(`${label}: unsupported URI ${input.uri} (use file: or data: URIs, or pass the content as data)`);
+  }
+
+  if (content.length > config.maxBytes) {
+    throw new AttachmentError(`${label} is larger than ${formatBytes(config.maxBytes)}`);
+  }
+  const sniffed = sniffMimeType(content);
+  if (sniffed && declared && sniffed !== declared) {
+    throw new AttachmentError(`${label} is declared as ${declared} but its content is ${sniffed}`);
+  }
+  const mimeType = sniffed ?? declared ?? (name ? MIME_BY_EXTENSION[path.extname(name).toLowerCase()] : undefined);
+  if (!mimeType) {
+    throw new AttachmentError(`${label}: unknown type; pass mime_type`);
+  }
+  if (!isMimeTypeAllowed(mimeType, config.allowedMimeTypes)) {
+    throw new AttachmentError(`${label}: type ${mimeType} is not allowed (allowed: ${config.allowedMimeTypes.join(", ")})`);
+  }
+  return {
+    name: fileName(name, mimeType, index),
+    mimeType,
+    content,
+    sha256: createHash("sha256").update(content).digest("hex")
+  };
+}
+
+// Read and check every attachment of a request against the limits
+export async function loadAttachments(inputs: AttachmentInput[], config: AttachmentConfig, allowedRoots: string[]): Promise<LoadedAttachment[]> {
+  if (inputs.length > config.maxCount) {
+    throw new AttachmentError(`At most ${config.maxCount} attachments are allowed (got ${inputs.length})`);
+  }
+  const loaded: LoadedAttachment[] = [];
+  let total = 0;
+  for (const [index, input] of inputs.entries()) {
+    const attachment = await loadAttachment(input, index, config, allowedRoots);
+    total += attachment.content.length;
+    if (total > config.maxTotalBytes) {
+      throw new AttachmentError(`Attachments are larger than ${formatBytes(config.maxTotalBytes)} in total`);
+    }
+    loaded.push(attachment);
+  }
+  return loaded;
+}
+
+// Write the attachments to a new private directory
+export async function stageAttachments(attachments: LoadedAttachment[], parent: string = os.tmpdir()): Promise<StagedAttachments> {
+  const directory = await fs.promises.mkdtemp(path.join(parent, "gemini-mcp-attachments-"));
+  const cleanup = () => fs.promises.rm(directory, { recursive: true, force: true }).catch((error) => {
+    console.error(`[Gemini MCP] Failed to remove attachment directory ${directory}: ${error}`);
+  });
+  try {
+    const used = new Set<string>();
+    const files: string[] = [];
+    for (const [index, attachment] of attachments.entries()) {
+      const name = used.has(attachment.name) ? `${index + 1}-${attachment.name}` : attachment.name;
+      used.add(name);
+      const file = path.join(directory, name);
+      await fs.promises.writeFile(file, attachment.content, { mode: 0o600 });
+      files.push(file);
+    }
+    return { directory, files, cleanup };
+  } catch (error) {
+    await cleanup();
+    throw error;
+  }
+}
+
+// The prompt followed by an @path reference for each staged attachment
+export function withAttachmentReferences(prompt: string, attachments: LoadedAttachment[], files: string[]): string {
+  const lines = attachments.map((attachment, index) => `- @${files[index]} (${attachment.mimeType})`);
+  return `${prompt}\n\nAttached files:\n${lines.join("\n")}`;
+}
+
+// Short note kept in conversation history once the staged files are gone
+export function describeAttachments(attachments: LoadedAttachment[]): string {
+  return `[Attached: ${attachments.map((attachment) => `${attachment.name} (${attachment.mimeType}, ${formatBytes(attachment.content.length)})`).join(", ")}]`;
+}
@@ -0,0 +1,421 @@
+import { spawn, ChildProcess } from "child_process";
+import { parseGeminiOutput, ParsedOutput } from "./output-parser.js";
+import {
+  GeminiError,
+  CliNotFoundError,
+  QuotaExceededError,
+  EmptyResponseError,
+  TimeoutError,
+  CancelledError,
+  classifyFailure,
+  parseRetryDelay
+} from "./errors.js";
+import { terminateProcessTree } from "./process-pool.js";
+import { RunTimers, TimeoutLimit, TimeoutPolicy } from "./timeouts.js";
+
+// Backends that turn a prompt into an answer.
+// The built-in "gemini" backend runs the Gemini CLI; users can add any command
+// that reads the prompt on stdin and prints the answer on stdout, and
+// OpenAI-compatible chat-completions endpoints (e.g. a local model server).
+
+export type BackendKind = "gemini-cli" | "cli" | "http";
+
+// Raw details of a single run
+export interface BackendResult {
+  response: string;
+  parsed: ParsedOutput;
+  stdout: string;
+  stderr: string;
+  exitCode: number | null;
+  durationMs: number;
+  // Name of the backend that produced the answer
+  backend: string;
+}
+
+// Per-call options for Backend.run
+export interface BackendRunOptions {
+  model?: string;
+  cwd?: string;
+  // Kills the process tree (or aborts the HTTP request) when the MCP request is cancelled
+  signal?: AbortSignal;
+  onSpawn?: (child: ChildProcess) => void;
+  onOutput?: (stream: "stdout" | "stderr", chunk: string) => void;
+  // Overrides for the configured timeout policy
+  timeouts?: Partial<TimeoutPolicy>;
+  // Directories outside cwd the run needs to read (staged attachments)
+  includeDirectories?: string[];
+}
+
+export interface Backend {
+  readonly name: string;
+  readonly kind: BackendKind;
+  run(prompt: string, options?: BackendRunOptions): Promise<BackendResult>;
+}
+
+export interface CliBackendDefinition {
+  type: "cli";
+  command: string;
+  args?: string[];
+  // Flag that selects the model; the model argument is ignored without one
+  modelFlag?: string;
+  defaultModel?: string;
+  // "gemini" separates Gemini CLI banners and errors from the answer; "raw" uses stdout as is
+  output?: "gemini" | "raw";
+  env?: Record<string, string>;
+}
+
+export interface HttpBackendDefinition {
+  type: "http";
+  // Base URL of an OpenAI-compatible API, e.g. http://localhost:11434/v1
+  baseUrl: string;
+  model?: string;
+  apiKey?: string;
+  // Environment variable holding the API key (preferred over apiKey)
+  apiKeyEnv?: string;
+  headers?: Record<string, string>;
+}
+
+export type BackendDefinition = CliBackendDefinition | HttpBackendDefinition;
+
+export interface BackendsConfig {
+  // Backend used when gemini_send does not name one
+  default: string;
+  // Tried in order when the selected backend is unavailable or over quota
+  fallback: string[];
+  // User-defined backends; "gemini" is always available
+  definitions: Record<string, BackendDefinition>;
+}
+
+export const GEMINI_BACKEND = "gemini";
+
+export const DEFAULT_BACKENDS: BackendsConfig = {
+  default: GEMINI_BACKEND,
+  fallback: [],
+  definitions: {}
+};
+
+// Failures that make the next backend in the fallback order worth trying
+const FALLBACK_CODES = new Set(["CLI_NOT_FOUND", "BACKEND_UNAVAILABLE", "AUTH_EXPIRED", "QUOTA_EXCEEDED", "QUEUE_FULL"]);
+
+export function shouldFallBack(error: GeminiError): boolean {
+  return FALLBACK_CODES.has(error.code);
+}
+
+// Selected backend first, then the fallbacks (each once)
+export function backendOrder(selected: string, config: BackendsConfig): string[] {
+  return [selected, ...config.fallback].filter((name, index, names) => names.indexOf(name) === index);
+}
+
+// Output of a command that prints nothing but its answer
+function rawOutput(stdout: string, stderr: string): ParsedOutput {
+  const answer = stdout.trim();
+  return {
+    answer,
+    banners: [],
+    warnings: [],
+    errors: [],
+    stackTraces: [],
+    segments: [
+      ...(answer ? [{ kind: "answer" as const, stream: "stdout" as const, text: answer }] : []),
+      ...(stderr.trim() ? [{ kind: "log" as const, stream: "stderr" as const, text: stderr.trim() }] : [])
+    ]
+  };
+}
+
+export interface CliBackendOptions {
+  command: string;
+  // Arguments for one run with the given model and extra readable directories
+  buildArgs: (model?: string, includeDirectories?: string[]) => string[];
+  env: NodeJS.ProcessEnv;
+  output: "gemini" | "raw";
+  timeouts: TimeoutPolicy;
+  // Throws when the command is known to be missing (checked before spawning)
+  checkAvailable?: () => Promise<void>;
+  onNotFound?: () => void;
+}
+
+// Runs a command with the prompt on stdin
+export class CliBackend implements Backend {
+  constructor(
+    readonly name: string,
+    readonly kind: "gemini-cli" | "cli",
+    private options: CliBackendOptions
+  ) {}
+
+  private notFound(): GeminiError {
+    return this.kind === "gemini-cli"
+      ? new CliNotFoundError(this.options.command)
+      : new GeminiError("CLI_NOT_FOUND", `Command for backend ${this.name} not found (${this.options.command})`);
+  }
+
+  async run(prompt: string, options: BackendRunOptions = {}): Promise<BackendResult> {
+    await this.options.checkAvailable?.();
+    return this.spawnOnce(prompt, options);
+  }
+
+  private spawnOnce(prompt: string, options: BackendRunOptions): Promise<BackendResult> {
+    return new Promise((resolve, reject) => {
+      // The request may have been cancelled while the availability check ran
+      if (options.signal?.aborted) {
+        reject(new CancelledError());
+        return;
+      }
+      console.error(`[Gemini MCP] Sending to ${this.name}: ${prompt.substring(0, 50)}...`);
+    
+      const args = this.options.buildArgs(options.model, options.includeDirectories);
+      if (args.length > 0) {
+        console.error(`[Gemini MCP] CLI arguments: ${args.join(' ')}`);
+      }
+    
+      // Spawn the process directly (no shell), in its own process group so
+      // cancellation can kill anything the CLI starts
+      const geminiProcess = spawn(this.options.command, args, {
+        stdio: ['pipe', 'pipe', 'pipe'],
+        env: this.options.env,
+        cwd: options.cwd ?? process.cwd(),
+        detached: process.platform !== 'win32'
+      });
+      options.onSpawn?.(geminiProcess);
+    
+      let output = '';
+      let error = '';
+      const startTime = Date.now();
+      let timedOut: { limit: TimeoutLimit; limitMs: number } | undefined;
+      let cancelled = false;
+      const timeouts = { ...this.options.timeouts, ...options.timeouts };
+    
+      // First-byte, idle and overall limits; stdout ends the first-byte wait, any output resets the idle timer
+      const timers = new RunTimers(timeouts, (limit, limitMs) => {
+        console.error(`[Gemini MCP] ${limit} timeout (${limitMs}ms) fired, terminating Gemini process`);
+        timedOut = { limit, limitMs };
+        terminateProcessTree(geminiProcess, timeouts.killGraceMs);
+      });
+      timers.start();
+    
+      const onAbort = () => {
+        console.error('[Gemini MCP] Request cancelled, killing Gemini process');
+        cancelled = true;
+        timers.stop();
+        terminateProcessTree(geminiProcess, timeouts.killGraceMs);
+      };
+      options.signal?.addEventListener('abort', onAbort, { once: true });
+    
+      // Handle stdin errors
+      geminiProcess.stdin.on('error', (err) => {
+        console.error(`[Gemini MCP] stdin error: ${err.message}`);
+        reject(new GeminiError('PROCESS_ERROR', `Failed to write to Gemini process: ${err.message}`, true));
+      });
+    
+      // Write message to stdin
+      try {
+        geminiProcess.stdin.write(prompt + '\n');
+        geminiProcess.stdin.end();
+      } catch (err) {
+        console.error(`[Gemini MCP] Failed to write message: ${err}`);
+        reject(new GeminiError('PROCESS_ERROR', `Failed to send message to Gemini: ${err}`, true));
+        return;
+      }
+    
+      geminiProcess.stdout.on('data', (data) => {
+        const chunk = data.toString();
+        // Log first data received
+        if (!output) {
+          console.error(`[Gemini MCP] Started receiving response`);
+        }
+        output += chunk;
+        timers.onOutput();
+        options.onOutput?.('stdout', chunk);
+      
+        // Log progress for long responses
+        if (output.length % 1000 === 0) {
+          console.error(`[Gemini MCP] Receiving data... ${output.length} chars so far`);
+        }
+      });
+    
+      geminiProcess.stderr.on('data', (data) => {
+        const chunk = data.toString();
+        error += chunk;
+        console.error(`[Gemini MCP] stderr: ${chunk}`);
+        timers.onActivity();
+        options.onOutput?.('stderr', chunk);
+      });
+    
+      geminiProcess.on('close', (code) => {
+        timers.stop();
+        options.signal?.removeEventListener('abort', onAbort);
+      
+        console.error(`[Gemini MCP] Process exited with code ${code} after ${Date.now() - startTime}ms`);
+        console.error(`[Gemini MCP] Total output length: ${output.length}`);
+      
+        // Separate the answer from banners, warnings and error dumps
+        const parsed = this.options.output === 'gemini' ? parseGeminiOutput(output, error) : rawOutput(output, error);
+        console.error(`[Gemini MCP] Parsed output: ${parsed.answer.length} answer chars, ` +
+          `${parsed.warnings.length} warnings, ${parsed.errors.length} errors`);
+      
+        const processOutput = { stdout: output, stderr: error, exitCode: code };
+        if (cancelled) {
+          reject(new CancelledError(processOutput));
+        } else if (timedOut && (parsed.answer || parsed.errors.length === 0)) {
+          // Not a normal completion even when some answer text arrived
+          reject(new TimeoutError(timedOut.limit, timedOut.limitMs, processOutput, parsed.answer));
+        } else if (!parsed.answer) {
+          // Classify from the exit code and the error patterns in stderr/stdout
+          const failure = classifyFailure({ ...processOutput, parsed });
+          console.error(`[Gemini MCP] No answer received (${failure.code}): ${failure.message}`);
+          reject(failure);
+        } else {
+          console.error(`[Gemini MCP] Final response length: ${parsed.answer.length} chars`);
+        
+          if (parsed.answer.length < 5) {
+            console.error(`[Gemini MCP] Warning: Response seems too short`);
+          }
+        
+          resolve({
+            backend: this.name,
+            response: parsed.answer,
+            parsed,
+            stdout: output,
+            stderr: error,
+            exitCode: code,
+            durationMs: Date.now() - startTime
+          });
+        }
+      });
+    
+      geminiProcess.on('error', (err) => {
+        timers.stop();
+        options.signal?.removeEventListener('abort', onAbort);
+        console.error(`[Gemini MCP] Process spawn error: ${err.message}`);
+        console.error(`[Gemini MCP] Error details:`, err);
+      
+        // Check if the command is installed
+        if (err.message.includes('ENOENT')) {
+          this.options.onNotFound?.();
+          reject(this.notFound());
+        } else {
+          reject(new GeminiError('PROCESS_ERROR', `Failed to start Gemini process: ${err.message}`));
+        }
+      });
+    });
+  }
+}
+
+// Posts the prompt to an OpenAI-compatible /chat/completions endpoint
+export class HttpBackend implements Backend {
+  readonly kind = "http";
+
+  constructor(
+    readonly name: string,
+    private definition: HttpBackendDefinition,
+    private timeouts: TimeoutPolicy
+  ) {}
+
+  private headers(): Record<string, string> {
+    const apiKey = (this.definition.apiKeyEnv && process.env[this.definition.apiKeyEnv]) || this.definition.apiKey;
+    return {
+      "Content-Type": "application/json",
+      ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      ...this.definition.headers
+    };
+  }
+
+  async run(prompt: string, options: BackendRunOptions = {}): Promise<BackendResult> {
+    const url = `${this.definition.baseUrl.replace(/\/+$/, "")}/chat/completions`;
+    const model = options.model || this.definition.model;
+    console.error(`[Gemini MCP] Sending to ${this.name} (${url}): ${prompt.substring(0, 50)}...`);
+
+    const controller = new AbortController();
+    const onAbort = () => controller.abort();
+    options.signal?.addEventListener("abort", onAbort, { once: true });
+
+    // Only the first-byte (response headers) and overall limits apply to a single response
+    let timedOut: { limit: TimeoutLimit; limitMs: number } | undefined;
+    const timers = new RunTimers({ ...this.timeouts, ...options.timeouts, idleMs: 0 }, (limit, limitMs) => {
+      timedOut = { limit, limitMs };
+      controller.abort();
+    });
+
+    const startTime = Date.now();
+    let body = "";
+    let status = 0;
+    timers.start();
+    try {
+      const response = await fetch(url, {
+        method: "POST",
+        headers: this.headers(),
+        body: JSON.stringify({
+          ...(model ? { model } : {}),
+          messages: [{ role: "user", content: prompt }]
+        }),
+        signal: controller.signal
+      });
+      timers.onOutput();
+      status = response.status;
+      body = await response.text();
+    } catch (error) {
+      if (options.signal?.aborted) throw new CancelledError();
+      if (timedOut) throw new TimeoutError(timedOut.limit, timedOut.limitMs);
+      const cause = error instanceof Error && error.cause instanceof Error ? error.cause.message : String(error);
+      throw new GeminiError("BACKEND_UNAVAILABLE", `Backend ${this.name} is unreachable (${url}): ${cause}`, true);
+    } finally {
+      timers.stop();
+      options.signal?.removeEventListener("abort", onAbort);
+    }
+
+    const output = { stdout: body, exitCode: null };
+    const detail = `HTTP ${status}: ${body.substring(0, 300)}`;
+    if (status === 401 || status === 403) {
+      throw new GeminiError("AUTH_EXPIRED", `Backend ${this.name} rejected the credentials (${detail})`, false, output);
+    }
+    if (status === 429) {
+      throw new QuotaExceededError(`backend ${this.name} returned ${detail}`, output, parseRetryDelay(body));
+    }
+    if (status < 200 || status >= 300) {
+      throw new GeminiError("PROCESS_ERROR", `Backend ${this.name} failed (${detail})`, status >= 500, output);
+    }
+
+    let answer = "";
+    try {
+      const content = JSON.parse(body)?.choices?.[0]?.message?.content;
+      answer = typeof content === "string" ? content.trim() : "";
+    } catch {
+      throw new GeminiError("PROCESS_ERROR", `Backend ${this.name} returned invalid JSON: ${body.substring(0, 300)}`, true, output);
+    }
+    if (!answer) throw new EmptyResponseError(output);
+
+    options.onOutput?.("stdout", answer);
+    return {
+      backend: this.name,
+      response: answer,
+      parsed: rawOutput(answer, ""),
+      stdout: body,
+      stderr: "",
+      exitCode: null,
+      durationMs: Date.now() - startTime
+    };
+  }
+}
+
+// Backend for a user definition from the config file
+// parentEnv is what a CLI backend inherits (the server passes its environment filtered by gemini.envAllowList)
+export function createBackend(
+  name: string,
+  definition: BackendDefinition,
+  timeouts: TimeoutPolicy,
+  parentEnv: NodeJS.ProcessEnv = process.env
+): Backend {
+  if (definition.type === "http") {
+    return new HttpBackend(name, definition, timeouts);
+  }
+  return new CliBackend(name, "cli", {
+    command: definition.command,
+    buildArgs: (model) => {
+      const selected = model || definition.defaultModel;
+      const args = [...(definition.args ?? [])];
+      return selected && definition.modelFlag ? [...args, definition.modelFlag, selected] : args;
+    },
+    env: { ...parentEnv, ...definition.env },
+    output: definition.output ?? "raw",
+    timeouts
+  });
+}
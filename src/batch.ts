@@ -0,0 +1,141 @@
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { errorResult } from "./errors.js";
+
+// Fan-out of many prompts (or one prompt per file) for gemini_batch.
+// Items run a few at a time; each still passes through the rate limiter and the
+// process pool, and a failed item is reported without stopping the others.
+
+export interface BatchConfig {
+  // Items of one batch running at once
+  concurrency: number;
+  // Prompts or matched files allowed in one batch
+  maxItems: number;
+}
+
+export const DEFAULT_BATCH: BatchConfig = {
+  concurrency: 3,
+  maxItems: 100
+};
+
+export type BatchItemStatus = "succeeded" | "failed" | "cancelled";
+
+export interface BatchItem {
+  label: string;
+  message: string;
+  // Set for items created from a glob match
+  file?: string;
+}
+
+export interface BatchItemResult {
+  index: number;
+  label: string;
+  file?: string;
+  status: BatchItemStatus;
+  durationMs: number;
+  attempts?: number;
+  response?: string;
+  error?: { code: string; message: string };
+  resource?: string;
+}
+
+export interface BatchSummary {
+  total: number;
+  succeeded: number;
+  failed: number;
+  cancelled: number;
+  durationMs: number;
+  items: BatchItemResult[];
+}
+
+export interface BatchOptions {
+  concurrency: number;
+  signal?: AbortSignal;
+  // Called as each item finishes, with the number finished so far
+  onItemDone?: (result: BatchItemResult, done: number) => void;
+}
+
+// Turn the tool result of one item into its batch entry
+function itemResult(item: BatchItem, index: number, result: CallToolResult, durationMs: number): BatchItemResult {
+  const error = (result.structuredContent as { error?: { code: string; message: string } } | undefined)?.error;
+  const attempts = (result._meta as { attempts?: unknown[] } | undefined)?.attempts;
+  const resource = (result._meta as { resource?: string } | undefined)?.resource;
+  const entry: BatchItemResult = {
+    index,
+    label: item.label,
+    ...(item.file ? { file: item.file } : {}),
+    status: !result.isError ? "succeeded" : error?.code === "CANCELLED" ? "cancelled" : "failed",
+    durationMs,
+    ...(attempts ? { attempts: attempts.length } : {}),
+    ...(resource ? { resource } : {})
+  };
+  if (result.isError) {
+    entry.error = error ? { code: error.code, message: error.message } : { code: "PROCESS_ERROR", message: "Unknown error" };
+  } else {
+    const first = result.content[0];
+    entry.response = first?.type === "text" ? first.text : "";
+  }
+  return entry;
+}
+
+export async function runBatch(
+  items: BatchItem[],
+  run: (item: BatchItem, index: number) => Promise<CallToolResult>,
+  options: BatchOptions
+): Promise<BatchSummary> {
+  const startTime = Date.now();
+  const results: BatchItemResult[] = new Array(items.length);
+  let next = 0;
+  let done = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      const item = items[index];
+      let result: BatchItemResult;
+      if (options.signal?.aborted) {
+        result = { index, label: item.label, ...(item.file ? { file: item.file } : {}), status: "cancelled", durationMs: 0 };
+      } else {
+        const itemStart = Date.now();
+        let toolResult: CallToolResult;
+        try {
+          toolResult = await run(item, index);
+        } catch (error) {
+          toolResult = errorResult(error);
+        }
+        result = itemResult(item, index, toolResult, Date.now() - itemStart);
+      }
+      results[index] = result;
+      options.onItemDone?.(result, ++done);
+    }
+  };
+
+  const workers = Math.max(1, Math.min(options.concurrency, items.length));
+  await Promise.all(Array.from({ length: workers }, worker));
+
+  return {
+    total: items.length,
+    succeeded: results.filter((result) => result.status === "succeeded").length,
+    failed: results.filter((result) => result.status === "failed").length,
+    cancelled: results.filter((result) => result.status === "cancelled").length,
+    durationMs: Date.now() - startTime,
+    items: results
+  };
+}
+
+export function formatBatch(summary: BatchSummary): string {
+  const lines = [
+    `Batch of ${summary.total}: ${summary.succeeded} succeeded, ${summary.failed} failed, ${summary.cancelled} cancelled ` +
+      `in ${(summary.durationMs / 1000).toFixed(1)}s`
+  ];
+  for (const item of summary.items) {
+    lines.push("", `## [${item.index + 1}] ${item.label}: ${item.status} (${(item.durationMs / 1000).toFixed(1)}s)`, "");
+    if (item.status === "succeeded") {
+      lines.push(item.response || "(empty response)");
+    } else if (item.error) {
+      lines.push(`Error [${item.error.code}]: ${item.error.message}`);
+    } else {
+      lines.push("Not started: the batch was cancelled");
+    }
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,250 @@
+import { createHash } from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+
+// Response cache for prompts, in memory and optionally on disk.
+// Entries are keyed by the normalized prompt, the contents of every referenced file,
+// the backend, the model and the CLI version, so editing a referenced file misses the cache.
+
+export interface CacheConfig {
+  enabled: boolean;
+  // Also keep entries on disk so they survive restarts
+  disk: boolean;
+  // Disk tier location (default: "cache" under the storage data directory)
+  directory?: string;
+  ttlMs: number;
+  // Entries kept in memory; the least recently used are evicted first
+  maxEntries: number;
+  // Size of the disk tier; the oldest entries are removed first
+  maxDiskBytes: number;
+}
+
+export const DEFAULT_CACHE: CacheConfig = {
+  enabled: false,
+  disk: false,
+  ttlMs: 60 * 60 * 1000,
+  maxEntries: 200,
+  maxDiskBytes: 50 * 1024 * 1024
+};
+
+// use: answer from the cache when possible; bypass: ignore it; refresh: run and overwrite the entry
+export type CacheMode = "use" | "bypass" | "refresh";
+
+export interface CacheKeyParts {
+  prompt: string;
+  // Absolute paths of the @file references
+  files: string[];
+  // Content hashes of attachments, in order
+  attachments?: string[];
+  backend: string;
+  model?: string;
+  cliVersion?: string;
+}
+
+export interface CachedResponse {
+  response: string;
+  // CLI notices shown with the original answer
+  notices: string;
+  backend: string;
+  storedAt: string;
+  expiresAt: string;
+}
+
+export interface CacheStats {
+  enabled: boolean;
+  disk: boolean;
+  entries: number;
+  hits: number;
+  memoryHits: number;
+  diskHits: number;
+  misses: number;
+  // Calls with cache "bypass" or "refresh"
+  bypassed: number;
+  stores: number;
+  evictions: number;
+  hitRate: number;
+}
+
+// Disk writes between two size checks of the disk tier
+const PRUNE_EVERY_WRITES = 20;
+
+// Line endings and trailing whitespace do not change the answer
+export function normalizePrompt(prompt: string): string {
+  return prompt.replace(/\r\n?/g, "\n").replace(/[^\S\n]+$/gm, "").trim();
+}
+
+// Content hash of a file; directories hash their listing with sizes and modification times
+async function hashReference(target: string): Promise<string> {
+  const hash = createHash("sha256");
+  let stat: fs.Stats;
+  try {
+    stat = await fs.promises.stat(target);
+  } catch {
+    return "missing";
+  }
+  if (stat.isFile()) {
+    hash.update(await fs.promises.readFile(target));
+    return hash.digest("hex");
+  }
+  const walk = async (directory: string, relative: string): Promise<void> => {
+    const entries = await fs.promises.readdir(directory, { withFileTypes: true }).catch(() => []);
+    for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+      if (entry.name === ".git" || entry.name === "node_modules") continue;
+      const entryPath = path.join(directory, entry.name);
+      if (entry.isDirectory()) {
+        await walk(entryPath, `${relative}${entry.name}/`);
+      } else if (entry.isFile()) {
+        const entryStat = await fs.promises.stat(entryPath).catch(() => undefined);
+        hash.update(`${relative}${entry.name}\0${entryStat?.size}\0${entryStat?.mtimeMs}\n`);
+      }
+    }
+  };
+  await walk(target, "");
+  return hash.digest("hex");
+}
+
+export async function cacheKey(parts: CacheKeyParts): Promise<string> {
+  const files: [string, string][] = [];
+  for (const file of [...new Set(parts.files)].sort()) {
+    files.push([file, await hashReference(file)]);
+  }
+  return createHash("sha256").update(JSON.stringify({
+    prompt: normalizePrompt(parts.prompt),
+    files,
+    attachments: parts.attachments ?? [],
+    backend: parts.backend,
+    model: parts.model ?? "",
+    cliVersion: parts.cliVersion ?? ""
+  })).digest("hex");
+}
+
+export class ResponseCache {
+  private memory = new Map<string, CachedResponse>();
+  private counters = { memoryHits: 0, diskHits: 0, misses: 0, bypassed: 0, stores: 0, evictions: 0 };
+  private writesSincePrune = 0;
+
+  // Without a directory only the memory tier is used
+  constructor(private config: CacheConfig, private directory?: string) {}
+
+  get enabled(): boolean {
+    return this.config.enabled;
+  }
+
+  private entryFile(key: string): string {
+    return path.join(this.directory!, `${key}.json`);
+  }
+
+  private remember(key: string, entry: CachedResponse): void {
+    // Re-inserting moves the key to the most recently used end
+    this.memory.delete(key);
+    this.memory.set(key, entry);
+    while (this.memory.size > this.config.maxEntries) {
+      this.memory.delete(this.memory.keys().next().value!);
+      this.counters.evictions++;
+    }
+  }
+
+  async get(key: string): Promise<CachedResponse | undefined> {
+    const now = new Date().toISOString();
+    const cached = this.memory.get(key);
+    if (cached && cached.expiresAt > now) {
+      this.remember(key, cached);
+      this.counters.memoryHits++;
+      return cached;
+    }
+    this.memory.delete(key);
+
+    if (this.directory) {
+      try {
+        const entry = JSON.parse(await fs.promises.readFile(this.entryFile(key), "utf8")) as CachedResponse;
+        if (entry.expiresAt > now) {
+          this.remember(key, entry);
+          this.counters.diskHits++;
+          return entry;
+        }
+        await fs.promises.rm(this.entryFile(key), { force: true });
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+          console.error(`[Gemini MCP] Failed to read cache entry ${key}: ${error}`);
+        }
+      }
+    }
+    this.counters.misses++;
+    return undefined;
+  }
+
+  async set(key: string, value: Omit<CachedResponse, "storedAt" | "expiresAt">): Promise<void> {
+    const storedAt = new Date();
+    const entry: CachedResponse = {
+      ...value,
+      storedAt: storedAt.toISOString(),
+      expiresAt: new Date(storedAt.getTime() + this.config.ttlMs).toISOString()
+    };
+    this.remember(key, entry);
+    this.counters.stores++;
+    if (!this.directory) return;
+
+    try {
+      await fs.promises.mkdir(this.directory, { recursive: true });
+      // Write then rename so a concurrent reader never sees half an entry
+      const temporary = `${this.entryFile(key)}.${process.pid}.tmp`;
+      await fs.promises.writeFile(temporary, JSON.stringify(entry), "utf8");
+      await fs.promises.rename(temporary, this.entryFile(key));
+      if (++this.writesSincePrune >= PRUNE_EVERY_WRITES) {
+        this.writesSincePrune = 0;
+        await this.prune();
+      }
+    } catch (error) {
+      console.error(`[Gemini MCP] Failed to write cache entry: ${error}`);
+    }
+  }
+
+  // Count a call that skipped the lookup
+  skip(): void {
+    this.counters.bypassed++;
+  }
+
+  // Remove expired disk entries, then the oldest until the disk tier fits its size limit
+  async prune(): Promise<number> {
+    if (!this.directory) return 0;
+    let names: string[];
+    try {
+      names = (await fs.promises.readdir(this.directory)).filter((name) => name.endsWith(".json"));
+    } catch {
+      return 0;
+    }
+    const files: { file: string; size: number; modified: number }[] = [];
+    for (const name of names) {
+      const file = path.join(this.directory, name);
+      const stat = await fs.promises.stat(file).catch(() => undefined);
+      if (stat) files.push({ file, size: stat.size, modified: stat.mtimeMs });
+    }
+    files.sort((a, b) => b.modified - a.modified);
+
+    const cutoff = Date.now() - this.config.ttlMs;
+    let total = 0;
+    let removed = 0;
+    for (const entry of files) {
+      if (entry.modified >= cutoff && total + entry.size <= this.config.maxDiskBytes) {
+        total += entry.size;
+        continue;
+      }
+      await fs.promises.rm(entry.file, { force: true });
+      removed++;
+    }
+    return removed;
+  }
+
+  stats(): CacheStats {
+    const { memoryHits, diskHits, misses } = this.counters;
+    const hits = memoryHits + diskHits;
+    return {
+      enabled: this.config.enabled,
+      disk: this.directory !== undefined,
+      entries: this.memory.size,
+      hits,
+      ...this.counters,
+      hitRate: hits + misses > 0 ? Math.round((hits / (hits + misses)) * 1000) / 1000 : 0
+    };
+  }
+}
@@ -0,0 +1,288 @@
+import * as fs from "fs";
+import * as path from "path";
+import { GeminiError } from "./errors.js";
+import { escapeReferences, globToRegExp } from "./files.js";
+
+// Context packing for gemini_analyze_codebase.
+// Files under a directory are selected by include/exclude globs and .gitignore,
+// binaries are skipped, and the rest is inlined (or referenced with @paths) in
+// path order until an estimated token budget is used up. The manifest records
+// what was included, truncated, omitted and skipped. "@" in inlined contents and
+// listed names is escaped, so the Gemini CLI reads only the files packed as references.
+
+export interface ContextPackConfig {
+  // Estimated tokens of a packed prompt
+  tokenBudget: number;
+  // Larger files are truncated (inline) or omitted (reference)
+  maxFileBytes: number;
+  // Files considered before the walk stops
+  maxFiles: number;
+  // Characters per token for the estimate
+  charsPerToken: number;
+}
+
+export const DEFAULT_CONTEXT_PACK: ContextPackConfig = {
+  tokenBudget: 500_000,
+  maxFileBytes: 256 * 1024,
+  maxFiles: 5000,
+  charsPerToken: 4
+};
+
+export type PackMode = "inline" | "reference";
+
+export type ManifestStatus = "included" | "truncated" | "omitted";
+
+export interface ManifestEntry {
+  path: string;
+  bytes: number;
+  tokens: number;
+  status: ManifestStatus;
+  // Why a file was truncated or omitted
+  reason?: string;
+}
+
+export interface PackManifest {
+  root: string;
+  mode: PackMode;
+  tokenBudget: number;
+  // Estimated tokens of the packed files
+  tokens: number;
+  files: ManifestEntry[];
+  // Counts of files left out before packing
+  skipped: { binary: number; ignored: number; unreadable: number };
+  // Set when the walk stopped at maxFiles
+  limitReached: boolean;
+}
+
+export interface PackedContext {
+  prompt: string;
+  manifest: PackManifest;
+  // Absolute paths referenced with @ (reference mode)
+  references: string[];
+}
+
+export interface CollectOptions {
+  include: string[];
+  exclude: string[];
+  maxFiles: number;
+}
+
+export interface CollectedFiles {
+  // Relative "/"-separated paths in sorted order
+  files: string[];
+  ignored: number;
+  limitReached: boolean;
+}
+
+interface IgnoreRule {
+  // Directory of the .gitignore, relative to the root ("" for the root)
+  base: string;
+  pattern: RegExp;
+  negate: boolean;
+  directoryOnly: boolean;
+}
+
+// Never packed, whatever .gitignore says
+const ALWAYS_SKIPPED = new Set([".git", "node_modules"]);
+
+// Smallest remainder of the budget worth filling with a truncated file
+const MIN_TRUNCATED_TOKENS = 1000;
+
+// Omitted paths listed in the prompt so Gemini knows they exist
+const LISTED_OMISSIONS = 200;
+
+export function parseGitignore(text: string, base: string = ""): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+  for (const rawLine of text.split(/\r?\n/)) {
+    let line = rawLine.replace(/(?<!\\)\s+$/, "");
+    if (!line || line.startsWith("#")) continue;
+    const negate = line.startsWith("!");
+    if (negate) line = line.slice(1);
+    line = line.replace(/^\\([#!])/, "$1");
+    const directoryOnly = line.endsWith("/");
+    if (directoryOnly) line = line.slice(0, -1);
+    // A slash anywhere but the end anchors the pattern to the .gitignore's directory
+    const anchored = line.includes("/");
+    line = line.replace(/^\//, "");
+    if (!line) continue;
+    rules.push({ base, pattern: globToRegExp(anchored ? line : `**/${line}`), negate, directoryOnly });
+  }
+  return rules;
+}
+
+// The last matching rule decides, as in git
+export function isIgnored(relativePath: string, isDirectory: boolean, rules: IgnoreRule[]): boolean {
+  let ignored = false;
+  for (const rule of rules) {
+    if (rule.directoryOnly && !isDirectory) continue;
+    if (rule.base && !relativePath.startsWith(`${rule.base}/`)) continue;
+    const candidate = rule.base ? relativePath.slice(rule.base.length + 1) : relativePath;
+    if (rule.pattern.test(candidate)) ignored = !rule.negate;
+  }
+  return ignored;
+}
+
+// Same heuristic as git: a NUL byte in the first 8000 bytes
+export function isBinary(content: Buffer): boolean {
+  return content.subarray(0, 8000).includes(0);
+}
+
+export function estimateTokens(text: string, charsPerToken: number): number {
+  return Math.ceil(text.length / charsPerToken);
+}
+
+function checkGlob(pattern: string): string {
+  const normalized = pattern.replace(/\\/g, "/").replace(/^\.\//, "");
+  if (path.isAbsolute(pattern) || normalized.split("/").includes("..")) {
+    throw new GeminiError("INVALID_REQUEST", `Glob must be relative to the working directory without "..": ${pattern}`);
+  }
+  return normalized;
+}
+
+// Files under root matching include and not exclude, honoring every .gitignore on the way
+export async function collectFiles(root: string, options: CollectOptions): Promise<CollectedFiles> {
+  const include = options.include.map((pattern) => globToRegExp(checkGlob(pattern)));
+  const exclude = options.exclude.map((pattern) => globToRegExp(checkGlob(pattern)));
+  const files: string[] = [];
+  let ignored = 0;
+  let limitReached = false;
+
+  const walk = async (relative: string, rules: IgnoreRule[]): Promise<void> => {
+    const directory = path.join(root, relative);
+    const gitignore = await fs.promises.readFile(path.join(directory, ".gitignore"), "utf8").catch(() => undefined);
+    const scoped = gitignore === undefined ? rules : [...rules, ...parseGitignore(gitignore, relative)];
+    const entries = await fs.promises.readdir(directory, { withFileTypes: true }).catch(() => []);
+    entries.sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+
+    for (const entry of entries) {
+      if (limitReached) return;
+      const entryPath = relative ? `${relative}/${entry.name}` : entry.name;
+      // Symbolic links are not followed, so nothing outside root is read
+      if (!entry.isDirectory() && !entry.isFile()) continue;
+      if (ALWAYS_SKIPPED.has(entry.name) && entry.isDirectory()) continue;
+      if (isIgnored(entryPath, entry.isDirectory(), scoped)) {
+        ignored++;
+        continue;
+      }
+      if (entry.isDirectory()) {
+        await walk(entryPath, scoped);
+      } else if (include.some((pattern) => pattern.test(entryPath)) && !exclude.some((pattern) => pattern.test(entryPath))) {
+        if (files.length >= options.maxFiles) {
+          limitReached = true;
+          return;
+        }
+        files.push(entryPath);
+      }
+    }
+  };
+  await walk("", []);
+  return { files: files.sort(), ignored, limitReached };
+}
+
+// Read the collected files and fit them into the token budget, in path order
+export async function packContext(
+  root: string,
+  collected: CollectedFiles,
+  question: string,
+  mode: PackMode,
+  config: ContextPackConfig
+): Promise<PackedContext> {
+  const manifest: PackManifest = {
+    root,
+    mode,
+    tokenBudget: config.tokenBudget,
+    tokens: 0,
+    files: [],
+    skipped: { binary: 0, ignored: collected.ignored, unreadable: 0 },
+    limitReached: collected.limitReached
+  };
+  const sections: string[] = [];
+  const references: string[] = [];
+  let remaining = config.tokenBudget - estimateTokens(question, config.charsPerToken);
+
+  for (const file of collected.files) {
+    const absolute = path.join(root, file);
+    let content: Buffer;
+    try {
+      content = await fs.promises.readFile(absolute);
+    } catch {
+      manifest.skipped.unreadable++;
+      continue;
+    }
+    if (isBinary(content)) {
+      manifest.skipped.binary++;
+      continue;
+    }
+
+    const text = content.toString("utf8");
+    const tokens = estimateTokens(text, config.charsPerToken);
+    const entry: ManifestEntry = { path: file, bytes: content.length, tokens, status: "included" };
+    let body = text;
+    if (content.length > config.maxFileBytes) {
+      if (mode === "reference") {
+        entry.status = "omitted";
+        entry.reason = `larger than ${Math.round(config.maxFileBytes / 1024)} KB`;
+      } else {
+        body = content.subarray(0, config.maxFileBytes).toString("utf8");
+        entry.status = "truncated";
+        entry.reason = `first ${Math.round(config.maxFileBytes / 1024)} KB of ${Math.round(content.length / 1024)} KB`;
+      }
+    }
+    if (entry.status !== "omitted") {
+      let cost = estimateTokens(body, config.charsPerToken);
+      if (cost > remaining) {
+        if (mode === "inline" && remaining >= MIN_TRUNCATED_TOKENS) {
+          body = body.substring(0, remaining * config.charsPerToken);
+          cost = remaining;
+          entry.status = "truncated";
+          entry.reason = `cut to the remaining budget (${remaining} of ${tokens} tokens)`;
+        } else {
+          entry.status = "omitted";
+          entry.reason = "over the token budget";
+        }
+      }
+      if (entry.status !== "omitted") {
+        remaining -= cost;
+        manifest.tokens += cost;
+        if (mode === "inline") {
+          const name = escapeReferences(file);
+          sections.push(`--- FILE: ${name}${entry.status === "truncated" ? ` (truncated: ${entry.reason})` : ""} ---\n${escapeReferences(body)}\n--- END FILE: ${name} ---`);
+        } else {
+          sections.push(`@${absolute}`);
+          references.push(absolute);
+        }
+      }
+    }
+    manifest.files.push(entry);
+  }
+
+  const packed = manifest.files.filter((entry) => entry.status !== "omitted");
+  const omitted = manifest.files.filter((entry) => entry.status === "omitted");
+  const lines = [
+    question,
+    "",
+    `Files from ${escapeReferences(root)} (${packed.length} of ${manifest.files.length}, about ${manifest.tokens} tokens):`,
+    "",
+    sections.join(mode === "inline" ? "\n\n" : "\n")
+  ];
+  if (omitted.length > 0) {
+    lines.push("", `Not included (${omitted.length} files):`, ...omitted.slice(0, LISTED_OMISSIONS).map((entry) => `- ${escapeReferences(entry.path)}`));
+    if (omitted.length > LISTED_OMISSIONS) lines.push(`- ... and ${omitted.length - LISTED_OMISSIONS} more`);
+  }
+  return { prompt: lines.join("\n"), manifest, references };
+}
+
+export function formatManifest(manifest: PackManifest): string {
+  const count = (status: ManifestStatus) => manifest.files.filter((entry) => entry.status === status).length;
+  const lines = [
+    `[Context: ${count("included")} included, ${count("truncated")} truncated, ${count("omitted")} omitted; ` +
+      `about ${manifest.tokens} of ${manifest.tokenBudget} tokens (${manifest.mode})]`,
+    `Skipped: ${manifest.skipped.ignored} ignored, ${manifest.skipped.binary} binary` +
+      (manifest.skipped.unreadable > 0 ? `, ${manifest.skipped.unreadable} unreadable` : "") +
+      (manifest.limitReached ? "; stopped at the file limit" : "")
+  ];
+  for (const entry of manifest.files.filter((file) => file.status !== "included")) {
+    lines.push(`- ${entry.path}: ${entry.status} (${entry.reason})`);
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,477 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { defaultDataDir, StorageOptions } from "./storage.js";
+import { DEFAULT_RETRY_POLICY, RetryPolicy } from "./retry.js";
+import { DEFAULT_RATE_LIMIT, RateLimitConfig } from "./rate-limiter.js";
+import { DEFAULT_POOL, PoolConfig } from "./process-pool.js";
+import { DEFAULT_PROGRESS, ProgressConfig } from "./progress.js";
+import { DEFAULT_JOBS, JobConfig } from "./jobs.js";
+import { DEFAULT_TIMEOUTS, TimeoutPolicy } from "./timeouts.js";
+import { DEFAULT_BACKENDS, BackendDefinition, BackendsConfig } from "./backends.js";
+import { DEFAULT_TRANSPORT, TransportConfig } from "./http-server.js";
+import { TemplateConfig } from "./templates.js";
+import { DEFAULT_BATCH, BatchConfig } from "./batch.js";
+import { DEFAULT_CACHE, CacheConfig } from "./cache.js";
+import { DEFAULT_ATTACHMENTS, AttachmentConfig } from "./attachments.js";
+import { DEFAULT_CONTEXT_PACK, ContextPackConfig } from "./codebase.js";
+import { DEFAULT_REVIEW, ReviewConfig } from "./review.js";
+
+// Server configuration, read once at startup.
+// Precedence: built-in defaults < config file < environment variables < command-line flags.
+
+export interface GeminiCliConfig {
+  // Executable name (looked up in PATH) or absolute path
+  binary: string;
+  // Model used when gemini_send does not pass one
+  defaultModel?: string;
+  // CLI flag that selects the model
+  modelFlag: string;
+  // CLI flag that lets a run read a directory outside its working directory (used for attachments)
+  includeDirectoryFlag: string;
+  // Arguments added to every invocation
+  extraArgs: string[];
+  // When set, only these variables are inherited from the server environment
+  envAllowList?: string[];
+  // Variables set (or overridden) for the child process
+  env: Record<string, string>;
+}
+
+export interface FileAccessConfig {
+  // Directories that working_directory and @file references must stay inside (empty: unrestricted)
+  allowedRoots: string[];
+}
+
+export interface ServerConfig {
+  configFile?: string;
+  transport: TransportConfig;
+  gemini: GeminiCliConfig;
+  backends: BackendsConfig;
+  files: FileAccessConfig;
+  attachments: AttachmentConfig;
+  templates: TemplateConfig;
+  timeouts: TimeoutPolicy;
+  retry: RetryPolicy;
+  rateLimit: RateLimitConfig;
+  pool: PoolConfig;
+  progress: ProgressConfig;
+  jobs: JobConfig;
+  batch: BatchConfig;
+  codebase: ContextPackConfig;
+  review: ReviewConfig;
+  cache: CacheConfig;
+  storage: StorageOptions;
+}
+
+// Always inherited so the CLI can find its runtime and cached credentials
+const ALWAYS_INHERITED_ENV = ["PATH", "HOME", "USERPROFILE", "APPDATA", "SYSTEMROOT", "TMPDIR", "TEMP", "TMP"];
+
+export function defaultConfigFile(): string {
+  const base = process.env.XDG_CONFIG_HOME || path.join(os.homedir(), ".config");
+  return path.join(base, "gemini-mcp-server", "config.json");
+}
+
+// Per-user templates next to the config file, then the project's (relative to the server's working directory)
+export function defaultTemplateDirectories(): string[] {
+  return [path.join(path.dirname(defaultConfigFile()), "templates"), path.join(".gemini-mcp", "templates")];
+}
+
+export function defaultConfig(): ServerConfig {
+  return {
+    transport: { ...DEFAULT_TRANSPORT },
+    gemini: {
+      binary: "gemini",
+      modelFlag: "--model",
+      includeDirectoryFlag: "--include-directories",
+      extraArgs: [],
+      env: {}
+    },
+    backends: { ...DEFAULT_BACKENDS, fallback: [], definitions: {} },
+    files: {
+      allowedRoots: []
+    },
+    attachments: { ...DEFAULT_ATTACHMENTS, allowedMimeTypes: [...DEFAULT_ATTACHMENTS.allowedMimeTypes] },
+    templates: {
+      directories: defaultTemplateDirectories(),
+      starters: true
+    },
+    timeouts: { ...DEFAULT_TIMEOUTS },
+    retry: { ...DEFAULT_RETRY_POLICY },
+    rateLimit: { ...DEFAULT_RATE_LIMIT },
+    pool: { ...DEFAULT_POOL },
+    progress: { ...DEFAULT_PROGRESS },
+    jobs: { ...DEFAULT_JOBS },
+    batch: { ...DEFAULT_BATCH },
+    codebase: { ...DEFAULT_CONTEXT_PACK },
+    review: { ...DEFAULT_REVIEW },
+    cache: { ...DEFAULT_CACHE },
+    storage: {
+      backend: "jsonl",
+      dataDir: defaultDataDir(),
+      retention: {
+        maxAgeDays: 30,
+        maxBytes: 50 * 1024 * 1024
+      }
+    }
+  };
+}
+
+function parseNumber(value: string | undefined): number | undefined {
+  if (value === undefined || value.trim() === "") return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : undefined;
+}
+
+function parseBoolean(value: string | undefined): boolean | undefined {
+  if (value === undefined || value.trim() === "") return undefined;
+  return ["1", "true", "yes", "on"].includes(value.trim().toLowerCase());
+}
+
+function parseList(value: string | undefined, separator: string = ","): string[] | undefined {
+  if (value === undefined || value.trim() === "") return undefined;
+  return value.split(separator).map((item) => item.trim()).filter(Boolean);
+}
+
+// Accepts a JSON array or a whitespace-separated string
+function parseArgs(value: string | undefined): string[] | undefined {
+  if (value === undefined || value.trim() === "") return undefined;
+  if (value.trim().startsWith("[")) {
+    const parsed = JSON.parse(value);
+    if (!Array.isArray(parsed) || !parsed.every((arg) => typeof arg === "string")) {
+      throw new Error("GEMINI_MCP_EXTRA_ARGS must be a JSON array of strings");
+    }
+    return parsed;
+  }
+  return value.trim().split(/\s+/);
+}
+
+function stringRecord(value: unknown): Record<string, string> | undefined {
+  if (!value || typeof value !== "object") return undefined;
+  return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, String(item)]));
+}
+
+function parseBackendDefinition(name: string, value: unknown): BackendDefinition {
+  if (!isRecord(value)) {
+    throw new Error(`Backend "${name}" must be an object`);
+  }
+  if (value.type === "cli" && typeof value.command === "string") {
+    return {
+      type: "cli",
+      command: value.command,
+      ...(Array.isArray(value.args) ? { args: value.args.map(String) } : {}),
+      ...(typeof value.modelFlag === "string" ? { modelFlag: value.modelFlag } : {}),
+      ...(typeof value.defaultModel === "string" ? { defaultModel: value.defaultModel } : {}),
+      ...(value.output === "gemini" || value.output === "raw" ? { output: value.output } : {}),
+      ...(stringRecord(value.env) ? { env: stringRecord(value.env) } : {})
+    };
+  }
+  if (value.type === "http" && typeof value.baseUrl === "string") {
+    return {
+      type: "http",
+      baseUrl: value.baseUrl,
+      ...(typeof value.model === "string" ? { model: value.model } : {}),
+      ...(typeof value.apiKey === "string" ? { apiKey: value.apiKey } : {}),
+      ...(typeof value.apiKeyEnv === "string" ? { apiKeyEnv: value.apiKeyEnv } : {}),
+      ...(stringRecord(value.headers) ? { headers: stringRecord(value.headers) } : {})
+    };
+  }
+  throw new Error(`Backend "${name}" needs type "cli" with a command or type "http" with a baseUrl`);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// A section of the config file; a missing or malformed section counts as empty
+function section(file: Record<string, unknown>, name: string): Record<string, unknown> {
+  const value = file[name];
+  return isRecord(value) ? value : {};
+}
+
+// Shallow-merge the known sections of a parsed config file into the defaults
+function mergeFileConfig(config: ServerConfig, file: unknown): void {
+  if (!isRecord(file)) {
+    throw new Error("Config file must contain a JSON object");
+  }
+
+  const transport = section(file, "transport");
+  if (transport.mode === "stdio" || transport.mode === "http") config.transport.mode = transport.mode;
+  if (typeof transport.host === "string") config.transport.host = transport.host;
+  if (typeof transport.port === "number") config.transport.port = transport.port;
+  if (typeof transport.authToken === "string") config.transport.authToken = transport.authToken;
+  if (Array.isArray(transport.allowedHosts)) config.transport.allowedHosts = transport.allowedHosts.map(String);
+  if (typeof transport.sessionIdleMs === "number") config.transport.sessionIdleMs = transport.sessionIdleMs;
+
+  const gemini = section(file, "gemini");
+  if (typeof gemini.binary === "string") config.gemini.binary = gemini.binary;
+  if (typeof gemini.defaultModel === "string") config.gemini.defaultModel = gemini.defaultModel;
+  if (typeof gemini.modelFlag === "string") config.gemini.modelFlag = gemini.modelFlag;
+  if (typeof gemini.includeDirectoryFlag === "string") config.gemini.includeDirectoryFlag = gemini.includeDirectoryFlag;
+  if (Array.isArray(gemini.extraArgs)) config.gemini.extraArgs = gemini.extraArgs.map(String);
+  if (Array.isArray(gemini.envAllowList)) config.gemini.envAllowList = gemini.envAllowList.map(String);
+  if (isRecord(gemini.env)) {
+    for (const [key, value] of Object.entries(gemini.env)) {
+      config.gemini.env[key] = String(value);
+    }
+  }
+
+  const backends = section(file, "backends");
+  if (typeof backends.default === "string") config.backends.default = backends.default;
+  if (Array.isArray(backends.fallback)) config.backends.fallback = backends.fallback.map(String);
+  if (isRecord(backends.definitions)) {
+    for (const [name, definition] of Object.entries(backends.definitions)) {
+      config.backends.definitions[name] = parseBackendDefinition(name, definition);
+    }
+  }
+
+  const files = section(file, "files");
+  if (Array.isArray(files.allowedRoots)) config.files.allowedRoots = files.allowedRoots.map(String);
+
+  const attachments = section(file, "attachments");
+  if (typeof attachments.maxMb === "number") config.attachments.maxBytes = attachments.maxMb * 1024 * 1024;
+  if (typeof attachments.maxTotalMb === "number") config.attachments.maxTotalBytes = attachments.maxTotalMb * 1024 * 1024;
+  if (typeof attachments.maxCount === "number") config.attachments.maxCount = Math.max(0, Math.floor(attachments.maxCount));
+  if (Array.isArray(attachments.allowedMimeTypes)) config.attachments.allowedMimeTypes = attachments.allowedMimeTypes.map(String);
+  if (typeof attachments.directory === "string") config.attachments.directory = attachments.directory;
+
+  const templates = section(file, "templates");
+  if (Array.isArray(templates.directories)) config.templates.directories = templates.directories.map(String);
+  if (typeof templates.starters === "boolean") config.templates.starters = templates.starters;
+
+  const timeouts = section(file, "timeouts");
+  for (const key of ["firstByteMs", "idleMs", "totalMs", "killGraceMs"] as const) {
+    if (typeof timeouts[key] === "number") config.timeouts[key] = timeouts[key];
+  }
+
+  const retry = section(file, "retry");
+  for (const key of ["maxAttempts", "baseDelayMs", "maxDelayMs", "maxTotalMs", "jitter"] as const) {
+    if (typeof retry[key] === "number") config.retry[key] = retry[key];
+  }
+
+  const rateLimit = section(file, "rateLimit");
+  for (const key of ["requestsPerMinute", "requestsPerDay", "maxQueueSize"] as const) {
+    if (typeof rateLimit[key] === "number") config.rateLimit[key] = rateLimit[key];
+  }
+  if (typeof rateLimit.persistDailyCount === "boolean") config.rateLimit.persistDailyCount = rateLimit.persistDailyCount;
+  if (typeof rateLimit.timeZone === "string") config.rateLimit.timeZone = rateLimit.timeZone;
+
+  const pool = section(file, "pool");
+  if (typeof pool.maxConcurrency === "number") config.pool.maxConcurrency = Math.max(1, Math.floor(pool.maxConcurrency));
+
+  const progress = section(file, "progress");
+  if (typeof progress.intervalMs === "number") config.progress.intervalMs = Math.max(100, progress.intervalMs);
+  if (typeof progress.partialOutput === "boolean") config.progress.partialOutput = progress.partialOutput;
+
+  const jobs = section(file, "jobs");
+  for (const key of ["ttlMs", "maxFinishedJobs"] as const) {
+    if (typeof jobs[key] === "number") config.jobs[key] = jobs[key];
+  }
+
+  const batch = section(file, "batch");
+  for (const key of ["concurrency", "maxItems"] as const) {
+    if (typeof batch[key] === "number") config.batch[key] = Math.max(1, Math.floor(batch[key]));
+  }
+
+  const codebase = section(file, "codebase");
+  if (typeof codebase.tokenBudget === "number") config.codebase.tokenBudget = Math.max(1, Math.floor(codebase.tokenBudget));
+  if (typeof codebase.maxFileKb === "number") config.codebase.maxFileBytes = codebase.maxFileKb * 1024;
+  if (typeof codebase.maxFiles === "number") config.codebase.maxFiles = Math.max(1, Math.floor(codebase.maxFiles));
+  if (typeof codebase.charsPerToken === "number" && codebase.charsPerToken > 0) config.codebase.charsPerToken = codebase.charsPerToken;
+
+  const review = section(file, "review");
+  if (typeof review.maxChunkKb === "number") config.review.maxChunkBytes = Math.max(1, review.maxChunkKb) * 1024;
+  if (typeof review.maxChunks === "number") config.review.maxChunks = Math.max(1, Math.floor(review.maxChunks));
+
+  const cache = section(file, "cache");
+  if (typeof cache.enabled === "boolean") config.cache.enabled = cache.enabled;
+  if (typeof cache.disk === "boolean") config.cache.disk = cache.disk;
+  if (typeof cache.directory === "string") config.cache.directory = cache.directory;
+  if (typeof cache.ttlMs === "number") config.cache.ttlMs = cache.ttlMs;
+  if (typeof cache.maxEntries === "number") config.cache.maxEntries = Math.max(1, Math.floor(cache.maxEntries));
+  if (typeof cache.maxDiskMb === "number") config.cache.maxDiskBytes = cache.maxDiskMb * 1024 * 1024;
+
+  const storage = section(file, "storage");
+  if (storage.backend === "jsonl" || storage.backend === "memory") config.storage.backend = storage.backend;
+  if (typeof storage.dataDir === "string") config.storage.dataDir = storage.dataDir;
+  if (typeof storage.retentionDays === "number") config.storage.retention.maxAgeDays = storage.retentionDays;
+  if (typeof storage.retentionMaxMb === "number") config.storage.retention.maxBytes = storage.retentionMaxMb * 1024 * 1024;
+}
+
+function mergeEnvConfig(config: ServerConfig, env: NodeJS.ProcessEnv): void {
+  if (env.GEMINI_MCP_TRANSPORT === "stdio" || env.GEMINI_MCP_TRANSPORT === "http") {
+    config.transport.mode = env.GEMINI_MCP_TRANSPORT;
+  }
+  if (env.GEMINI_MCP_LISTEN_HOST) config.transport.host = env.GEMINI_MCP_LISTEN_HOST;
+  const listenPort = parseNumber(env.GEMINI_MCP_LISTEN_PORT);
+  if (listenPort !== undefined) config.transport.port = Math.floor(listenPort);
+  if (env.GEMINI_MCP_AUTH_TOKEN) config.transport.authToken = env.GEMINI_MCP_AUTH_TOKEN;
+  config.transport.allowedHosts = parseList(env.GEMINI_MCP_ALLOWED_HOSTS) ?? config.transport.allowedHosts;
+
+  if (env.GEMINI_MCP_BINARY) config.gemini.binary = env.GEMINI_MCP_BINARY;
+  if (env.GEMINI_MCP_MODEL) config.gemini.defaultModel = env.GEMINI_MCP_MODEL;
+  if (env.GEMINI_MCP_MODEL_FLAG) config.gemini.modelFlag = env.GEMINI_MCP_MODEL_FLAG;
+  config.gemini.extraArgs = parseArgs(env.GEMINI_MCP_EXTRA_ARGS) ?? config.gemini.extraArgs;
+  config.gemini.envAllowList = parseList(env.GEMINI_MCP_ENV_ALLOWLIST) ?? config.gemini.envAllowList;
+
+  if (env.GEMINI_MCP_BACKEND) config.backends.default = env.GEMINI_MCP_BACKEND;
+  config.backends.fallback = parseList(env.GEMINI_MCP_FALLBACK_BACKENDS) ?? config.backends.fallback;
+  // Quick way to add a chat-completions endpoint without a config file
+  if (env.GEMINI_MCP_HTTP_BASE_URL) {
+    config.backends.definitions.http = {
+      type: "http",
+      baseUrl: env.GEMINI_MCP_HTTP_BASE_URL,
+      ...(env.GEMINI_MCP_HTTP_MODEL ? { model: env.GEMINI_MCP_HTTP_MODEL } : {}),
+      ...(env.GEMINI_MCP_HTTP_API_KEY ? { apiKey: env.GEMINI_MCP_HTTP_API_KEY } : {})
+    };
+  }
+
+  // Separated like PATH (":" on Unix, ";" on Windows)
+  config.files.allowedRoots = parseList(env.GEMINI_MCP_ALLOWED_ROOTS, path.delimiter) ?? config.files.allowedRoots;
+  config.templates.directories = parseList(env.GEMINI_MCP_TEMPLATE_DIRS, path.delimiter) ?? config.templates.directories;
+
+  const attachmentMaxMb = parseNumber(env.GEMINI_MCP_ATTACHMENT_MAX_MB);
+  if (attachmentMaxMb !== undefined) config.attachments.maxBytes = attachmentMaxMb * 1024 * 1024;
+  config.attachments.allowedMimeTypes = parseList(env.GEMINI_MCP_ATTACHMENT_TYPES) ?? config.attachments.allowedMimeTypes;
+
+  const timeoutEnv = {
+    firstByteMs: env.GEMINI_MCP_FIRST_BYTE_TIMEOUT_MS,
+    idleMs: env.GEMINI_MCP_IDLE_TIMEOUT_MS,
+    totalMs: env.GEMINI_MCP_TOTAL_TIMEOUT_MS,
+    killGraceMs: env.GEMINI_MCP_KILL_GRACE_MS
+  };
+  for (const [key, value] of Object.entries(timeoutEnv) as [keyof typeof timeoutEnv, string | undefined][]) {
+    const parsed = parseNumber(value);
+    if (parsed !== undefined) config.timeouts[key] = parsed;
+  }
+
+  const maxAttempts = parseNumber(env.GEMINI_MCP_RETRY_MAX_ATTEMPTS);
+  if (maxAttempts !== undefined) config.retry.maxAttempts = Math.max(1, Math.floor(maxAttempts));
+  const maxTotalMs = parseNumber(env.GEMINI_MCP_RETRY_MAX_TOTAL_MS);
+  if (maxTotalMs !== undefined) config.retry.maxTotalMs = maxTotalMs;
+
+  const requestsPerMinute = parseNumber(env.GEMINI_MCP_REQUESTS_PER_MINUTE);
+  if (requestsPerMinute !== undefined) config.rateLimit.requestsPerMinute = requestsPerMinute;
+  const requestsPerDay = parseNumber(env.GEMINI_MCP_REQUESTS_PER_DAY);
+  if (requestsPerDay !== undefined) config.rateLimit.requestsPerDay = requestsPerDay;
+  const maxQueueSize = parseNumber(env.GEMINI_MCP_MAX_QUEUE);
+  if (maxQueueSize !== undefined) config.rateLimit.maxQueueSize = maxQueueSize;
+
+  const maxConcurrency = parseNumber(env.GEMINI_MCP_MAX_CONCURRENCY);
+  if (maxConcurrency !== undefined) config.pool.maxConcurrency = Math.max(1, Math.floor(maxConcurrency));
+
+  const progressInterval = parseNumber(env.GEMINI_MCP_PROGRESS_INTERVAL_MS);
+  if (progressInterval !== undefined) config.progress.intervalMs = Math.max(100, progressInterval);
+  config.progress.partialOutput = parseBoolean(env.GEMINI_MCP_PARTIAL_OUTPUT) ?? config.progress.partialOutput;
+
+  const jobTtlMs = parseNumber(env.GEMINI_MCP_JOB_TTL_MS);
+  if (jobTtlMs !== undefined) config.jobs.ttlMs = jobTtlMs;
+
+  const batchConcurrency = parseNumber(env.GEMINI_MCP_BATCH_CONCURRENCY);
+  if (batchConcurrency !== undefined) config.batch.concurrency = Math.max(1, Math.floor(batchConcurrency));
+
+  const tokenBudget = parseNumber(env.GEMINI_MCP_CODEBASE_TOKEN_BUDGET);
+  if (tokenBudget !== undefined) config.codebase.tokenBudget = Math.max(1, Math.floor(tokenBudget));
+
+  const reviewChunkKb = parseNumber(env.GEMINI_MCP_REVIEW_CHUNK_KB);
+  if (reviewChunkKb !== undefined) config.review.maxChunkBytes = Math.max(1, reviewChunkKb) * 1024;
+
+  // off, memory or disk (memory and disk)
+  if (env.GEMINI_MCP_CACHE === "off" || env.GEMINI_MCP_CACHE === "memory" || env.GEMINI_MCP_CACHE === "disk") {
+    config.cache.enabled = env.GEMINI_MCP_CACHE !== "off";
+    config.cache.disk = env.GEMINI_MCP_CACHE === "disk";
+  }
+  const cacheTtlMs = parseNumber(env.GEMINI_MCP_CACHE_TTL_MS);
+  if (cacheTtlMs !== undefined) config.cache.ttlMs = cacheTtlMs;
+  if (env.GEMINI_MCP_CACHE_DIR) config.cache.directory = env.GEMINI_MCP_CACHE_DIR;
+
+  if (env.GEMINI_MCP_STORAGE === "jsonl" || env.GEMINI_MCP_STORAGE === "memory") {
+    config.storage.backend = env.GEMINI_MCP_STORAGE;
+  }
+  if (env.GEMINI_MCP_DATA_DIR) config.storage.dataDir = env.GEMINI_MCP_DATA_DIR;
+  const retentionDays = parseNumber(env.GEMINI_MCP_RETENTION_DAYS);
+  if (retentionDays !== undefined) config.storage.retention.maxAgeDays = retentionDays;
+  const retentionMaxMb = parseNumber(env.GEMINI_MCP_RETENTION_MAX_MB);
+  if (retentionMaxMb !== undefined) config.storage.retention.maxBytes = retentionMaxMb * 1024 * 1024;
+}
+
+// --http, --stdio, --host <host> and --port <port> (also --name=value); other arguments are ignored
+function mergeArgConfig(config: ServerConfig, argv: string[]): void {
+  for (let i = 0; i < argv.length; i++) {
+    const [flag, inline] = argv[i].split(/=(.*)/s, 2);
+    const value = () => {
+      const next = inline ?? argv[++i];
+      if (next === undefined) throw new Error(`${flag} needs a value`);
+      return next;
+    };
+    switch (flag) {
+      case "--http":
+        config.transport.mode = "http";
+        break;
+      case "--stdio":
+        config.transport.mode = "stdio";
+        break;
+      case "--host":
+        config.transport.host = value();
+        break;
+      case "--port": {
+        const port = parseNumber(value());
+        if (port === undefined || !Number.isInteger(port) || port > 65535) {
+          throw new Error("--port must be a port number");
+        }
+        config.transport.port = port;
+        break;
+      }
+    }
+  }
+}
+
+export function loadConfig(env: NodeJS.ProcessEnv = process.env, argv: string[] = process.argv.slice(2)): ServerConfig {
+  const config = defaultConfig();
+
+  // An explicitly configured file must exist; the default location is optional
+  const explicitFile = env.GEMINI_MCP_CONFIG;
+  const configFile = explicitFile || defaultConfigFile();
+  if (explicitFile || fs.existsSync(configFile)) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(fs.readFileSync(configFile, "utf8"));
+    } catch (error) {
+      throw new Error(`Failed to read config file ${configFile}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    mergeFileConfig(config, parsed);
+    config.configFile = configFile;
+  }
+
+  mergeEnvConfig(config, env);
+  mergeArgConfig(config, argv);
+  config.files.allowedRoots = config.files.allowedRoots.map((root) => path.resolve(root));
+  config.templates.directories = config.templates.directories.map((directory) => path.resolve(directory));
+  return config;
+}
+
+// Variables a child process inherits from the server: all of them, or only the allow-listed ones
+export function inheritedEnv(envAllowList: string[] | undefined, parentEnv: NodeJS.ProcessEnv = process.env): NodeJS.ProcessEnv {
+  if (!envAllowList) return { ...parentEnv };
+  const childEnv: NodeJS.ProcessEnv = {};
+  for (const key of [...ALWAYS_INHERITED_ENV, ...envAllowList]) {
+    if (parentEnv[key] !== undefined) childEnv[key] = parentEnv[key];
+  }
+  return childEnv;
+}
+
+// Environment for the Gemini CLI child process
+export function buildChildEnv(cli: GeminiCliConfig, parentEnv: NodeJS.ProcessEnv = process.env): NodeJS.ProcessEnv {
+  return { ...inheritedEnv(cli.envAllowList, parentEnv), ...cli.env };
+}
+
+// Arguments for one Gemini CLI invocation
+export function buildCliArgs(cli: GeminiCliConfig, model?: string, includeDirectories: string[] = []): string[] {
+  const selectedModel = model || cli.defaultModel;
+  const args = selectedModel ? [...cli.extraArgs, cli.modelFlag, selectedModel] : [...cli.extraArgs];
+  if (cli.includeDirectoryFlag) {
+    for (const directory of includeDirectories) {
+      args.push(cli.includeDirectoryFlag, directory);
+    }
+  }
+  return args;
+}
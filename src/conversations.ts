@@ -0,0 +1,206 @@
+import { randomUUID } from "crypto";
+import { GeminiError } from "./errors.js";
+import type { StorageBackend } from "./storage.js";
+
+// Client-side conversation history for one-shot mode.
+// Gemini CLI runs statelessly, so prior turns are replayed as a transcript
+// prefix on the stdin payload of each new request.
+
+export type TurnRole = "user" | "assistant";
+
+export interface ConversationTurn {
+  role: TurnRole;
+  content: string;
+  timestamp: string;
+}
+
+export interface Conversation {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  forkedFrom?: string;
+  turns: ConversationTurn[];
+}
+
+export interface ConversationSummary {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  forkedFrom?: string;
+  turnCount: number;
+  totalChars: number;
+}
+
+export interface BuiltPrompt {
+  prompt: string;
+  includedTurns: number;
+  droppedTurns: number;
+}
+
+// Default character budget for the replayed transcript (including the new message)
+export const DEFAULT_HISTORY_BUDGET = 30000;
+
+const TRANSCRIPT_HEADER =
+  "The following is our conversation so far. Continue it by answering the last user message.";
+
+function formatTurn(turn: { role: TurnRole; content: string }): string {
+  return `[${turn.role === "user" ? "User" : "Assistant"}]\n${turn.content}`;
+}
+
+export class ConversationNotFoundError extends GeminiError {
+  constructor(id: string) {
+    super("INVALID_REQUEST", `Conversation not found: ${id}`);
+    this.name = "ConversationNotFoundError";
+  }
+}
+
+export class ConversationStore {
+  private conversations = new Map<string, Conversation>();
+  private storage?: StorageBackend;
+
+  constructor(private historyBudget: number = DEFAULT_HISTORY_BUDGET) {}
+
+  // Load persisted conversations and write future changes through to the backend
+  async attach(storage: StorageBackend): Promise<number> {
+    const stored = await storage.loadConversations();
+    for (const conversation of stored) {
+      this.conversations.set(conversation.id, conversation);
+    }
+    this.storage = storage;
+    return stored.length;
+  }
+
+  private persist(id: string): void {
+    if (!this.storage) return;
+    const conversation = this.conversations.get(id);
+    const write = conversation
+      ? this.storage.saveConversation(conversation)
+      : this.storage.deleteConversation(id);
+    write.catch((error) => {
+      console.error(`[Gemini MCP] Failed to persist conversation ${id}: ${error}`);
+    });
+  }
+
+  has(id: string): boolean {
+    return this.conversations.has(id);
+  }
+
+  get(id: string): Conversation | undefined {
+    return this.conversations.get(id);
+  }
+
+  list(): ConversationSummary[] {
+    return Array.from(this.conversations.values())
+      .map((conversation) => ({
+        id: conversation.id,
+        createdAt: conversation.createdAt,
+        updatedAt: conversation.updatedAt,
+        forkedFrom: conversation.forkedFrom,
+        turnCount: conversation.turns.length,
+        totalChars: conversation.turns.reduce((sum, turn) => sum + turn.content.length, 0)
+      }))
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  // Create the conversation if it does not exist yet
+  ensure(id: string): Conversation {
+    let conversation = this.conversations.get(id);
+    if (!conversation) {
+      const now = new Date().toISOString();
+      conversation = { id, createdAt: now, updatedAt: now, turns: [] };
+      this.conversations.set(id, conversation);
+    }
+    return conversation;
+  }
+
+  appendExchange(id: string, userMessage: string, assistantResponse: string): Conversation {
+    const conversation = this.ensure(id);
+    const now = new Date().toISOString();
+    conversation.turns.push(
+      { role: "user", content: userMessage, timestamp: now },
+      { role: "assistant", content: assistantResponse, timestamp: now }
+    );
+    conversation.updatedAt = now;
+    this.persist(id);
+    return conversation;
+  }
+
+  // Copy a conversation (optionally only its first `turnCount` turns) under a new id
+  fork(sourceId: string, newId: string = randomUUID(), turnCount?: number): Conversation {
+    const source = this.conversations.get(sourceId);
+    if (!source) {
+      throw new ConversationNotFoundError(sourceId);
+    }
+    if (this.conversations.has(newId)) {
+      throw new GeminiError("INVALID_REQUEST", `Conversation already exists: ${newId}`);
+    }
+
+    const now = new Date().toISOString();
+    const turns = turnCount === undefined ? source.turns : source.turns.slice(0, turnCount);
+    const fork: Conversation = {
+      id: newId,
+      createdAt: now,
+      updatedAt: now,
+      forkedFrom: sourceId,
+      turns: turns.map((turn) => ({ ...turn }))
+    };
+    this.conversations.set(newId, fork);
+    this.persist(newId);
+    return fork;
+  }
+
+  // Drop all turns but keep the conversation id
+  clear(id: string): boolean {
+    const conversation = this.conversations.get(id);
+    if (!conversation) return false;
+    conversation.turns = [];
+    conversation.updatedAt = new Date().toISOString();
+    this.persist(id);
+    return true;
+  }
+
+  clearAll(): number {
+    const ids = Array.from(this.conversations.keys());
+    this.conversations.clear();
+    ids.forEach((id) => this.persist(id));
+    return ids.length;
+  }
+
+  delete(id: string): boolean {
+    const deleted = this.conversations.delete(id);
+    if (deleted) this.persist(id);
+    return deleted;
+  }
+
+  // Build the stdin payload: prior turns (newest first until the budget is used up) plus the new message
+  buildPrompt(id: string, message: string, budget: number = this.historyBudget): BuiltPrompt {
+    const turns = this.conversations.get(id)?.turns ?? [];
+    if (turns.length === 0) {
+      return { prompt: message, includedTurns: 0, droppedTurns: 0 };
+    }
+
+    const current = formatTurn({ role: "user", content: message });
+    let used = TRANSCRIPT_HEADER.length + current.length;
+    let start = turns.length;
+
+    while (start > 0) {
+      const cost = formatTurn(turns[start - 1]).length + 2;
+      if (used + cost > budget) break;
+      used += cost;
+      start--;
+    }
+
+    // Never start the replay on an orphaned assistant turn
+    while (start < turns.length && turns[start].role !== "user") {
+      start++;
+    }
+
+    const included = turns.slice(start);
+    if (included.length === 0) {
+      return { prompt: message, includedTurns: 0, droppedTurns: turns.length };
+    }
+
+    const prompt = [TRANSCRIPT_HEADER, ...included.map(formatTurn), current].join("\n\n");
+    return { prompt, includedTurns: included.length, droppedTurns: start };
+  }
+}
@@ -0,0 +1,252 @@
+import { execFile } from "child_process";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import type { ServerConfig } from "./config.js";
+import type { QuotaSnapshot } from "./rate-limiter.js";
+import type { CacheStats } from "./cache.js";
+import type { ExchangeRecord } from "./storage.js";
+
+// Health diagnostics for gemini_status and the availability check in gemini_send.
+// Probing the CLI (PATH lookup, --version, credential files) runs asynchronously
+// and is cached, so neither a status check nor a request pays for it every time.
+
+export interface BinaryInfo {
+  command: string;
+  found: boolean;
+  path?: string;
+  version?: string;
+  versionError?: string;
+}
+
+export interface CredentialInfo {
+  // Gemini CLI's OAuth token cache (~/.gemini/oauth_creds.json)
+  oauthCredentialsFile: string;
+  oauthCredentialsPresent: boolean;
+  // Auth-related variables set in the CLI's environment (names only)
+  apiKeyVariables: string[];
+}
+
+export interface CliProbe {
+  checkedAt: string;
+  binary: BinaryInfo;
+  credentials: CredentialInfo;
+}
+
+export interface ErrorRates {
+  windowMinutes: number;
+  requests: number;
+  errors: number;
+  errorRate: number;
+  byCode: Record<string, number>;
+}
+
+const AUTH_VARIABLES = ["GEMINI_API_KEY", "GOOGLE_API_KEY", "GOOGLE_APPLICATION_CREDENTIALS", "GOOGLE_GENAI_USE_VERTEXAI", "GOOGLE_CLOUD_PROJECT"];
+
+const PROBE_TTL_MS = 60000;
+const VERSION_TIMEOUT_MS = 10000;
+
+async function isExecutable(file: string): Promise<boolean> {
+  try {
+    await fs.promises.access(file, process.platform === "win32" ? fs.constants.F_OK : fs.constants.X_OK);
+    return (await fs.promises.stat(file)).isFile();
+  } catch {
+    return false;
+  }
+}
+
+// Resolve a command the way spawn would: paths as given, bare names through PATH
+export async function findExecutable(command: string, env: NodeJS.ProcessEnv = process.env): Promise<string | undefined> {
+  if (command.includes("/") || command.includes("\\")) {
+    const resolved = path.resolve(command);
+    return await isExecutable(resolved) ? resolved : undefined;
+  }
+
+  const extensions = process.platform === "win32"
+    ? (env.PATHEXT ?? ".EXE;.CMD;.BAT").split(";").concat([""])
+    : [""];
+  for (const directory of (env.PATH ?? "").split(path.delimiter).filter(Boolean)) {
+    for (const extension of extensions) {
+      const candidate = path.join(directory, command + extension);
+      if (await isExecutable(candidate)) return candidate;
+    }
+  }
+  return undefined;
+}
+
+function readVersion(file: string, env: NodeJS.ProcessEnv): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const child = execFile(file, ["--version"], { env, timeout: VERSION_TIMEOUT_MS }, (error, stdout, stderr) => {
+      if (error) {
+        reject(error);
+        return;
+      }
+      resolve((stdout.trim() || stderr.trim()).split("\n")[0]);
+    });
+    // Nothing to read; don't let the CLI wait for input
+    child.stdin?.end();
+  });
+}
+
+export async function probeCli(command: string, env: NodeJS.ProcessEnv): Promise<CliProbe> {
+  const binary: BinaryInfo = { command, found: false };
+  const resolved = await findExecutable(command, env);
+  if (resolved) {
+    binary.found = true;
+    binary.path = resolved;
+    try {
+      binary.version = await readVersion(resolved, env);
+    } catch (error) {
+      binary.versionError = (error instanceof Error ? error.message : String(error)).trim();
+    }
+  }
+
+  const home = env.HOME || env.USERPROFILE || os.homedir();
+  const oauthCredentialsFile = path.join(home, ".gemini", "oauth_creds.json");
+  const credentials: CredentialInfo = {
+    oauthCredentialsFile,
+    oauthCredentialsPresent: fs.existsSync(oauthCredentialsFile),
+    apiKeyVariables: AUTH_VARIABLES.filter((name) => env[name])
+  };
+
+  return { checkedAt: new Date().toISOString(), binary, credentials };
+}
+
+// Caches the last probe; concurrent callers share one probe in flight
+export class CliProbeCache {
+  private cached?: { probe: CliProbe; expiresAt: number };
+  private pending?: Promise<CliProbe>;
+
+  constructor(
+    private run: () => Promise<CliProbe>,
+    private ttlMs: number = PROBE_TTL_MS
+  ) {}
+
+  async get(refresh: boolean = false): Promise<{ probe: CliProbe; cached: boolean }> {
+    if (!refresh && this.cached && Date.now() < this.cached.expiresAt) {
+      return { probe: this.cached.probe, cached: true };
+    }
+    if (!this.pending) {
+      this.pending = this.run()
+        .then((probe) => {
+          this.cached = { probe, expiresAt: Date.now() + this.ttlMs };
+          return probe;
+        })
+        .finally(() => {
+          this.pending = undefined;
+        });
+    }
+    return { probe: await this.pending, cached: false };
+  }
+
+  // Forget the cached probe (e.g. after the binary turned out to be missing)
+  invalidate(): void {
+    this.cached = undefined;
+  }
+}
+
+// Error counts over recent exchanges
+export function summarizeErrors(records: ExchangeRecord[], windowMinutes: number): ErrorRates {
+  const byCode: Record<string, number> = {};
+  let errors = 0;
+  for (const record of records) {
+    if (!record.error) continue;
+    errors++;
+    const code = record.errorCode ?? "UNKNOWN";
+    byCode[code] = (byCode[code] ?? 0) + 1;
+  }
+  return {
+    windowMinutes,
+    requests: records.length,
+    errors,
+    errorRate: records.length > 0 ? Math.round((errors / records.length) * 1000) / 1000 : 0,
+    byCode
+  };
+}
+
+export interface LivePing {
+  ok: boolean;
+  durationMs: number;
+  response?: string;
+  error?: { code: string; message: string };
+}
+
+export type HealthStatus = "ok" | "degraded" | "unavailable";
+
+export interface DiagnosticsReport {
+  status: HealthStatus;
+  problems: string[];
+  // When the CLI was probed, and whether that probe came from the cache
+  checkedAt: string;
+  cached: boolean;
+  binary: BinaryInfo;
+  credentials: CredentialInfo;
+  node: { version: string; platform: string; arch: string };
+  limits: Pick<ServerConfig, "rateLimit" | "pool" | "timeouts" | "retry">;
+  usage: { quota: QuotaSnapshot; activeProcesses: number; waitingProcesses: number };
+  recentErrors: ErrorRates;
+  cache: CacheStats;
+  livePing?: LivePing;
+}
+
+// Overall status and the problems behind it
+export function assessHealth(report: Omit<DiagnosticsReport, "status" | "problems">): { status: HealthStatus; problems: string[] } {
+  const problems: string[] = [];
+  if (!report.binary.found) {
+    return { status: "unavailable", problems: [`Gemini CLI binary "${report.binary.command}" was not found in PATH`] };
+  }
+  if (report.binary.versionError) {
+    problems.push(`\`${report.binary.command} --version\` failed: ${report.binary.versionError}`);
+  }
+  if (!report.credentials.oauthCredentialsPresent && report.credentials.apiKeyVariables.length === 0) {
+    problems.push("No cached credentials or API key found; run `gemini` interactively once to sign in");
+  }
+  if (report.usage.quota.perDay.remaining === 0) {
+    problems.push(`Daily request limit reached (resets ${report.usage.quota.perDay.resetsAt})`);
+  }
+  const recent = report.recentErrors;
+  if (recent.requests >= 4 && recent.errorRate >= 0.5) {
+    problems.push(`${recent.errors} of ${recent.requests} requests in the last ${recent.windowMinutes} minutes failed`);
+  }
+  if (report.livePing && !report.livePing.ok) {
+    problems.push(`Live ping failed (${report.livePing.error?.code}): ${report.livePing.error?.message}`);
+  }
+  return { status: problems.length > 0 ? "degraded" : "ok", problems };
+}
+
+export function formatDiagnostics(report: DiagnosticsReport): string {
+  const { binary, credentials, limits, usage, recentErrors, cache } = report;
+  const credentialParts = [
+    credentials.oauthCredentialsPresent ? `cached OAuth credentials (${credentials.oauthCredentialsFile})` : "",
+    credentials.apiKeyVariables.length > 0 ? `environment: ${credentials.apiKeyVariables.join(", ")}` : ""
+  ].filter(Boolean);
+  const codes = Object.entries(recentErrors.byCode).map(([code, count]) => `${code} ×${count}`).join(", ");
+
+  const lines = [
+    `Gemini CLI status: ${report.status.toUpperCase()}`,
+    ...report.problems.map((problem) => `- Problem: ${problem}`),
+    "",
+    `Binary: ${binary.found ? binary.path : `${binary.command} (not found)`}` +
+      (binary.version ? `, version ${binary.version}` : ""),
+    `Credentials: ${credentialParts.length > 0 ? credentialParts.join("; ") : "none found"}`,
+    `Node: ${report.node.version} (${report.node.platform}/${report.node.arch})`,
+    `Limits: ${limits.rateLimit.requestsPerMinute || "unlimited"}/min, ${limits.rateLimit.requestsPerDay || "unlimited"}/day, ` +
+      `${limits.pool.maxConcurrency} concurrent, timeouts ${limits.timeouts.firstByteMs}/${limits.timeouts.idleMs}/${limits.timeouts.totalMs}ms (first byte/idle/total), ` +
+      `${limits.retry.maxAttempts} attempts`,
+    `Usage: ${usage.quota.perDay.used} requests today, ${usage.activeProcesses} running, ${usage.waitingProcesses} waiting for a slot`,
+    `Last ${recentErrors.windowMinutes} minutes: ${recentErrors.requests} requests, ${recentErrors.errors} failed` + (codes ? ` (${codes})` : ""),
+    `Response cache: ${cache.enabled
+      ? `${cache.disk ? "memory and disk" : "memory"}, ${cache.entries} entries in memory, ${cache.hits} hits ` +
+        `(${cache.memoryHits} memory, ${cache.diskHits} disk), ${cache.misses} misses, ${cache.bypassed} bypassed, ` +
+        `hit rate ${Math.round(cache.hitRate * 100)}%`
+      : "off"}`,
+    `Checked at ${report.checkedAt}${report.cached ? " (cached)" : ""}`
+  ];
+
+  if (report.livePing) {
+    lines.push(report.livePing.ok
+      ? `Live ping: OK in ${report.livePing.durationMs}ms: ${report.livePing.response?.replace(/\s+/g, " ").substring(0, 100)}`
+      : `Live ping: failed after ${report.livePing.durationMs}ms`);
+  }
+  return lines.join("\n");
+}
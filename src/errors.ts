@@ -0,0 +1,240 @@
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import type { ParsedOutput } from "./output-parser.js";
+import type { AttemptRecord } from "./retry.js";
+import type { TimeoutLimit } from "./timeouts.js";
+
+// Typed failures for Gemini CLI runs.
+// Each error carries a machine-readable code, whether retrying can help,
+// an optional retry delay, and whatever the process printed.
+
+export type GeminiErrorCode =
+  | "CLI_NOT_FOUND"
+  | "AUTH_EXPIRED"
+  | "QUOTA_EXCEEDED"
+  | "FIRST_BYTE_TIMEOUT"
+  | "IDLE_TIMEOUT"
+  | "TOTAL_TIMEOUT"
+  | "NON_ZERO_EXIT"
+  | "EMPTY_RESPONSE"
+  | "PATH_NOT_ALLOWED"
+  | "INVALID_REQUEST"
+  | "QUEUE_FULL"
+  | "CANCELLED"
+  | "BACKEND_UNAVAILABLE"
+  | "SCHEMA_MISMATCH"
+  | "GIT_ERROR"
+  | "PROCESS_ERROR";
+
+export interface ProcessOutput {
+  stdout?: string;
+  stderr?: string;
+  exitCode?: number | null;
+}
+
+export class GeminiError extends Error {
+  readonly stdout: string;
+  readonly stderr: string;
+  readonly exitCode: number | null;
+  // Set when the error is the final outcome of several attempts
+  attempts?: AttemptRecord[];
+
+  constructor(
+    readonly code: GeminiErrorCode,
+    message: string,
+    readonly retryable: boolean = false,
+    output: ProcessOutput = {},
+    readonly retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = "GeminiError";
+    this.stdout = output.stdout ?? "";
+    this.stderr = output.stderr ?? "";
+    this.exitCode = output.exitCode ?? null;
+  }
+}
+
+export class CliNotFoundError extends GeminiError {
+  constructor(binary: string) {
+    super("CLI_NOT_FOUND", `Gemini CLI not found (${binary}). Please ensure gemini is installed and in PATH, or set GEMINI_MCP_BINARY`);
+    this.name = "CliNotFoundError";
+  }
+}
+
+export class AuthExpiredError extends GeminiError {
+  constructor(detail: string, output: ProcessOutput = {}) {
+    super("AUTH_EXPIRED", `Gemini CLI authentication failed or expired. Run \`gemini\` interactively to sign in again. (${detail})`, false, output);
+    this.name = "AuthExpiredError";
+  }
+}
+
+export class QuotaExceededError extends GeminiError {
+  constructor(detail: string, output: ProcessOutput = {}, retryAfterMs?: number) {
+    super("QUOTA_EXCEEDED", `Gemini quota exceeded: ${detail}`, true, output, retryAfterMs);
+    this.name = "QuotaExceededError";
+  }
+}
+
+const TIMEOUT_ERRORS: Record<TimeoutLimit, { code: GeminiErrorCode; describe: (seconds: number) => string; retryable: boolean }> = {
+  first_byte: { code: "FIRST_BYTE_TIMEOUT", describe: (seconds) => `Gemini produced no output within ${seconds} seconds`, retryable: true },
+  idle: { code: "IDLE_TIMEOUT", describe: (seconds) => `Gemini produced no output for ${seconds} seconds`, retryable: true },
+  // A retry would most likely run into the same deadline
+  total: { code: "TOTAL_TIMEOUT", describe: (seconds) => `Gemini did not finish within ${seconds} seconds`, retryable: false }
+};
+
+// A timeout limit fired; partialAnswer holds whatever answer text arrived before it
+export class TimeoutError extends GeminiError {
+  constructor(
+    readonly limit: TimeoutLimit,
+    readonly limitMs: number,
+    output: ProcessOutput = {},
+    readonly partialAnswer: string = ""
+  ) {
+    const { code, describe, retryable } = TIMEOUT_ERRORS[limit];
+    super(code, describe(Math.round(limitMs / 1000)), retryable, output);
+    this.name = "TimeoutError";
+  }
+}
+
+export class NonZeroExitError extends GeminiError {
+  constructor(detail: string, output: ProcessOutput = {}) {
+    super("NON_ZERO_EXIT", `Gemini process failed (code ${output.exitCode ?? "unknown"}): ${detail}`, true, output);
+    this.name = "NonZeroExitError";
+  }
+}
+
+export class EmptyResponseError extends GeminiError {
+  constructor(output: ProcessOutput = {}) {
+    super("EMPTY_RESPONSE", "No response received from Gemini", true, output);
+    this.name = "EmptyResponseError";
+  }
+}
+
+// A JSON answer still did not match the requested schema after the last repair attempt
+export class SchemaMismatchError extends GeminiError {
+  constructor(readonly issues: string[], readonly answer: string, attempts: number) {
+    super("SCHEMA_MISMATCH", `Gemini's answer did not match the schema after ${attempts} attempt(s): ${issues.slice(0, 5).join("; ")}`);
+    this.name = "SchemaMismatchError";
+  }
+}
+
+export class CancelledError extends GeminiError {
+  constructor(output: ProcessOutput = {}) {
+    super("CANCELLED", "Request was cancelled by the client", false, output);
+    this.name = "CancelledError";
+  }
+}
+
+const AUTH_PATTERNS = [
+  /invalid_grant/i,
+  /token has been expired or revoked/i,
+  /UNAUTHENTICATED/,
+  /status(?: code)? 401\b/i,
+  /no cached credentials/i,
+  /please set an auth method/i,
+  /login required/i,
+  /reauthenticat/i
+];
+
+const QUOTA_PATTERNS = [
+  /quota exceeded/i,
+  /quota limit/i,
+  /RESOURCE_EXHAUSTED/,
+  /status(?: code)? 429\b/i,
+  /"code":\s*429\b/,
+  /rate ?limit(ed| exceeded)/i
+];
+
+const UNIT_MS: Record<string, number> = { ms: 1, s: 1000, m: 60000, h: 3600000 };
+
+// Retry delay reported by Gemini, in milliseconds
+export function parseRetryDelay(text: string): number | undefined {
+  const patterns = [
+    /"retryDelay":\s*"(\d+(?:\.\d+)?)(ms|s|m|h)"/,
+    /retry(?:ing)? (?:in|after) (\d+(?:\.\d+)?)\s*(ms|s|m|h)\b/i,
+    /retry(?:ing)? (?:in|after) (\d+(?:\.\d+)?) ?(second|minute|hour)s?/i
+  ];
+  for (const pattern of patterns) {
+    const match = text.match(pattern);
+    if (!match) continue;
+    const unit = match[2].toLowerCase();
+    const scale = UNIT_MS[unit] ?? UNIT_MS[unit[0]];
+    return Math.round(parseFloat(match[1]) * scale);
+  }
+  return undefined;
+}
+
+function firstLine(text: string): string {
+  return (text.split("\n").find((line) => line.trim() !== "") ?? "").trim().substring(0, 300);
+}
+
+// Turn a run that produced no answer into the most specific error
+export function classifyFailure(output: ProcessOutput & { parsed?: ParsedOutput }): GeminiError {
+  const stdout = output.stdout ?? "";
+  const stderr = output.stderr ?? "";
+  const combined = `${stderr}\n${stdout}`;
+  const detail = firstLine(output.parsed?.errors[0] ?? "") || firstLine(stderr) || "No output";
+
+  if (AUTH_PATTERNS.some((pattern) => pattern.test(combined))) {
+    return new AuthExpiredError(detail, output);
+  }
+  if (QUOTA_PATTERNS.some((pattern) => pattern.test(combined))) {
+    return new QuotaExceededError(detail, output, parseRetryDelay(combined));
+  }
+  if (output.exitCode !== undefined && output.exitCode !== null && output.exitCode !== 0) {
+    return new NonZeroExitError(detail, output);
+  }
+  if (output.parsed && output.parsed.errors.length > 0) {
+    return new GeminiError("PROCESS_ERROR", `Gemini failed to respond: ${detail}`, true, output);
+  }
+  return new EmptyResponseError(output);
+}
+
+export function toGeminiError(error: unknown): GeminiError {
+  if (error instanceof GeminiError) return error;
+  return new GeminiError("PROCESS_ERROR", error instanceof Error ? error.message : String(error));
+}
+
+// MCP tool result for a failure: isError plus a machine-readable error object
+export function errorResult(error: unknown, context?: string): CallToolResult {
+  const geminiError = toGeminiError(error);
+  const retryAfterSeconds = geminiError.retryAfterMs !== undefined
+    ? Math.ceil(geminiError.retryAfterMs / 1000)
+    : undefined;
+
+  let text = `Error [${geminiError.code}]: ${context ? `${context}: ` : ""}${geminiError.message}`;
+  if (geminiError.attempts && geminiError.attempts.length > 1) {
+    text += `\nGave up after ${geminiError.attempts.length} attempts`;
+  }
+  if (retryAfterSeconds !== undefined) {
+    text += `\nRetry after: ${retryAfterSeconds}s`;
+  } else if (geminiError.retryable) {
+    text += "\nThis error may be temporary; retrying can help.";
+  }
+  const partialAnswer = geminiError instanceof TimeoutError ? geminiError.partialAnswer : "";
+  if (partialAnswer) {
+    text += `\n\nPartial output before the timeout (${partialAnswer.length} chars):\n${partialAnswer}`;
+  }
+  if (geminiError instanceof SchemaMismatchError) {
+    text += `\n\nLast answer:\n${geminiError.answer}`;
+  }
+
+  return {
+    isError: true,
+    content: [{
+      type: "text",
+      text
+    }],
+    structuredContent: {
+      error: {
+        code: geminiError.code,
+        message: geminiError.message,
+        retryable: geminiError.retryable,
+        ...(retryAfterSeconds !== undefined ? { retryAfterSeconds } : {}),
+        ...(geminiError instanceof TimeoutError ? { timeout: { limit: geminiError.limit, limitMs: geminiError.limitMs } } : {}),
+        ...(partialAnswer ? { partialOutput: partialAnswer } : {}),
+        ...(geminiError instanceof SchemaMismatchError ? { issues: geminiError.issues, lastAnswer: geminiError.answer } : {}),
+        ...(geminiError.attempts ? { attempts: geminiError.attempts } : {})
+      }
+    }
+  };
+}
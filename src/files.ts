@@ -0,0 +1,196 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { GeminiError } from "./errors.js";
+
+// Working directory and @file reference handling for gemini_send.
+// When allowed roots are configured, neither the working directory nor any
+// @file reference may point outside them.
+
+export class PathAccessError extends GeminiError {
+  constructor(message: string) {
+    super("PATH_NOT_ALLOWED", message);
+    this.name = "PathAccessError";
+  }
+}
+
+export interface PreprocessResult {
+  message: string;
+  references: string[];
+}
+
+// Resolve symlinks where the path exists so links cannot escape a root
+function realPath(target: string): string {
+  try {
+    return fs.realpathSync(target);
+  } catch {
+    return target;
+  }
+}
+
+function expandHome(target: string): string {
+  if (target === "~") return os.homedir();
+  if (target.startsWith("~/")) return path.join(os.homedir(), target.slice(2));
+  return target;
+}
+
+export function isWithinRoots(target: string, allowedRoots: string[]): boolean {
+  if (allowedRoots.length === 0) return true;
+  const resolved = realPath(target);
+  return allowedRoots.some((root) => {
+    const relative = path.relative(realPath(path.resolve(root)), resolved);
+    return relative === "" || (!relative.startsWith("..") && !path.isAbsolute(relative));
+  });
+}
+
+// Validate a file the server is asked to write. Without allowed roots, writes are
+// still confined to the server's working directory
+export function resolveOutputPath(target: string, allowedRoots: string[]): string {
+  const resolved = path.resolve(expandHome(target));
+  const parent = path.dirname(resolved);
+  if (!fs.existsSync(parent) || !fs.statSync(parent).isDirectory()) {
+    throw new GeminiError("INVALID_REQUEST", `Output directory does not exist: ${parent}`);
+  }
+  const roots = allowedRoots.length > 0 ? allowedRoots : [process.cwd()];
+  // Check the real parent: the file itself may not exist yet, and a symlinked file could point anywhere
+  const real = path.join(realPath(parent), path.basename(resolved));
+  if (fs.lstatSync(real, { throwIfNoEntry: false })?.isSymbolicLink()) {
+    throw new PathAccessError(`Output path ${resolved} is a symbolic link`);
+  }
+  if (!isWithinRoots(real, roots)) {
+    throw new PathAccessError(`Output path ${resolved} is outside the allowed roots (${roots.join(", ")})`);
+  }
+  return real;
+}
+
+// Validate the per-call working directory (default: the server's cwd)
+export function resolveWorkingDirectory(workingDirectory: string | undefined, allowedRoots: string[]): string {
+  const directory = path.resolve(expandHome(workingDirectory || process.cwd()));
+
+  if (!fs.existsSync(directory) || !fs.statSync(directory).isDirectory()) {
+    throw new GeminiError("INVALID_REQUEST", `Working directory does not exist: ${directory}`);
+  }
+  if (!isWithinRoots(directory, allowedRoots)) {
+    throw new PathAccessError(
+      `Working directory ${directory} is outside the allowed roots (${allowedRoots.join(", ")})`
+    );
+  }
+  return realPath(directory);
+}
+
+// Replace @path references with absolute paths resolved against the working directory
+export function preprocessMessage(message: string, workingDir: string, allowedRoots: string[]): PreprocessResult {
+  const references: string[] = [];
+
+  // "\@" is escaped (see escapeReferences) and stays as it is
+  const processed = message.replace(/(?<!\\)@(\S+)/g, (match, reference: string) => {
+    // Allow sentence punctuation right after a reference ("see @a.ts, then ...")
+    const trimmed = reference.replace(/[,;:!?)\]]+$/, "").replace(/\.$/, "");
+    const candidates = trimmed !== reference ? [reference, trimmed] : [reference];
+
+    for (const candidate of candidates) {
+      const absolutePath = path.resolve(workingDir, expandHome(candidate));
+      if (!fs.existsSync(absolutePath)) continue;
+
+      if (!isWithinRoots(absolutePath, allowedRoots)) {
+        throw new PathAccessError(
+          `File reference @${candidate} resolves to ${absolutePath}, which is outside the allowed roots (${allowedRoots.join(", ")})`
+        );
+      }
+
+      references.push(absolutePath);
+      console.error(`[Gemini MCP] Expanded @${candidate} to ${absolutePath}`);
+      return `@${absolutePath}${reference.slice(candidate.length)}`;
+    }
+
+    // Not a file (e.g. an email address or @mention) - leave it untouched
+    return match;
+  });
+
+  return { message: processed, references };
+}
+
+// Keep "@" in text that is not the caller's own (model answers, file contents, diffs) from being
+// read as a file reference: the Gemini CLI does not expand an @ preceded by a backslash
+export function escapeReferences(text: string): string {
+  return text.replace(/(?<!\\)@(?=\S)/g, "\\@");
+}
+
+// Directories expandGlob never descends into
+const GLOB_SKIPPED_DIRECTORIES = new Set([".git", "node_modules"]);
+
+// Regular expression for a glob over "/"-separated relative paths: *, **, ?, {a,b} and [abc]
+export function globToRegExp(pattern: string): RegExp {
+  let source = "";
+  let braces = 0;
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === "*" && pattern[i + 1] === "*") {
+      // "**/" also matches no directory at all
+      i++;
+      if (pattern[i + 1] === "/") {
+        i++;
+        source += "(?:.*/)?";
+      } else {
+        source += ".*";
+      }
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "{") {
+      braces++;
+      source += "(?:";
+    } else if (char === "}" && braces > 0) {
+      braces--;
+      source += ")";
+    } else if (char === "," && braces > 0) {
+      source += "|";
+    } else if (char === "[" && pattern.indexOf("]", i + 2) > i) {
+      const end = pattern.indexOf("]", i + 2);
+      const set = pattern.slice(i + 1, end).replace(/\\/g, "\\\\");
+      source += `[${set.startsWith("!") ? `^${set.slice(1)}` : set}]`;
+      i = end;
+    } else {
+      source += char.replace(/[\\^$.*+?()[\]{}|]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+// Files under the working directory matching a glob, as sorted "/"-separated relative paths
+export async function expandGlob(pattern: string, workingDir: string, limit: number): Promise<string[]> {
+  const normalized = pattern.replace(/\\/g, "/").replace(/^\.\//, "");
+  if (path.isAbsolute(pattern) || normalized.split("/").includes("..")) {
+    throw new GeminiError("INVALID_REQUEST", `Glob must be relative to the working directory without "..": ${pattern}`);
+  }
+  const matcher = globToRegExp(normalized);
+
+  // Start below the segments that contain no wildcards
+  const segments = normalized.split("/");
+  const firstWild = segments.findIndex((segment) => /[*?{[]/.test(segment));
+  const base = firstWild === -1 ? segments.slice(0, -1).join("/") : segments.slice(0, firstWild).join("/");
+
+  const matches: string[] = [];
+  const walk = async (relative: string): Promise<void> => {
+    let entries: fs.Dirent[];
+    try {
+      entries = await fs.promises.readdir(path.join(workingDir, relative), { withFileTypes: true });
+    } catch {
+      return;
+    }
+    for (const entry of entries) {
+      const entryPath = relative ? `${relative}/${entry.name}` : entry.name;
+      if (entry.isDirectory()) {
+        if (!GLOB_SKIPPED_DIRECTORIES.has(entry.name)) await walk(entryPath);
+      } else if (entry.isFile() && matcher.test(entryPath)) {
+        matches.push(entryPath);
+        if (matches.length > limit) {
+          throw new GeminiError("INVALID_REQUEST", `Glob ${pattern} matches more than ${limit} files; use a narrower pattern`);
+        }
+      }
+    }
+  };
+  await walk(base);
+  return matches.sort();
+}
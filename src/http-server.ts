@@ -0,0 +1,236 @@
+import * as http from "http";
+import { AddressInfo } from "net";
+import { randomUUID, timingSafeEqual } from "crypto";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+
+// Streamable HTTP transport, so several clients can share one long-running server.
+// Each MCP session gets its own McpServer from the factory; requests to /mcp need
+// the bearer token when one is configured, /health never does. Host headers are
+// checked against an allow-list so a web page cannot reach a loopback server
+// through DNS rebinding.
+
+export type TransportMode = "stdio" | "http";
+
+export interface TransportConfig {
+  mode: TransportMode;
+  host: string;
+  port: number;
+  // Required as "Authorization: Bearer <token>" on /mcp when set
+  authToken?: string;
+  // Host headers accepted on /mcp, e.g. "mcp.example.com" behind a proxy (default on loopback:
+  // localhost, 127.0.0.1 and [::1] with the listening port; elsewhere only the token protects it)
+  allowedHosts?: string[];
+  // Sessions without a request for this long are closed (0 keeps them until the client ends them)
+  sessionIdleMs: number;
+}
+
+export const DEFAULT_TRANSPORT: TransportConfig = {
+  mode: "stdio",
+  host: "127.0.0.1",
+  port: 8765,
+  sessionIdleMs: 30 * 60 * 1000
+};
+
+export const MCP_PATH = "/mcp";
+export const HEALTH_PATH = "/health";
+
+// Larger request bodies are refused with 413
+const MAX_BODY_BYTES = 10 * 1024 * 1024;
+
+interface Session {
+  transport: StreamableHTTPServerTransport;
+  server: McpServer;
+  lastSeen: number;
+}
+
+export function isLoopbackHost(host: string): boolean {
+  return host === "localhost" || host === "::1" || host.startsWith("127.");
+}
+
+// Host header values a loopback listener is reached with
+function loopbackHostHeaders(host: string, port: number): string[] {
+  const names = new Set(["localhost", "127.0.0.1", "[::1]", host.includes(":") ? `[${host}]` : host]);
+  return [...names].map((name) => `${name}:${port}`);
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown, headers: http.OutgoingHttpHeaders = {}): void {
+  res.writeHead(status, { "Content-Type": "application/json", ...headers });
+  res.end(JSON.stringify(body));
+}
+
+// JSON-RPC error response for requests that never reach a session
+function sendRpcError(res: http.ServerResponse, status: number, code: number, message: string, headers: http.OutgoingHttpHeaders = {}): void {
+  sendJson(res, status, { jsonrpc: "2.0", error: { code, message }, id: null }, headers);
+}
+
+class BodyTooLargeError extends Error {}
+
+async function readJsonBody(req: http.IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new BodyTooLargeError();
+    chunks.push(chunk);
+  }
+  return JSON.parse(Buffer.concat(chunks).toString("utf8"));
+}
+
+export class McpHttpServer {
+  private sessions = new Map<string, Session>();
+  private httpServer?: http.Server;
+  private sweepTimer?: NodeJS.Timeout;
+  private startedAt = Date.now();
+  // Undefined when Host headers are not checked
+  private allowedHosts?: string[];
+
+  constructor(
+    private config: TransportConfig,
+    private createServer: () => McpServer,
+    // Extra fields for the health endpoint
+    private health: () => Record<string, unknown> = () => ({})
+  ) {}
+
+  get sessionCount(): number {
+    return this.sessions.size;
+  }
+
+  async start(): Promise<AddressInfo> {
+    if (!this.config.authToken && !isLoopbackHost(this.config.host)) {
+      throw new Error(`Refusing to listen on ${this.config.host} without an auth token (set GEMINI_MCP_AUTH_TOKEN or transport.authToken)`);
+    }
+
+    const httpServer = http.createServer((req, res) => {
+      this.handle(req, res).catch((error) => {
+        console.error(`[Gemini MCP] HTTP request failed: ${error}`);
+        if (!res.headersSent) sendRpcError(res, 500, -32603, "Internal server error");
+        else res.end();
+      });
+    });
+    this.httpServer = httpServer;
+    await new Promise<void>((resolve, reject) => {
+      httpServer.once("error", reject);
+      httpServer.listen(this.config.port, this.config.host, () => {
+        httpServer.off("error", reject);
+        resolve();
+      });
+    });
+
+    const address = httpServer.address() as AddressInfo;
+    this.allowedHosts = this.config.allowedHosts ??
+      (isLoopbackHost(this.config.host) ? loopbackHostHeaders(this.config.host, address.port) : undefined);
+
+    if (this.config.sessionIdleMs > 0) {
+      this.sweepTimer = setInterval(() => this.closeIdleSessions(), Math.min(this.config.sessionIdleMs, 60000));
+      this.sweepTimer.unref();
+    }
+    return address;
+  }
+
+  async close(): Promise<void> {
+    clearInterval(this.sweepTimer);
+    await Promise.all([...this.sessions.values()].map((session) => session.transport.close()));
+    this.sessions.clear();
+    const httpServer = this.httpServer;
+    if (!httpServer) return;
+    httpServer.closeAllConnections();
+    await new Promise<void>((resolve) => httpServer.close(() => resolve()));
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const { pathname } = new URL(req.url ?? "/", "http://localhost");
+
+    if (pathname === HEALTH_PATH && req.method === "GET") {
+      sendJson(res, 200, {
+        status: "ok",
+        sessions: this.sessions.size,
+        uptimeSeconds: Math.round((Date.now() - this.startedAt) / 1000),
+        ...this.health()
+      });
+      return;
+    }
+    if (pathname !== MCP_PATH) {
+      sendJson(res, 404, { error: "Not found" });
+      return;
+    }
+    if (!this.authorized(req)) {
+      sendRpcError(res, 401, -32001, "Unauthorized", { "WWW-Authenticate": "Bearer" });
+      return;
+    }
+
+    let body: unknown;
+    if (req.method === "POST") {
+      try {
+        body = await readJsonBody(req);
+      } catch (error) {
+        if (error instanceof BodyTooLargeError) {
+          sendRpcError(res, 413, -32600, `Request body exceeds ${MAX_BODY_BYTES} bytes`);
+        } else {
+          sendRpcError(res, 400, -32700, "Parse error: invalid JSON");
+        }
+        return;
+      }
+    }
+
+    const sessionId = req.headers["mcp-session-id"];
+    if (typeof sessionId === "string") {
+      const session = this.sessions.get(sessionId);
+      if (!session) {
+        // Tells the client to start a new session (e.g. after a server restart)
+        sendRpcError(res, 404, -32001, "Session not found");
+        return;
+      }
+      session.lastSeen = Date.now();
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method !== "POST" || !isInitializeRequest(body)) {
+      sendRpcError(res, 400, -32000, "Bad Request: missing Mcp-Session-Id header");
+      return;
+    }
+    await this.openSession(req, res, body);
+  }
+
+  private async openSession(req: http.IncomingMessage, res: http.ServerResponse, body: unknown): Promise<void> {
+    const server = this.createServer();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      enableDnsRebindingProtection: this.allowedHosts !== undefined,
+      allowedHosts: this.allowedHosts,
+      onsessioninitialized: (sessionId) => {
+        this.sessions.set(sessionId, { transport, server, lastSeen: Date.now() });
+        console.error(`[Gemini MCP] Session ${sessionId} opened (${this.sessions.size} active)`);
+      }
+    });
+    transport.onclose = () => {
+      const sessionId = transport.sessionId;
+      if (sessionId && this.sessions.delete(sessionId)) {
+        console.error(`[Gemini MCP] Session ${sessionId} closed (${this.sessions.size} active)`);
+      }
+    };
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  }
+
+  private closeIdleSessions(): void {
+    const cutoff = Date.now() - this.config.sessionIdleMs;
+    for (const session of this.sessions.values()) {
+      if (session.lastSeen < cutoff) {
+        void session.transport.close();
+      }
+    }
+  }
+
+  private authorized(req: http.IncomingMessage): boolean {
+    const token = this.config.authToken;
+    if (!token) return true;
+    const match = /^Bearer\s+(.+)$/i.exec(req.headers.authorization ?? "");
+    if (!match) return false;
+    const expected = Buffer.from(token);
+    const given = Buffer.from(match[1].trim());
+    return given.length === expected.length && timingSafeEqual(given, expected);
+  }
+}
@@ -0,0 +1,192 @@
+import { randomUUID } from "crypto";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { GeminiError, errorResult } from "./errors.js";
+
+// Background jobs for requests that outlast the client's request timeout.
+// A job runs a gemini_send request without a waiting tool call; its result is
+// kept in memory until the TTL runs out after it finishes.
+
+export type JobState = "running" | "succeeded" | "failed" | "cancelled";
+
+export interface JobConfig {
+  // How long finished jobs (and their results) are kept
+  ttlMs: number;
+  // Finished jobs kept at most; the oldest are dropped first
+  maxFinishedJobs: number;
+}
+
+// Hooks passed to the job's task
+export interface JobContext {
+  signal: AbortSignal;
+  onOutput: (stream: "stdout" | "stderr", chunk: string) => void;
+}
+
+export interface JobInfo {
+  id: string;
+  state: JobState;
+  label: string;
+  createdAt: string;
+  finishedAt?: string;
+  elapsedMs: number;
+  bytesReceived: number;
+  expiresAt?: string;
+}
+
+interface Job {
+  id: string;
+  state: JobState;
+  label: string;
+  createdAt: number;
+  finishedAt?: number;
+  ttlMs: number;
+  bytesReceived: number;
+  controller: AbortController;
+  done: Promise<void>;
+  result?: CallToolResult;
+}
+
+export const DEFAULT_JOBS: JobConfig = {
+  ttlMs: 60 * 60 * 1000,
+  maxFinishedJobs: 200
+};
+
+export class JobNotFoundError extends GeminiError {
+  constructor(id: string) {
+    super("INVALID_REQUEST", `Job ${id} not found (it may have expired)`);
+    this.name = "JobNotFoundError";
+  }
+}
+
+// Cancelled jobs count as finished only once the task has settled
+function isFinished(job: Job): boolean {
+  return job.finishedAt !== undefined;
+}
+
+export class JobManager {
+  private jobs = new Map<string, Job>();
+
+  constructor(private config: JobConfig) {}
+
+  // Start a task in the background and return right away
+  submit(label: string, task: (context: JobContext) => Promise<CallToolResult>, ttlMs: number = this.config.ttlMs): JobInfo {
+    this.sweep();
+    const controller = new AbortController();
+    const job: Job = {
+      id: randomUUID(),
+      state: "running",
+      label,
+      createdAt: Date.now(),
+      ttlMs,
+      bytesReceived: 0,
+      controller,
+      done: Promise.resolve()
+    };
+
+    const context: JobContext = {
+      signal: controller.signal,
+      onOutput: (stream, chunk) => {
+        if (stream === "stdout") job.bytesReceived += Buffer.byteLength(chunk);
+      }
+    };
+
+    job.done = task(context)
+      .then((result) => result, (error) => errorResult(error))
+      .then((result) => {
+        job.result = result;
+        if (job.state === "running") job.state = result.isError ? "failed" : "succeeded";
+        job.finishedAt = Date.now();
+        console.error(`[Gemini MCP] Job ${job.id} ${job.state} after ${job.finishedAt - job.createdAt}ms`);
+      });
+
+    this.jobs.set(job.id, job);
+    console.error(`[Gemini MCP] Job ${job.id} submitted`);
+    return this.info(job);
+  }
+
+  private find(id: string): Job {
+    this.sweep();
+    const job = this.jobs.get(id);
+    if (!job) throw new JobNotFoundError(id);
+    return job;
+  }
+
+  status(id: string): JobInfo {
+    return this.info(this.find(id));
+  }
+
+  // Wait up to waitMs for the job to finish; result is undefined while it is still running
+  async result(id: string, waitMs: number = 0, signal?: AbortSignal): Promise<{ job: JobInfo; result?: CallToolResult }> {
+    const job = this.find(id);
+    if (!isFinished(job) && waitMs > 0) {
+      let timer: NodeJS.Timeout | undefined;
+      let onAbort: (() => void) | undefined;
+      await Promise.race([
+        job.done,
+        new Promise<void>((resolve) => {
+          timer = setTimeout(resolve, waitMs);
+          onAbort = resolve;
+          signal?.addEventListener("abort", onAbort, { once: true });
+        })
+      ]);
+      clearTimeout(timer);
+      if (onAbort) signal?.removeEventListener("abort", onAbort);
+    }
+    return { job: this.info(job), result: job.result };
+  }
+
+  // Cancel a running job; finished jobs are left as they are
+  cancel(id: string): JobInfo {
+    const job = this.find(id);
+    if (job.state === "running") {
+      job.state = "cancelled";
+      job.controller.abort();
+      console.error(`[Gemini MCP] Job ${job.id} cancelled`);
+    }
+    return this.info(job);
+  }
+
+  // Newest first
+  list(state?: JobState): JobInfo[] {
+    this.sweep();
+    return [...this.jobs.values()]
+      .filter((job) => state === undefined || job.state === state)
+      .sort((a, b) => b.createdAt - a.createdAt)
+      .map((job) => this.info(job));
+  }
+
+  // Drop expired jobs, then the oldest finished ones beyond the limit
+  private sweep(now: number = Date.now()): void {
+    const finished: Job[] = [];
+    for (const job of this.jobs.values()) {
+      if (job.finishedAt === undefined) continue;
+      if (now - job.finishedAt >= job.ttlMs) {
+        this.jobs.delete(job.id);
+      } else {
+        finished.push(job);
+      }
+    }
+    const excess = finished.length - this.config.maxFinishedJobs;
+    if (excess > 0) {
+      finished
+        .sort((a, b) => a.finishedAt! - b.finishedAt!)
+        .slice(0, excess)
+        .forEach((job) => this.jobs.delete(job.id));
+    }
+  }
+
+  private info(job: Job): JobInfo {
+    const end = job.finishedAt ?? Date.now();
+    return {
+      id: job.id,
+      state: job.state,
+      label: job.label,
+      createdAt: new Date(job.createdAt).toISOString(),
+      ...(job.finishedAt !== undefined ? {
+        finishedAt: new Date(job.finishedAt).toISOString(),
+        expiresAt: new Date(job.finishedAt + job.ttlMs).toISOString()
+      } : {}),
+      elapsedMs: end - job.createdAt,
+      bytesReceived: job.bytesReceived
+    };
+  }
+}
@@ -0,0 +1,231 @@
+import { isDeepStrictEqual } from "util";
+import { z } from "zod";
+import { GeminiError } from "./errors.js";
+
+// JSON answers for gemini_send_json.
+// A JSON Schema is turned into a zod validator, Gemini is asked to answer with JSON
+// only, and the JSON is pulled out of the cleaned answer (bare, fenced or embedded).
+
+export type JsonSchema = boolean | { [keyword: string]: unknown };
+
+export type JsonExtraction = { ok: true; value: unknown } | { ok: false; error: string };
+
+// Schema problems are the caller's mistake, so they are reported before running anything
+export class SchemaError extends GeminiError {
+  constructor(message: string) {
+    super("INVALID_REQUEST", `Unsupported response_schema: ${message}`);
+    this.name = "SchemaError";
+  }
+}
+
+const JSON_TYPES = ["string", "number", "integer", "boolean", "null", "array", "object"];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isSchema(value: unknown): value is JsonSchema {
+  return typeof value === "boolean" || isRecord(value);
+}
+
+// A nested schema keyword (items, a property, additionalProperties, an anyOf option)
+function subschema(value: unknown, at: string): z.ZodTypeAny {
+  if (!isSchema(value)) throw new SchemaError(`expected a schema object (${at})`);
+  return jsonSchemaToZod(value, at);
+}
+
+function convertType(type: string, schema: Record<string, unknown>, at: string): z.ZodTypeAny {
+  const { minLength, maxLength, pattern, minimum, maximum, exclusiveMinimum, exclusiveMaximum, multipleOf, minItems, maxItems } = schema;
+  switch (type) {
+    case "string": {
+      let result = z.string();
+      if (typeof minLength === "number") result = result.min(minLength);
+      if (typeof maxLength === "number") result = result.max(maxLength);
+      if (typeof pattern === "string") {
+        let regex: RegExp;
+        try {
+          regex = new RegExp(pattern, "u");
+        } catch (error) {
+          throw new SchemaError(`invalid pattern ${JSON.stringify(pattern)} (${at}): ${error instanceof Error ? error.message : String(error)}`);
+        }
+        result = result.regex(regex);
+      }
+      return result;
+    }
+    case "number":
+    case "integer": {
+      let result = type === "integer" ? z.number().int() : z.number();
+      if (typeof minimum === "number") result = result.gte(minimum);
+      if (typeof maximum === "number") result = result.lte(maximum);
+      if (typeof exclusiveMinimum === "number") result = result.gt(exclusiveMinimum);
+      if (typeof exclusiveMaximum === "number") result = result.lt(exclusiveMaximum);
+      if (typeof multipleOf === "number") result = result.multipleOf(multipleOf);
+      return result;
+    }
+    case "boolean":
+      return z.boolean();
+    case "null":
+      return z.null();
+    case "array": {
+      if (Array.isArray(schema.items) || schema.prefixItems !== undefined) {
+        throw new SchemaError(`tuple arrays are not supported (${at})`);
+      }
+      let result = z.array(schema.items === undefined ? z.unknown() : subschema(schema.items, `${at}[]`));
+      if (typeof minItems === "number") result = result.min(minItems);
+      if (typeof maxItems === "number") result = result.max(maxItems);
+      return result;
+    }
+    case "object": {
+      const properties = schema.properties ?? {};
+      if (!isRecord(properties)) throw new SchemaError(`properties must be an object (${at})`);
+      const required = new Set(Array.isArray(schema.required) ? schema.required.filter((name): name is string => typeof name === "string") : []);
+      const shape = Object.fromEntries(Object.entries(properties).map(([name, property]) => {
+        const converted = subschema(property, `${at}.${name}`);
+        return [name, required.has(name) ? converted : converted.optional()];
+      }));
+      // Required properties without a schema of their own
+      for (const name of required) {
+        if (!(name in shape)) shape[name] = z.unknown().refine((value) => value !== undefined, "Required");
+      }
+      const object = z.object(shape);
+      const { additionalProperties } = schema;
+      if (additionalProperties === false) return object.strict();
+      if (isRecord(additionalProperties)) return object.catchall(subschema(additionalProperties, `${at}.*`));
+      return object.passthrough();
+    }
+    default:
+      throw new SchemaError(`unknown type "${type}" (${at})`);
+  }
+}
+
+function union(options: z.ZodTypeAny[]): z.ZodTypeAny {
+  return options.length === 1 ? options[0] : z.union(options as [z.ZodTypeAny, z.ZodTypeAny, ...z.ZodTypeAny[]]);
+}
+
+// Validator for a JSON Schema (type, properties, required, additionalProperties, items,
+// enum, const, anyOf/oneOf/allOf and the usual string, number and array limits)
+export function jsonSchemaToZod(schema: JsonSchema, at: string = "$"): z.ZodTypeAny {
+  if (schema === true) return z.unknown();
+  if (schema === false) return z.never();
+  if (!schema || typeof schema !== "object" || Array.isArray(schema)) {
+    throw new SchemaError(`expected a schema object (${at})`);
+  }
+  if (schema.$ref !== undefined) {
+    throw new SchemaError(`$ref is not supported (${at})`);
+  }
+
+  const parts: z.ZodTypeAny[] = [];
+  const types: string[] = [];
+  for (const type of Array.isArray(schema.type) ? schema.type : schema.type !== undefined ? [schema.type] : []) {
+    if (typeof type !== "string" || !JSON_TYPES.includes(type)) throw new SchemaError(`unknown type "${type}" (${at})`);
+    types.push(type);
+  }
+  if (types.length > 0) {
+    parts.push(union(types.map((type) => convertType(type, schema, at))));
+  } else if (schema.properties !== undefined) {
+    parts.push(convertType("object", schema, at));
+  } else if (schema.items !== undefined) {
+    parts.push(convertType("array", schema, at));
+  }
+
+  for (const keyword of ["anyOf", "oneOf"] as const) {
+    const options = schema[keyword];
+    if (Array.isArray(options) && options.length > 0) {
+      parts.push(union(options.map((option, index) => subschema(option, `${at}/${keyword}/${index}`))));
+    }
+  }
+  if (Array.isArray(schema.allOf)) {
+    schema.allOf.forEach((option, index) => parts.push(subschema(option, `${at}/allOf/${index}`)));
+  }
+
+  let result = parts.length === 0 ? z.unknown() : parts.reduce((left, right) => z.intersection(left, right));
+  if (Array.isArray(schema.enum)) {
+    const allowed = schema.enum;
+    result = result.refine((value) => allowed.some((option) => isDeepStrictEqual(option, value)),
+      `Expected one of ${allowed.map((option) => JSON.stringify(option)).join(", ")}`);
+  }
+  if (schema.const !== undefined) {
+    const expected = schema.const;
+    result = result.refine((value) => isDeepStrictEqual(expected, value), `Expected ${JSON.stringify(expected)}`);
+  }
+  return result;
+}
+
+// One line per problem, with a JSONPath-like location
+export function formatIssues(error: z.ZodError): string[] {
+  return error.issues.map((issue) => {
+    const location = issue.path.reduce<string>((text, part) => typeof part === "number" ? `${text}[${part}]` : `${text}.${part}`, "$");
+    return `${location}: ${issue.message}`;
+  });
+}
+
+// The JSON value starting at index start, if its brackets balance
+function balancedJson(text: string, start: number): string | undefined {
+  const stack: string[] = [];
+  let inString = false;
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (char === "\\") i++;
+      else if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === "{" || char === "[") {
+      stack.push(char === "{" ? "}" : "]");
+    } else if (char === "}" || char === "]") {
+      if (stack.pop() !== char) return undefined;
+      if (stack.length === 0) return text.slice(start, i + 1);
+    }
+  }
+  return undefined;
+}
+
+// Find the JSON answer: the whole text, a fenced code block, or the first embedded object or array
+export function extractJson(text: string): JsonExtraction {
+  const candidates = [text.trim()];
+  for (const match of text.matchAll(/```(?:json)?[^\S\n]*\n([\s\S]*?)```/g)) {
+    candidates.push(match[1].trim());
+  }
+  const start = text.search(/[{[]/);
+  if (start !== -1) {
+    const embedded = balancedJson(text, start);
+    if (embedded) candidates.push(embedded);
+  }
+
+  let firstError: string | undefined;
+  for (const candidate of candidates) {
+    if (!candidate) continue;
+    try {
+      return { ok: true, value: JSON.parse(candidate) };
+    } catch (error) {
+      firstError ??= error instanceof Error ? error.message : String(error);
+    }
+  }
+  return { ok: false, error: start === -1 ? "The answer contains no JSON" : `The answer is not valid JSON (${firstError})` };
+}
+
+export function buildJsonPrompt(message: string, schema: JsonSchema): string {
+  return [
+    message,
+    "",
+    "Answer with a single JSON value that matches the following JSON Schema.",
+    "Reply with the JSON only: no explanations and no Markdown code fences.",
+    "",
+    JSON.stringify(schema, null, 2)
+  ].join("\n");
+}
+
+// Ask again, quoting the rejected answer and what was wrong with it
+export function buildRepairPrompt(jsonPrompt: string, answer: string, issues: string[]): string {
+  return [
+    jsonPrompt,
+    "",
+    "Your previous answer was:",
+    answer,
+    "",
+    "It was rejected for these reasons:",
+    ...issues.map((issue) => `- ${issue}`),
+    "",
+    "Reply again with corrected JSON only."
+  ].join("\n");
+}
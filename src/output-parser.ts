@@ -0,0 +1,197 @@
+// Classifies raw Gemini CLI output into the answer body and CLI noise.
+//
+// Gemini CLI mixes its answer with startup banners, quota fallback notices,
+// Node warnings and full error dumps (often with embedded JSON and stack
+// traces). Warnings and errors are only classified on stderr. On stdout, only the
+// known banner and notice lines before the first answer line are stripped;
+// everything from there on is kept verbatim as the answer, so an answer that
+// starts with "Warning:" or talks about quotas is never dropped.
+
+export type SegmentKind = "banner" | "answer" | "warning" | "error" | "stack" | "log";
+export type OutputStream = "stdout" | "stderr";
+
+export interface OutputSegment {
+  kind: SegmentKind;
+  stream: OutputStream;
+  text: string;
+  // Error and stack segments of the same error dump share a block id
+  block?: string;
+}
+
+export interface ParsedOutput {
+  answer: string;
+  banners: string[];
+  warnings: string[];
+  errors: string[];
+  stackTraces: string[];
+  segments: OutputSegment[];
+}
+
+// Informational lines printed by the CLI before the answer
+const BANNER_PATTERNS = [
+  /^Loaded cached credentials\.?$/,
+  /^Data collection is disabled\.?$/,
+  /^Using \d+ MCP servers?/,
+  /^\[DEBUG\]/,
+  /^Flushing log events/
+];
+
+// Notices the CLI prints on stdout ahead of the answer, e.g. the quota fallback to Flash
+const STDOUT_NOTICE_PATTERNS = [/^⚡/];
+
+const WARNING_PATTERNS = [
+  /^⚡/,
+  /^\(node:\d+\) (\[\w+\] )?\w*Warning:/,
+  /^\(Use `node --trace-(warnings|deprecation)/,
+  /^(Warning|WARN|Deprecation(Warning)?):/i
+];
+
+// Lines that start an error block (which may continue with JSON and stack frames)
+const CLI_ERROR_PATTERNS = [
+  /^Attempt \d+ failed/,
+  /^Error when talking to Gemini API/,
+  /^\[API Error:/,
+  /^Error\b.*(quota|exhausted|status \d{3})/i,
+  /^Quota exceeded/i,
+  /^An unexpected critical error occurred/,
+  // Generic "SomeError: ..." lines, e.g. "TypeError: fetch failed"
+  /^(Uncaught |Unhandled )?([A-Z]\w*)?Error\b.*[:{[]/
+];
+
+const STACK_FRAME = /^\s+at\s/;
+
+function matchesAny(line: string, patterns: RegExp[]): boolean {
+  return patterns.some((pattern) => pattern.test(line));
+}
+
+// Net count of opening minus closing brackets, ignoring those inside string literals
+function bracketDelta(line: string): number {
+  let delta = 0;
+  let quote: string | null = null;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quote) {
+      if (char === "\\") i++;
+      else if (char === quote) quote = null;
+      continue;
+    }
+    if (char === '"' || char === "'" || char === "`") quote = char;
+    else if (char === "{" || char === "[") delta++;
+    else if (char === "}" || char === "]") delta--;
+  }
+  return delta;
+}
+
+// Banner and notice lines (and blank lines between them) up to the first answer line; the rest is the answer
+function classifyStdout(text: string): OutputSegment[] {
+  const lines = text.replace(/\r\n/g, "\n").split("\n");
+  const segments: OutputSegment[] = [];
+  const push = (kind: SegmentKind, line: string) => {
+    const last = segments[segments.length - 1];
+    if (last && last.kind === kind) last.text += "\n" + line;
+    else segments.push({ kind, stream: "stdout", text: line });
+  };
+
+  let index = 0;
+  for (; index < lines.length; index++) {
+    const trimmed = lines[index].trim();
+    if (trimmed === "") continue;
+    if (matchesAny(trimmed, BANNER_PATTERNS)) push("banner", trimmed);
+    else if (matchesAny(trimmed, STDOUT_NOTICE_PATTERNS)) push("warning", lines[index]);
+    else break;
+  }
+  if (index < lines.length) push("answer", lines.slice(index).join("\n"));
+  return segments;
+}
+
+function classifyStderr(text: string): OutputSegment[] {
+  const segments: OutputSegment[] = [];
+  let block: string | undefined;
+  const push = (kind: SegmentKind, line: string) => {
+    const last = segments[segments.length - 1];
+    if (last && last.kind === kind && last.block === block) {
+      last.text += "\n" + line;
+    } else {
+      segments.push(block === undefined ? { kind, stream: "stderr", text: line } : { kind, stream: "stderr", text: line, block });
+    }
+  };
+
+  let depth = 0;
+  let blockCount = 0;
+
+  for (const line of text.replace(/\r\n/g, "\n").split("\n")) {
+    if (block !== undefined) {
+      if (STACK_FRAME.test(line)) {
+        push("stack", line);
+        depth = Math.max(0, depth + bracketDelta(line));
+        continue;
+      }
+      if (depth > 0 || /^\s*\.\.\.|^\s*}\s*$/.test(line)) {
+        push("error", line);
+        depth = Math.max(0, depth + bracketDelta(line));
+        continue;
+      }
+      block = undefined;
+    }
+
+    const trimmed = line.trim();
+    if (matchesAny(trimmed, BANNER_PATTERNS)) {
+      push("banner", trimmed);
+    } else if (matchesAny(line, WARNING_PATTERNS)) {
+      push("warning", line);
+    } else if (matchesAny(line, CLI_ERROR_PATTERNS)) {
+      // Start a new error block even when one precedes it directly
+      block = `stderr:${blockCount++}`;
+      depth = Math.max(0, bracketDelta(line));
+      push("error", line);
+    } else if (STACK_FRAME.test(line)) {
+      push("stack", line);
+    } else {
+      push("log", line);
+    }
+  }
+
+  return segments;
+}
+
+// One entry per segment, or per error block for error and stack segments
+function collect(segments: OutputSegment[], kind: SegmentKind): string[] {
+  const entries: string[] = [];
+  const blockEntries = new Map<string, number>();
+
+  for (const segment of segments) {
+    if (segment.kind !== kind) continue;
+    const text = segment.text.replace(/^(?:[ \t]*\n)+/, "").trimEnd();
+    if (!text) continue;
+
+    const existing = segment.block !== undefined ? blockEntries.get(segment.block) : undefined;
+    if (existing !== undefined) {
+      entries[existing] += "\n" + text;
+    } else {
+      if (segment.block !== undefined) blockEntries.set(segment.block, entries.length);
+      entries.push(text);
+    }
+  }
+  return entries.map((entry) => entry.trim());
+}
+
+export function parseGeminiOutput(stdout: string, stderr: string = ""): ParsedOutput {
+  const segments = [...classifyStdout(stdout), ...classifyStderr(stderr)];
+
+  const answer = segments
+    .filter((segment) => segment.kind === "answer")
+    .map((segment) => segment.text)
+    .join("\n")
+    // Drop surrounding blank lines but keep the first line's indentation
+    .replace(/^(?:[ \t]*\n)+/, "")
+    .trimEnd();
+
+  return {
+    answer,
+    banners: collect(segments, "banner"),
+    warnings: collect(segments, "warning"),
+    errors: collect(segments, "error"),
+    stackTraces: collect(segments, "stack"),
+    segments: segments.filter((segment) => segment.text.trim() !== "")
+  };
+}
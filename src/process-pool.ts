@@ -0,0 +1,192 @@
+import { spawn, ChildProcess } from "child_process";
+import { randomUUID } from "crypto";
+import { CancelledError } from "./errors.js";
+
+// Concurrency control for Gemini CLI processes.
+// At most maxConcurrency runs hold a slot at a time; the rest wait in line,
+// higher priority first and FIFO within a priority. Waiting and running
+// calls can be cancelled through an AbortSignal.
+
+export type Priority = "high" | "normal" | "low";
+
+export interface PoolConfig {
+  // Gemini CLI processes allowed to run at once
+  maxConcurrency: number;
+}
+
+export interface RunOptions {
+  priority?: Priority;
+  signal?: AbortSignal;
+  // Shown in the process list (e.g. the start of the message)
+  label?: string;
+}
+
+// Handle passed to a running task
+export interface PoolSlot {
+  id: string;
+  signal?: AbortSignal;
+  // Register the spawned process so it shows up in snapshots and is killed on shutdown
+  attach(child: ChildProcess): void;
+}
+
+export interface ActiveProcess {
+  id: string;
+  pid: number | null;
+  priority: Priority;
+  label: string;
+  startedAt: string;
+  elapsedMs: number;
+}
+
+export interface PoolSnapshot {
+  maxConcurrency: number;
+  active: ActiveProcess[];
+  waiting: number;
+}
+
+interface Waiter {
+  priority: Priority;
+  start: () => void;
+}
+
+interface Running {
+  id: string;
+  priority: Priority;
+  label: string;
+  startedAt: number;
+  child?: ChildProcess;
+}
+
+export const DEFAULT_POOL: PoolConfig = {
+  maxConcurrency: 4
+};
+
+const PRIORITY_RANK: Record<Priority, number> = { high: 0, normal: 1, low: 2 };
+
+// Kill a process and everything it started. POSIX children are spawned in
+// their own process group (detached), so the negative pid reaches the whole group.
+export function killProcessTree(child: ChildProcess, signal: NodeJS.Signals = "SIGTERM"): void {
+  if (child.pid === undefined) return;
+  try {
+    if (process.platform === "win32") {
+      spawn("taskkill", ["/pid", String(child.pid), "/T", "/F"], { stdio: "ignore" }).on("error", () => undefined);
+    } else {
+      process.kill(-child.pid, signal);
+    }
+  } catch {
+    // Group already gone or not a group leader; fall back to the process itself
+    try {
+      child.kill(signal);
+    } catch {
+      // Already exited
+    }
+  }
+}
+
+// SIGTERM the process tree, then SIGKILL whatever is still holding its output
+// open after graceMs
+export function terminateProcessTree(child: ChildProcess, graceMs: number): void {
+  killProcessTree(child, "SIGTERM");
+  if (graceMs <= 0 || process.platform === "win32") return;
+  const timer = setTimeout(() => {
+    console.error(`[Gemini MCP] Process ${child.pid} still running ${graceMs}ms after SIGTERM, sending SIGKILL`);
+    killProcessTree(child, "SIGKILL");
+  }, graceMs);
+  timer.unref();
+  child.once("close", () => clearTimeout(timer));
+}
+
+export class ProcessPool {
+  private queue: Waiter[] = [];
+  private running = new Map<string, Running>();
+  // Slots granted to callers, including ones whose task has not started yet
+  private busy = 0;
+
+  constructor(private config: PoolConfig) {}
+
+  // Run a task once a slot is free; the slot is released when the task settles
+  async run<T>(task: (slot: PoolSlot) => Promise<T>, options: RunOptions = {}): Promise<T> {
+    const priority = options.priority ?? "normal";
+    await this.waitForSlot(priority, options.signal);
+
+    const entry: Running = {
+      id: randomUUID(),
+      priority,
+      label: options.label ?? "",
+      startedAt: Date.now()
+    };
+    this.running.set(entry.id, entry);
+
+    try {
+      return await task({
+        id: entry.id,
+        signal: options.signal,
+        attach: (child) => {
+          entry.child = child;
+        }
+      });
+    } finally {
+      this.running.delete(entry.id);
+      this.busy--;
+      this.next();
+    }
+  }
+
+  private waitForSlot(priority: Priority, signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) return Promise.reject(new CancelledError());
+    if (this.queue.length === 0 && this.busy < this.config.maxConcurrency) {
+      this.busy++;
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        this.queue = this.queue.filter((queued) => queued !== waiter);
+        reject(new CancelledError());
+      };
+      const waiter: Waiter = {
+        priority,
+        start: () => {
+          signal?.removeEventListener("abort", onAbort);
+          this.busy++;
+          resolve();
+        }
+      };
+
+      // Behind every waiter of the same or higher priority
+      const index = this.queue.findIndex((queued) => PRIORITY_RANK[queued.priority] > PRIORITY_RANK[priority]);
+      this.queue.splice(index === -1 ? this.queue.length : index, 0, waiter);
+      signal?.addEventListener("abort", onAbort, { once: true });
+      console.error(`[Gemini MCP] All ${this.config.maxConcurrency} process slots busy, waiting (${this.queue.length} in line)`);
+    });
+  }
+
+  private next(): void {
+    while (this.busy < this.config.maxConcurrency && this.queue.length > 0) {
+      this.queue.shift()!.start();
+    }
+  }
+
+  // Kill every running process tree (used on shutdown)
+  killAll(signal: NodeJS.Signals = "SIGTERM"): void {
+    for (const entry of this.running.values()) {
+      if (entry.child) killProcessTree(entry.child, signal);
+    }
+  }
+
+  snapshot(): PoolSnapshot {
+    const now = Date.now();
+    return {
+      maxConcurrency: this.config.maxConcurrency,
+      active: [...this.running.values()].map((entry) => ({
+        id: entry.id,
+        pid: entry.child?.pid ?? null,
+        priority: entry.priority,
+        label: entry.label,
+        startedAt: new Date(entry.startedAt).toISOString(),
+        elapsedMs: now - entry.startedAt
+      })),
+      waiting: this.queue.length
+    };
+  }
+}
@@ -0,0 +1,121 @@
+import type { LoggingLevel, ProgressToken, ServerNotification } from "@modelcontextprotocol/sdk/types.js";
+
+// Progress reporting for long Gemini runs.
+// While a call runs, a notifications/progress message with the elapsed time and
+// character counts is sent on every tick (when the client passed a progress
+// token), and new answer text can be forwarded as logging messages.
+
+export interface ProgressConfig {
+  // Time between progress notifications
+  intervalMs: number;
+  // Forward partial answer text as logging messages unless a call says otherwise
+  partialOutput: boolean;
+}
+
+export interface ProgressOptions {
+  progressToken?: ProgressToken;
+  sendNotification: (notification: ServerNotification) => Promise<void>;
+  intervalMs: number;
+  partialOutput: boolean;
+  // Minimum level the client asked for via logging/setLevel
+  logLevel?: LoggingLevel;
+}
+
+export const DEFAULT_PROGRESS: ProgressConfig = {
+  intervalMs: 2000,
+  partialOutput: false
+};
+
+const LOG_LEVELS: LoggingLevel[] = ["debug", "info", "notice", "warning", "error", "critical", "alert", "emergency"];
+
+export function isLevelEnabled(level: LoggingLevel, minimum: LoggingLevel = "debug"): boolean {
+  return LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(minimum);
+}
+
+export class ProgressReporter {
+  private startedAt = Date.now();
+  private attempt = 1;
+  private stdoutChars = 0;
+  private stderrChars = 0;
+  private pendingText = "";
+  private timer?: NodeJS.Timeout;
+  private sentProgress = -1;
+
+  constructor(private options: ProgressOptions) {}
+
+  private get streamsPartialOutput(): boolean {
+    return this.options.partialOutput && isLevelEnabled("info", this.options.logLevel);
+  }
+
+  // Nothing to report when the client neither wants progress nor partial output
+  get enabled(): boolean {
+    return this.options.progressToken !== undefined || this.streamsPartialOutput;
+  }
+
+  start(): void {
+    if (!this.enabled || this.timer) return;
+    this.timer = setInterval(() => this.tick(), this.options.intervalMs);
+    this.timer.unref();
+  }
+
+  // Counts restart with each attempt
+  startAttempt(attempt: number): void {
+    this.flushText();
+    this.attempt = attempt;
+    this.stdoutChars = 0;
+    this.stderrChars = 0;
+  }
+
+  onOutput(stream: "stdout" | "stderr", chunk: string): void {
+    if (stream === "stdout") {
+      this.stdoutChars += chunk.length;
+      if (this.streamsPartialOutput) this.pendingText += chunk;
+    } else {
+      this.stderrChars += chunk.length;
+    }
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = undefined;
+    this.flushText();
+  }
+
+  private tick(): void {
+    this.flushText();
+    if (this.options.progressToken === undefined) return;
+
+    const elapsedSeconds = Math.floor((Date.now() - this.startedAt) / 1000);
+    // Progress must increase with every notification
+    if (elapsedSeconds <= this.sentProgress) return;
+    this.sentProgress = elapsedSeconds;
+
+    this.send({
+      method: "notifications/progress",
+      params: {
+        progressToken: this.options.progressToken,
+        progress: elapsedSeconds,
+        message: `Gemini running for ${elapsedSeconds}s` +
+          (this.attempt > 1 ? ` (attempt ${this.attempt})` : "") +
+          `, received ${this.stdoutChars} chars` +
+          (this.stderrChars > 0 ? ` (+${this.stderrChars} on stderr)` : "")
+      }
+    });
+  }
+
+  private flushText(): void {
+    if (!this.pendingText) return;
+    const data = this.pendingText;
+    this.pendingText = "";
+    this.send({
+      method: "notifications/message",
+      params: { level: "info", logger: "gemini", data }
+    });
+  }
+
+  private send(notification: ServerNotification): void {
+    this.options.sendNotification(notification).catch((error) => {
+      console.error(`[Gemini MCP] Failed to send ${notification.method}: ${error}`);
+    });
+  }
+}
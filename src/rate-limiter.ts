@@ -0,0 +1,249 @@
+import * as fs from "fs";
+import * as path from "path";
+import { CancelledError, GeminiError, QuotaExceededError } from "./errors.js";
+
+// Client-side rate limiting matching the Gemini quotas.
+// A token bucket enforces the per-minute limit, a counter enforces the daily
+// limit, and callers over the per-minute limit wait in a bounded FIFO queue.
+
+export interface RateLimitConfig {
+  // 0 disables the limit
+  requestsPerMinute: number;
+  requestsPerDay: number;
+  maxQueueSize: number;
+  // Keep the daily counter in a state file so restarts don't reset it
+  persistDailyCount: boolean;
+  // Time zone in which the daily quota resets (Gemini resets at midnight Pacific Time)
+  timeZone: string;
+}
+
+// null means the limit is disabled
+export interface QuotaSnapshot {
+  perMinute: { limit: number; available: number | null };
+  perDay: { limit: number; used: number; remaining: number | null; resetsAt: string };
+  queue: { depth: number; maxSize: number };
+}
+
+interface DailyState {
+  day: string;
+  count: number;
+}
+
+interface Waiter {
+  resolve: () => void;
+  reject: (error: Error) => void;
+}
+
+export const DEFAULT_RATE_LIMIT: RateLimitConfig = {
+  requestsPerMinute: 60,
+  requestsPerDay: 1000,
+  maxQueueSize: 100,
+  persistDailyCount: true,
+  timeZone: "America/Los_Angeles"
+};
+
+export class QueueFullError extends GeminiError {
+  constructor(maxQueueSize: number) {
+    super("QUEUE_FULL", `Request queue is full (${maxQueueSize} waiting). Try again shortly`, true);
+    this.name = "QueueFullError";
+  }
+}
+
+// Date key and milliseconds until the next midnight in the given time zone
+function dayInfo(timeZone: string, now: Date = new Date()): { day: string; msUntilReset: number } {
+  const parts = new Intl.DateTimeFormat("en-CA", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+    hourCycle: "h23"
+  }).formatToParts(now);
+  const get = (type: string) => parts.find((part) => part.type === type)?.value ?? "0";
+  const elapsed = ((Number(get("hour")) * 60 + Number(get("minute"))) * 60 + Number(get("second"))) * 1000 + now.getMilliseconds();
+  return {
+    day: `${get("year")}-${get("month")}-${get("day")}`,
+    msUntilReset: 24 * 60 * 60 * 1000 - elapsed
+  };
+}
+
+export class RateLimiter {
+  private tokens: number;
+  private lastRefill = Date.now();
+  private daily: DailyState;
+  private queue: Waiter[] = [];
+  private drainTimer?: NodeJS.Timeout;
+  private persisting: Promise<void> = Promise.resolve();
+
+  constructor(private config: RateLimitConfig, private stateFile?: string) {
+    this.tokens = config.requestsPerMinute;
+    this.daily = { day: dayInfo(config.timeZone).day, count: 0 };
+  }
+
+  // Restore the persisted daily counter (ignored when it belongs to another day)
+  async load(): Promise<void> {
+    if (!this.stateFile || !this.config.persistDailyCount) return;
+    try {
+      const state = JSON.parse(await fs.promises.readFile(this.stateFile, "utf8")) as DailyState;
+      if (state.day === this.daily.day && typeof state.count === "number") {
+        this.daily.count = Math.max(this.daily.count, state.count);
+      }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        console.error(`[Gemini MCP] Failed to read rate limit state: ${error}`);
+      }
+    }
+  }
+
+  private persist(): void {
+    const stateFile = this.stateFile;
+    if (!stateFile || !this.config.persistDailyCount) return;
+    const state = JSON.stringify(this.daily);
+    this.persisting = this.persisting
+      .then(async () => {
+        await fs.promises.mkdir(path.dirname(stateFile), { recursive: true });
+        await fs.promises.writeFile(stateFile, state, "utf8");
+      })
+      .catch((error) => {
+        console.error(`[Gemini MCP] Failed to persist rate limit state: ${error}`);
+      });
+  }
+
+  // Resolves once pending state writes have finished
+  flush(): Promise<void> {
+    return this.persisting;
+  }
+
+  private refill(): void {
+    const limit = this.config.requestsPerMinute;
+    if (limit <= 0) return;
+    const now = Date.now();
+    this.tokens = Math.min(limit, this.tokens + ((now - this.lastRefill) * limit) / 60000);
+    this.lastRefill = now;
+  }
+
+  private rollDay(): number {
+    const { day, msUntilReset } = dayInfo(this.config.timeZone);
+    if (day !== this.daily.day) {
+      this.daily = { day, count: 0 };
+    }
+    return msUntilReset;
+  }
+
+  private checkDaily(): void {
+    const msUntilReset = this.rollDay();
+    const limit = this.config.requestsPerDay;
+    if (limit > 0 && this.daily.count >= limit) {
+      throw new QuotaExceededError(
+        `client-side daily limit of ${limit} requests reached (resets at midnight ${this.config.timeZone})`,
+        {},
+        msUntilReset
+      );
+    }
+  }
+
+  private take(): void {
+    if (this.config.requestsPerMinute > 0) this.tokens -= 1;
+    this.daily.count += 1;
+    this.persist();
+  }
+
+  private hasToken(): boolean {
+    this.refill();
+    return this.config.requestsPerMinute <= 0 || this.tokens >= 1;
+  }
+
+  // Wait for permission to start one Gemini request; aborting leaves the queue without using a token
+  acquire(signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) return Promise.reject(new CancelledError());
+    try {
+      this.checkDaily();
+    } catch (error) {
+      return Promise.reject(error);
+    }
+
+    if (this.queue.length === 0 && this.hasToken()) {
+      this.take();
+      return Promise.resolve();
+    }
+
+    if (this.queue.length >= this.config.maxQueueSize) {
+      return Promise.reject(new QueueFullError(this.config.maxQueueSize));
+    }
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        this.queue = this.queue.filter((queued) => queued !== waiter);
+        reject(new CancelledError());
+      };
+      const waiter: Waiter = {
+        resolve: () => {
+          signal?.removeEventListener("abort", onAbort);
+          resolve();
+        },
+        reject: (error) => {
+          signal?.removeEventListener("abort", onAbort);
+          reject(error);
+        }
+      };
+      this.queue.push(waiter);
+      signal?.addEventListener("abort", onAbort, { once: true });
+      console.error(`[Gemini MCP] Rate limited, queued request (depth ${this.queue.length})`);
+      this.scheduleDrain();
+    });
+  }
+
+  private scheduleDrain(): void {
+    if (this.drainTimer || this.queue.length === 0) return;
+    this.refill();
+    const perMs = this.config.requestsPerMinute / 60000;
+    const wait = this.tokens >= 1 ? 0 : Math.ceil((1 - this.tokens) / perMs);
+    this.drainTimer = setTimeout(() => {
+      this.drainTimer = undefined;
+      this.drain();
+    }, wait);
+    // Waiting requests should not keep the process alive on their own
+    this.drainTimer.unref();
+  }
+
+  private drain(): void {
+    while (this.queue.length > 0 && this.hasToken()) {
+      const waiter = this.queue.shift()!;
+      try {
+        this.checkDaily();
+      } catch (error) {
+        // The daily budget ran out while waiting; fail everyone still queued
+        waiter.reject(error as Error);
+        this.queue.splice(0).forEach((queued) => queued.reject(error as Error));
+        return;
+      }
+      this.take();
+      waiter.resolve();
+    }
+    this.scheduleDrain();
+  }
+
+  snapshot(): QuotaSnapshot {
+    this.refill();
+    const msUntilReset = this.rollDay();
+    const dailyLimit = this.config.requestsPerDay;
+    return {
+      perMinute: {
+        limit: this.config.requestsPerMinute,
+        available: this.config.requestsPerMinute > 0 ? Math.floor(this.tokens) : null
+      },
+      perDay: {
+        limit: dailyLimit,
+        used: this.daily.count,
+        remaining: dailyLimit > 0 ? Math.max(0, dailyLimit - this.daily.count) : null,
+        resetsAt: new Date(Date.now() + msUntilReset).toISOString()
+      },
+      queue: {
+        depth: this.queue.length,
+        maxSize: this.config.maxQueueSize
+      }
+    };
+  }
+}
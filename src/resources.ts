@@ -0,0 +1,67 @@
+import type { Conversation } from "./conversations.js";
+import type { ExchangeRecord } from "./storage.js";
+
+// MCP resources for conversations and recorded requests, so clients can attach
+// earlier answers as context without another model call. Ids are URI-encoded
+// because conversation ids are chosen by the client.
+
+export const RESOURCE_SCHEME = "gemini";
+
+export const CONVERSATION_TEMPLATE = `${RESOURCE_SCHEME}://conversations/{id}`;
+export const REQUEST_TEMPLATE = `${RESOURCE_SCHEME}://requests/{id}`;
+export const RAW_REQUEST_TEMPLATE = `${RESOURCE_SCHEME}://requests/{id}/raw`;
+
+// Most recent requests included in resources/list (older ones can still be read by URI)
+export const LISTED_REQUESTS = 100;
+
+export function conversationUri(id: string): string {
+  return `${RESOURCE_SCHEME}://conversations/${encodeURIComponent(id)}`;
+}
+
+export function requestUri(id: string): string {
+  return `${RESOURCE_SCHEME}://requests/${encodeURIComponent(id)}`;
+}
+
+export function rawRequestUri(id: string): string {
+  return `${requestUri(id)}/raw`;
+}
+
+// Template variables arrive URI-encoded (and as arrays for exploded variables)
+export function templateId(value: string | string[]): string {
+  const raw = Array.isArray(value) ? value[0] ?? "" : value;
+  try {
+    return decodeURIComponent(raw);
+  } catch {
+    return raw;
+  }
+}
+
+export function formatConversationMarkdown(conversation: Conversation): string {
+  const lines = [`# Conversation ${conversation.id}`, "", `Created: ${conversation.createdAt}, updated: ${conversation.updatedAt}`];
+  if (conversation.forkedFrom) {
+    lines.push(`Forked from: ${conversation.forkedFrom}`);
+  }
+  if (conversation.turns.length === 0) {
+    lines.push("", "(no turns)");
+  }
+  for (const turn of conversation.turns) {
+    lines.push("", `## ${turn.role === "user" ? "User" : "Assistant"} (${turn.timestamp})`, "", turn.content);
+  }
+  return lines.join("\n");
+}
+
+// Everything the process printed, exactly as captured
+export function formatRawOutput(record: ExchangeRecord): string {
+  return [
+    `Request ${record.id} at ${record.timestamp}`,
+    `Backend: ${record.backend ?? "gemini"}, exit code: ${record.exitCode}, duration: ${record.durationMs}ms` +
+      (record.errorCode ? `, error: ${record.errorCode}` : "") +
+      (record.cached ? ", answered from the response cache (no process ran)" : ""),
+    "",
+    "=== stdout ===",
+    record.stdout,
+    "",
+    "=== stderr ===",
+    record.stderr
+  ].join("\n");
+}
@@ -0,0 +1,135 @@
+import { CancelledError, GeminiError, toGeminiError } from "./errors.js";
+
+// Retry policy for transient Gemini CLI failures (quota bursts, crashes, empty output).
+// Delays grow exponentially with jitter; a retry delay reported by Gemini wins.
+
+export interface RetryPolicy {
+  // Total attempts including the first one
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // Give up when the next attempt would start after this much time
+  maxTotalMs: number;
+  // Fraction of the delay randomized in both directions (0 disables jitter)
+  jitter: number;
+}
+
+export interface AttemptRecord {
+  attempt: number;
+  startedAt: string;
+  durationMs: number;
+  outcome: "success" | "error";
+  errorCode?: string;
+  error?: string;
+  // Wait before the next attempt, when one followed
+  delayMs?: number;
+}
+
+export interface RetryOutcome<T> {
+  value: T;
+  attempts: AttemptRecord[];
+}
+
+export interface RetryOptions {
+  // Aborting cancels the wait before the next attempt, and no further attempt starts
+  signal?: AbortSignal;
+  wait?: (ms: number, signal?: AbortSignal) => Promise<void>;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 2000,
+  maxDelayMs: 60000,
+  maxTotalMs: 180000,
+  jitter: 0.2
+};
+
+export function backoffDelay(policy: RetryPolicy, attempt: number, error: GeminiError, random: () => number = Math.random): number {
+  if (error.retryAfterMs !== undefined) {
+    // Never retry before Gemini says so; jitter only adds time
+    return error.retryAfterMs + Math.round(error.retryAfterMs * policy.jitter * random());
+  }
+  const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  const spread = exponential * policy.jitter * (random() * 2 - 1);
+  return Math.max(0, Math.round(exponential + spread));
+}
+
+// Rejects with CancelledError as soon as the signal aborts
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  if (signal?.aborted) return Promise.reject(new CancelledError());
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new CancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+function cancelled(attempts: AttemptRecord[]): GeminiError {
+  const error = new CancelledError();
+  error.attempts = attempts;
+  return error;
+}
+
+// Run an operation until it succeeds, a non-retryable error occurs or the budget runs out.
+// The final error is rethrown with the attempt log attached.
+export async function withRetry<T>(
+  operation: (attempt: number) => Promise<T>,
+  policy: RetryPolicy,
+  { signal, wait = sleep }: RetryOptions = {}
+): Promise<RetryOutcome<T>> {
+  const attempts: AttemptRecord[] = [];
+  const started = Date.now();
+
+  for (let attempt = 1; ; attempt++) {
+    if (signal?.aborted) throw cancelled(attempts);
+    const attemptStart = Date.now();
+    try {
+      const value = await operation(attempt);
+      attempts.push({
+        attempt,
+        startedAt: new Date(attemptStart).toISOString(),
+        durationMs: Date.now() - attemptStart,
+        outcome: "success"
+      });
+      return { value, attempts };
+    } catch (error) {
+      const geminiError = toGeminiError(error);
+      const record: AttemptRecord = {
+        attempt,
+        startedAt: new Date(attemptStart).toISOString(),
+        durationMs: Date.now() - attemptStart,
+        outcome: "error",
+        errorCode: geminiError.code,
+        error: geminiError.message
+      };
+      attempts.push(record);
+      // Whatever the attempt failed with, a cancelled request is not retried
+      if (signal?.aborted) throw cancelled(attempts);
+
+      const delay = backoffDelay(policy, attempt, geminiError);
+      const elapsed = Date.now() - started;
+      const giveUp = !geminiError.retryable ||
+        attempt >= policy.maxAttempts ||
+        elapsed + delay > policy.maxTotalMs;
+
+      if (giveUp) {
+        geminiError.attempts = attempts;
+        throw geminiError;
+      }
+
+      record.delayMs = delay;
+      console.error(`[Gemini MCP] Attempt ${attempt} failed (${geminiError.code}), retrying in ${delay}ms`);
+      try {
+        await wait(delay, signal);
+      } catch {
+        throw cancelled(attempts);
+      }
+    }
+  }
+}
@@ -0,0 +1,269 @@
+import { execFile } from "child_process";
+import { GeminiError } from "./errors.js";
+import { escapeReferences } from "./files.js";
+import type { JsonSchema } from "./json-output.js";
+
+// Diff review for gemini_review_diff.
+// The diff comes from git in the request's working directory (working tree, a commit
+// range, or a branch against its base), is split by file into chunks under a size
+// budget, and the findings Gemini reports for each chunk are merged into one list.
+
+export interface ReviewConfig {
+  // Diff text sent with one review prompt
+  maxChunkBytes: number;
+  // Chunks reviewed per call; files beyond them are reported as not reviewed
+  maxChunks: number;
+}
+
+export const DEFAULT_REVIEW: ReviewConfig = {
+  maxChunkBytes: 60 * 1024,
+  maxChunks: 20
+};
+
+export type DiffTarget =
+  // Uncommitted changes against HEAD (or only the staged ones)
+  | { kind: "working-tree"; staged: boolean; untracked: boolean }
+  // e.g. "main..feature", "HEAD~3..HEAD" or a single commit to compare with the working tree
+  | { kind: "range"; range: string }
+  // What branch adds since it forked from base
+  | { kind: "branch"; branch: string; base?: string };
+
+export interface FileDiff {
+  file: string;
+  text: string;
+}
+
+export interface DiffChunk {
+  files: string[];
+  text: string;
+  // Set when a hunk had to be cut to fit the budget
+  truncated: boolean;
+}
+
+export type Severity = "critical" | "major" | "minor" | "nit";
+
+export interface ReviewFinding {
+  file: string;
+  // Line in the new version of the file; null for the file as a whole
+  line: number | null;
+  severity: Severity;
+  message: string;
+}
+
+export const SEVERITIES: Severity[] = ["critical", "major", "minor", "nit"];
+
+export const REVIEW_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    findings: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          file: { type: "string", minLength: 1 },
+          line: { type: ["integer", "null"], minimum: 1 },
+          severity: { enum: SEVERITIES },
+          message: { type: "string", minLength: 1 }
+        },
+        required: ["file", "line", "severity", "message"]
+      }
+    }
+  },
+  required: ["findings"]
+};
+
+// git failed: not a repository, an unknown revision, or git is missing
+export class GitError extends GeminiError {
+  constructor(message: string, stderr: string = "") {
+    super("GIT_ERROR", message, false, { stderr });
+    this.name = "GitError";
+  }
+}
+
+const GIT_TIMEOUT_MS = 30_000;
+const GIT_MAX_BUFFER = 64 * 1024 * 1024;
+
+// Run git in cwd; exit codes in okExitCodes (besides 0) are not failures
+export function runGit(args: string[], cwd: string, okExitCodes: number[] = []): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const child = execFile("git", args, { cwd, timeout: GIT_TIMEOUT_MS, maxBuffer: GIT_MAX_BUFFER }, (error, stdout, stderr) => {
+      if (!error || (typeof error.code === "number" && okExitCodes.includes(error.code))) {
+        resolve(stdout);
+        return;
+      }
+      if (error.code === "ENOENT") {
+        reject(new GitError("git not found in PATH"));
+        return;
+      }
+      const detail = stderr.trim().split("\n")[0] || error.message;
+      reject(new GitError(`git ${args[0]} failed in ${cwd}: ${detail}`, stderr));
+    });
+    child.stdin?.end();
+  });
+}
+
+// Revisions are passed to git as arguments, so they must not look like options
+function checkRevision(revision: string, what: string): string {
+  if (!revision || revision.startsWith("-") || /\s/.test(revision)) {
+    throw new GeminiError("INVALID_REQUEST", `Invalid ${what}: "${revision}"`);
+  }
+  return revision;
+}
+
+// origin's default branch, else main or master
+async function defaultBase(cwd: string): Promise<string> {
+  const remoteHead = await runGit(["symbolic-ref", "--quiet", "--short", "refs/remotes/origin/HEAD"], cwd).catch(() => "");
+  if (remoteHead.trim()) return remoteHead.trim();
+  for (const candidate of ["main", "master"]) {
+    const found = await runGit(["rev-parse", "--verify", "--quiet", `refs/heads/${candidate}`], cwd).catch(() => "");
+    if (found.trim()) return candidate;
+  }
+  throw new GitError(`Could not find a base branch in ${cwd} (no origin/HEAD, main or master); pass base`);
+}
+
+// The diff for a target and a one-line description of it
+export async function collectDiff(target: DiffTarget, cwd: string, paths: string[] = []): Promise<{ diff: string; description: string }> {
+  const diffArgs = ["diff", "--no-color", "--no-ext-diff", "--find-renames"];
+  const pathspec = ["--", ...paths];
+
+  if (target.kind === "range") {
+    const diff = await runGit([...diffArgs, checkRevision(target.range, "range"), ...pathspec], cwd);
+    return { diff, description: `changes in ${target.range}` };
+  }
+  if (target.kind === "branch") {
+    const branch = checkRevision(target.branch, "branch");
+    const base = checkRevision(target.base ?? await defaultBase(cwd), "base");
+    // Three dots: from the merge base, so changes made on base since are left out
+    const diff = await runGit([...diffArgs, `${base}...${branch}`, ...pathspec], cwd);
+    return { diff, description: `changes on ${branch} since it forked from ${base}` };
+  }
+
+  let diff = await runGit([...diffArgs, ...(target.staged ? ["--cached"] : ["HEAD"]), ...pathspec], cwd);
+  if (target.untracked && !target.staged) {
+    // New files git does not track yet, as additions (exit code 1 means "differences found")
+    const untracked = (await runGit(["ls-files", "--others", "--exclude-standard", "-z", ...pathspec], cwd)).split("\0").filter(Boolean);
+    for (const file of untracked) {
+      diff += await runGit(["diff", "--no-color", "--no-index", "--", "/dev/null", file], cwd, [1]);
+    }
+  }
+  return { diff, description: target.staged ? "staged changes" : "uncommitted changes in the working tree" };
+}
+
+function unquote(name: string): string {
+  return name.startsWith("\"") && name.endsWith("\"") ? name.slice(1, -1).replace(/\\(.)/g, "$1") : name;
+}
+
+// One entry per file, named after its new path (the old one for deletions)
+export function splitDiff(diff: string): FileDiff[] {
+  const files: FileDiff[] = [];
+  for (const section of diff.split(/^(?=diff --git )/m)) {
+    if (!section.startsWith("diff --git ")) continue;
+    const newName = section.match(/^\+\+\+ (.+)$/m)?.[1];
+    const oldName = section.match(/^--- (.+)$/m)?.[1];
+    let file: string;
+    if (newName && newName !== "/dev/null") {
+      file = unquote(newName).replace(/^b\//, "");
+    } else if (oldName && oldName !== "/dev/null") {
+      file = unquote(oldName).replace(/^a\//, "");
+    } else {
+      // Binary files, pure renames and mode changes have no ---/+++ lines
+      const header = section.split("\n", 1)[0];
+      file = unquote(header.match(/ ("?b\/.+)$/)?.[1] ?? header).replace(/^b\//, "");
+    }
+    files.push({ file, text: section.endsWith("\n") ? section : `${section}\n` });
+  }
+  return files;
+}
+
+// Split one file's diff at its hunks; a hunk larger than the budget is cut
+function splitFile(file: FileDiff, maxBytes: number): { text: string; truncated: boolean }[] {
+  const [header, ...hunks] = file.text.split(/^(?=@@ )/m);
+  const parts: { text: string; truncated: boolean }[] = [];
+  let current = header;
+  let truncated = false;
+  for (let hunk of hunks) {
+    const cut = Buffer.byteLength(header + hunk) > maxBytes;
+    if (cut) {
+      const room = Math.max(0, maxBytes - Buffer.byteLength(header) - 64);
+      hunk = `${Buffer.from(hunk).subarray(0, room).toString("utf8").replace(/[^\n]*$/, "")}... (hunk truncated)\n`;
+    }
+    if (current !== header && Buffer.byteLength(current + hunk) > maxBytes) {
+      parts.push({ text: current, truncated });
+      current = header;
+      truncated = false;
+    }
+    current += hunk;
+    truncated ||= cut;
+  }
+  parts.push({ text: current, truncated });
+  return parts;
+}
+
+// Files are packed in order; a file larger than the budget gets chunks of its own
+export function chunkDiff(files: FileDiff[], maxBytes: number): DiffChunk[] {
+  const chunks: DiffChunk[] = [];
+  let current: DiffChunk | undefined;
+  for (const file of files) {
+    const size = Buffer.byteLength(file.text);
+    if (size > maxBytes) {
+      current = undefined;
+      for (const part of splitFile(file, maxBytes)) {
+        chunks.push({ files: [file.file], text: part.text, truncated: part.truncated });
+      }
+      continue;
+    }
+    if (!current || Buffer.byteLength(current.text) + size > maxBytes) {
+      current = { files: [], text: "", truncated: false };
+      chunks.push(current);
+    }
+    current.files.push(file.file);
+    current.text += file.text;
+  }
+  return chunks;
+}
+
+export function buildReviewPrompt(chunk: DiffChunk, description: string, part: number, parts: number, focus?: string): string {
+  const lines = [`Review this diff (${description}${parts > 1 ? `, part ${part} of ${parts}` : ""}) as an experienced code reviewer.`];
+  if (focus) lines.push(`Pay particular attention to: ${focus}`);
+  lines.push(
+    "Report problems the change introduces: bugs, security issues, missing error handling, races, " +
+      "broken edge cases and misleading names or comments. Use severity \"nit\" for style and minor polish.",
+    "For each finding give the file path as shown in the diff, the line number in the new version of the file " +
+      "(null when the finding is about the file as a whole or about removed lines), the severity " +
+      `(${SEVERITIES.join(", ")}) and a short message saying what is wrong and how to fix it.`,
+    "Return an empty findings list when there is nothing to report."
+  );
+  if (chunk.truncated) lines.push("Parts of this diff were cut to fit; do not report the cut itself.");
+  lines.push("", "<diff>", chunk.text.replace(/\n$/, ""), "</diff>");
+  // "@path" in the diff (or a range or focus) is text to review, not a file for the CLI to read
+  return escapeReferences(lines.join("\n"));
+}
+
+// Drop duplicates (chunks of one file may repeat a finding) and sort by severity, file and line
+export function mergeFindings(lists: ReviewFinding[][]): ReviewFinding[] {
+  const seen = new Set<string>();
+  const merged: ReviewFinding[] = [];
+  for (const finding of lists.flat()) {
+    const key = JSON.stringify([finding.file, finding.line, finding.severity, finding.message.trim().toLowerCase()]);
+    if (seen.has(key)) continue;
+    seen.add(key);
+    merged.push({ ...finding, message: finding.message.trim() });
+  }
+  return merged.sort((a, b) =>
+    SEVERITIES.indexOf(a.severity) - SEVERITIES.indexOf(b.severity) ||
+    a.file.localeCompare(b.file) ||
+    (a.line ?? 0) - (b.line ?? 0)
+  );
+}
+
+export function formatFindings(findings: ReviewFinding[]): string {
+  if (findings.length === 0) return "No findings.";
+  const counts = SEVERITIES.map((severity) => [severity, findings.filter((finding) => finding.severity === severity).length] as const)
+    .filter(([, count]) => count > 0)
+    .map(([severity, count]) => `${count} ${severity}`);
+  return [
+    `${findings.length} finding(s): ${counts.join(", ")}`,
+    "",
+    ...findings.map((finding) => `- [${finding.severity}] ${finding.file}${finding.line !== null ? `:${finding.line}` : ""}: ${finding.message}`)
+  ].join("\n");
+}
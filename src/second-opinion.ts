@@ -0,0 +1,218 @@
+import { escapeReferences } from "./files.js";
+import type { JsonSchema } from "./json-output.js";
+
+// Critiques of Claude's answers for gemini_second_opinion.
+// Gemini judges a proposed answer to a question, possibly with several models or
+// several samples; the critiques are merged into shared agreements, disagreements
+// and a confidence summary saying how far the critics agree with each other.
+
+export type Verdict = "agree" | "partially_agree" | "disagree";
+
+export const VERDICTS: Verdict[] = ["agree", "partially_agree", "disagree"];
+
+export interface Disagreement {
+  // The part of the answer in question
+  point: string;
+  // Why it is wrong or doubtful
+  reason: string;
+  // What the answer should say instead
+  correction?: string;
+}
+
+// One critique as Gemini returns it
+export interface Critique {
+  verdict: Verdict;
+  // 0 to 1: how sure the critic is of its verdict
+  confidence: number;
+  agreements: string[];
+  disagreements: Disagreement[];
+  // Important points the answer leaves out
+  missing: string[];
+  summary: string;
+}
+
+export interface CritiqueRun {
+  // Label of the run, e.g. "gemini-2.5-pro #2"
+  source: string;
+  model?: string;
+  critique?: Critique;
+  error?: { code: string; message: string };
+}
+
+// A point raised by one or more critics, with who raised it
+export interface MergedPoint {
+  text: string;
+  sources: string[];
+}
+
+export interface MergedDisagreement extends Disagreement {
+  sources: string[];
+}
+
+export type ConfidenceLevel = "high" | "medium" | "low";
+
+export interface SecondOpinion {
+  verdict: Verdict;
+  agreements: MergedPoint[];
+  disagreements: MergedDisagreement[];
+  missing: MergedPoint[];
+  confidence: {
+    level: ConfidenceLevel;
+    // Mean of the critics' own confidence
+    mean: number;
+    // Share of critics whose verdict is the overall verdict
+    consensus: number;
+    verdicts: Record<Verdict, number>;
+    critiques: number;
+    failed: number;
+  };
+  runs: CritiqueRun[];
+}
+
+// Critiques one call may request (models times samples)
+export const MAX_CRITIQUES = 10;
+
+export const CRITIQUE_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    verdict: { enum: VERDICTS },
+    confidence: { type: "number", minimum: 0, maximum: 1 },
+    agreements: { type: "array", items: { type: "string" } },
+    disagreements: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          point: { type: "string", minLength: 1 },
+          reason: { type: "string", minLength: 1 },
+          correction: { type: "string" }
+        },
+        required: ["point", "reason"]
+      }
+    },
+    missing: { type: "array", items: { type: "string" } },
+    summary: { type: "string" }
+  },
+  required: ["verdict", "confidence", "agreements", "disagreements", "missing", "summary"]
+};
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === "string");
+}
+
+function isDisagreement(value: unknown): value is Disagreement {
+  if (typeof value !== "object" || value === null) return false;
+  const { point, reason, correction } = value as Record<string, unknown>;
+  return typeof point === "string" && typeof reason === "string" && (correction === undefined || typeof correction === "string");
+}
+
+// A JSON answer that passed CRITIQUE_SCHEMA, narrowed to a Critique
+export function isCritique(value: unknown): value is Critique {
+  if (typeof value !== "object" || value === null) return false;
+  const { verdict, confidence, agreements, disagreements, missing, summary } = value as Record<string, unknown>;
+  return VERDICTS.some((option) => option === verdict) && typeof confidence === "number" &&
+    isStringArray(agreements) && Array.isArray(disagreements) && disagreements.every(isDisagreement) &&
+    isStringArray(missing) && typeof summary === "string";
+}
+
+// question and context are the caller's own text with @path references already resolved;
+// "@" in the proposed answer is escaped so it is not read as one
+export function buildCritiquePrompt(question: string, answer: string, context?: string): string {
+  const lines = [
+    "Another assistant proposed the answer below. Check it independently and critically: work out what you",
+    "would answer yourself, then compare. Do not agree just to be agreeable, and do not invent disagreements.",
+    "",
+    "Question:",
+    question
+  ];
+  if (context) lines.push("", "Context:", context);
+  lines.push(
+    "",
+    "Proposed answer:",
+    escapeReferences(answer),
+    "",
+    "List the claims or steps you agree with, the ones you disagree with (quote or name the point, say why, " +
+      "and give the correction), and important points the answer leaves out. Give an overall verdict " +
+      `(${VERDICTS.join(", ")}), your confidence in it from 0 to 1, and a one-paragraph summary.`
+  );
+  return lines.join("\n");
+}
+
+// Points from different critics count as the same when they match ignoring case, spacing and final punctuation
+function pointKey(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, " ").replace(/[\s.!;:,]+$/, "").trim();
+}
+
+function mergePoints<V extends object>(entries: { key: string; source: string; value: V }[]): (V & { sources: string[] })[] {
+  const merged = new Map<string, V & { sources: string[] }>();
+  for (const { key, source, value } of entries) {
+    const existing = merged.get(key);
+    if (existing) {
+      if (!existing.sources.includes(source)) existing.sources.push(source);
+    } else {
+      merged.set(key, { ...value, sources: [source] });
+    }
+  }
+  // Points more critics raised first; otherwise in the order they came
+  return [...merged.values()].sort((a, b) => b.sources.length - a.sources.length);
+}
+
+export function summarizeCritiques(runs: CritiqueRun[]): SecondOpinion {
+  const critiques = runs.filter((run): run is CritiqueRun & { critique: Critique } => run.critique !== undefined);
+  const verdicts: Record<Verdict, number> = { agree: 0, partially_agree: 0, disagree: 0 };
+  for (const { critique } of critiques) verdicts[critique.verdict]++;
+
+  // Most common verdict; ties go to the more critical one
+  const verdict = [...VERDICTS].reverse().reduce((best, candidate) => verdicts[candidate] > verdicts[best] ? candidate : best, "disagree" as Verdict);
+  const mean = critiques.length > 0 ? critiques.reduce((sum, { critique }) => sum + critique.confidence, 0) / critiques.length : 0;
+  const consensus = critiques.length > 0 ? verdicts[verdict] / critiques.length : 0;
+  const level: ConfidenceLevel = consensus === 1 && mean >= 0.7 ? "high" : consensus > 0.5 && mean >= 0.4 ? "medium" : "low";
+
+  return {
+    verdict,
+    agreements: mergePoints(critiques.flatMap(({ source, critique }) =>
+      critique.agreements.map((text) => ({ key: pointKey(text), source, value: { text: text.trim() } })))),
+    disagreements: mergePoints(critiques.flatMap(({ source, critique }) =>
+      critique.disagreements.map((disagreement) => ({ key: pointKey(disagreement.point), source, value: disagreement })))),
+    missing: mergePoints(critiques.flatMap(({ source, critique }) =>
+      critique.missing.map((text) => ({ key: pointKey(text), source, value: { text: text.trim() } })))),
+    confidence: {
+      level,
+      mean: Math.round(mean * 100) / 100,
+      consensus: Math.round(consensus * 100) / 100,
+      verdicts,
+      critiques: critiques.length,
+      failed: runs.length - critiques.length
+    },
+    runs
+  };
+}
+
+export function formatSecondOpinion(opinion: SecondOpinion): string {
+  const { confidence } = opinion;
+  const multiple = opinion.runs.length > 1;
+  const by = (sources: string[]) => multiple ? ` (${sources.join(", ")})` : "";
+  if (confidence.critiques === 0) {
+    return ["No critique: every run failed", ...opinion.runs.map((run) => `- ${run.source}: [${run.error?.code}] ${run.error?.message}`)].join("\n");
+  }
+  const lines = [
+    `Verdict: ${opinion.verdict.replace("_", " ")}, ${confidence.level} confidence ` +
+      `(${confidence.critiques} critique(s), mean confidence ${confidence.mean}` +
+      (multiple ? `, ${Math.round(confidence.consensus * 100)}% share the verdict` : "") + ")"
+  ];
+  if (opinion.agreements.length > 0) {
+    lines.push("", "Agreements:", ...opinion.agreements.map((point) => `- ${point.text}${by(point.sources)}`));
+  }
+  if (opinion.disagreements.length > 0) {
+    lines.push("", "Disagreements:", ...opinion.disagreements.map((point) =>
+      `- ${point.point}: ${point.reason}${point.correction ? ` Correction: ${point.correction}` : ""}${by(point.sources)}`));
+  }
+  if (opinion.missing.length > 0) {
+    lines.push("", "Missing:", ...opinion.missing.map((point) => `- ${point.text}${by(point.sources)}`));
+  }
+  for (const run of opinion.runs) {
+    if (run.critique?.summary) lines.push("", `${multiple ? `${run.source}: ` : ""}${run.critique.summary}`);
+    if (run.error) lines.push("", `${run.source} failed: [${run.error.code}] ${run.error.message}`);
+  }
+  return lines.join("\n");
+}
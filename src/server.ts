@@ -1,312 +1,1899 @@
 #!/usr/bin/env node
 
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { SetLevelRequestSchema, LoggingLevel, CallToolResult, ServerRequest, ServerNotification } from "@modelcontextprotocol/sdk/types.js";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
 import { z } from "zod";
-import { spawn, execSync } from "child_process";
+import { completable } from "@modelcontextprotocol/sdk/server/completable.js";
+import { randomUUID } from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import { ConversationStore, ConversationNotFoundError, DEFAULT_HISTORY_BUDGET } from "./conversations.js";
+import { createStorage, MemoryStorage, ExchangeRecord, StorageBackend, RetentionPolicy } from "./storage.js";
+import { loadConfig, defaultConfig, buildChildEnv, buildCliArgs, inheritedEnv, ServerConfig } from "./config.js";
+import { preprocessMessage, escapeReferences, resolveWorkingDirectory, resolveOutputPath, expandGlob, PreprocessResult } from "./files.js";
+import { collectFiles, formatManifest, packContext, PackedContext } from "./codebase.js";
+import {
+  DiffChunk,
+  DiffTarget,
+  ReviewFinding,
+  REVIEW_SCHEMA,
+  buildReviewPrompt,
+  chunkDiff,
+  collectDiff,
+  formatFindings,
+  mergeFindings,
+  splitDiff
+} from "./review.js";
+import { Critique, CRITIQUE_SCHEMA, MAX_CRITIQUES, buildCritiquePrompt, formatSecondOpinion, isCritique, summarizeCritiques } from "./second-opinion.js";
+import { ParsedOutput } from "./output-parser.js";
+import { GeminiError, CliNotFoundError, CancelledError, SchemaMismatchError, errorResult, toGeminiError } from "./errors.js";
+import { withRetry, AttemptRecord, RetryOutcome } from "./retry.js";
+import { RateLimiter, QuotaSnapshot } from "./rate-limiter.js";
+import { ProcessPool, PoolSnapshot, Priority } from "./process-pool.js";
+import { TimeoutPolicy } from "./timeouts.js";
+import { ProgressReporter } from "./progress.js";
+import { JobManager, JobInfo } from "./jobs.js";
+import {
+  Backend,
+  BackendResult,
+  BackendRunOptions,
+  CliBackend,
+  GEMINI_BACKEND,
+  backendOrder,
+  createBackend,
+  shouldFallBack
+} from "./backends.js";
+import { McpHttpServer, MCP_PATH } from "./http-server.js";
+import { PromptTemplate, TemplateError, loadTemplates, renderTemplate, describeTemplate } from "./templates.js";
+import { BatchItem, BatchItemResult, runBatch, formatBatch } from "./batch.js";
+import { ResponseCache, CacheMode, cacheKey } from "./cache.js";
+import { AttachmentInput, loadAttachments, stageAttachments, withAttachmentReferences, describeAttachments } from "./attachments.js";
+import { JsonSchema, jsonSchemaToZod, extractJson, formatIssues, buildJsonPrompt, buildRepairPrompt } from "./json-output.js";
+import {
+  CONVERSATION_TEMPLATE,
+  REQUEST_TEMPLATE,
+  RAW_REQUEST_TEMPLATE,
+  LISTED_REQUESTS,
+  conversationUri,
+  requestUri,
+  rawRequestUri,
+  templateId,
+  formatConversationMarkdown,
+  formatRawOutput
+} from "./resources.js";
+import { CliProbeCache, DiagnosticsReport, LivePing, probeCli, summarizeErrors, assessHealth, formatDiagnostics } from "./diagnostics.js";
 
-// Create MCP server
-const server = new McpServer({
-  name: "gemini-cli",
-  version: "1.5.5",
-  description: "MCP server for interacting with Gemini CLI (one-shot mode)"
-});
+// Server configuration (loaded in main())
+let config: ServerConfig = defaultConfig();
+
+// Client-side conversation history (replayed on each one-shot call)
+const conversations = new ConversationStore(DEFAULT_HISTORY_BUDGET);
+
+// Request history storage (replaced by the configured backend in main())
+let storage: StorageBackend = new MemoryStorage();
+let retentionPolicy: RetentionPolicy = {};
+
+// Client-side quota enforcement (replaced with the configured limits in main())
+let rateLimiter = new RateLimiter(config.rateLimit);
+
+// Limits concurrent Gemini CLI processes (replaced with the configured size in main())
+let processPool = new ProcessPool(config.pool);
+
+// Background gemini_submit jobs (replaced with the configured TTL in main())
+let jobs = new JobManager(config.jobs);
+
+// Answers to repeated prompts (replaced with the configured cache in main())
+let responseCache = new ResponseCache(config.cache);
+
+// Cached probe of the configured CLI (PATH lookup, --version, credentials)
+const cliProbe = new CliProbeCache(() => probeCli(config.gemini.binary, buildChildEnv(config.gemini)));
 
 // Check if Gemini CLI is available
-function checkGeminiAvailable(): boolean {
-  try {
-    execSync('which gemini', { stdio: 'ignore' });
-    console.error('[Gemini MCP] Gemini CLI found in PATH');
-    return true;
-  } catch {
-    console.error('[Gemini MCP] Gemini CLI not found in PATH');
+async function ensureGeminiAvailable(): Promise<void> {
+  const { probe, cached } = await cliProbe.get();
+  if (!probe.binary.found) {
+    console.error(`[Gemini MCP] Gemini CLI not found in PATH: ${config.gemini.binary}`);
+    // Look again on the next call in case it gets installed
+    cliProbe.invalidate();
+    throw new CliNotFoundError(config.gemini.binary);
+  }
+  if (!cached) {
+    console.error(`[Gemini MCP] Gemini CLI found: ${probe.binary.path}` + (probe.binary.version ? ` (${probe.binary.version})` : ''));
+  }
+}
+
+interface RunOptions extends BackendRunOptions {
+  backend?: string;
+  // Try the configured fallback backends when the selected one is unavailable or over quota
+  fallback?: boolean;
+  priority?: Priority;
+}
+
+// Backends by name (rebuilt from the config in main())
+let backends = buildBackends();
+
+function buildBackends(): Map<string, Backend> {
+  const registry = new Map<string, Backend>();
+  registry.set(GEMINI_BACKEND, new CliBackend(GEMINI_BACKEND, "gemini-cli", {
+    command: config.gemini.binary,
+    buildArgs: (model, includeDirectories) => buildCliArgs(config.gemini, model, includeDirectories),
+    env: buildChildEnv(config.gemini),
+    output: "gemini",
+    timeouts: config.timeouts,
+    checkAvailable: ensureGeminiAvailable,
+    onNotFound: () => cliProbe.invalidate()
+  }));
+  for (const [name, definition] of Object.entries(config.backends.definitions)) {
+    if (name === GEMINI_BACKEND) continue;
+    registry.set(name, createBackend(name, definition, config.timeouts, inheritedEnv(config.gemini.envAllowList)));
+  }
+  return registry;
+}
+
+// Run one request on one backend once the rate limiter (Gemini only) and the process pool allow it
+async function runOnBackend(backend: Backend, message: string, options: RunOptions): Promise<BackendResult> {
+  if (options.signal?.aborted) throw new CancelledError();
+  if (backend.kind === "gemini-cli") await rateLimiter.acquire(options.signal);
+  return processPool.run(
+    (slot) => backend.run(message, { ...options, onSpawn: (child) => slot.attach(child) }),
+    { priority: options.priority, signal: options.signal, label: message.substring(0, 80) }
+  );
+}
+
+// Run one request, falling back to the next backend when one is unavailable or over quota
+async function runPrompt(message: string, options: RunOptions = {}): Promise<BackendResult> {
+  const selected = options.backend ?? config.backends.default;
+  if (!backends.has(selected)) {
+    throw new GeminiError("INVALID_REQUEST", `Unknown backend "${selected}" (available: ${[...backends.keys()].join(", ")})`);
+  }
+  const order = options.fallback === false ? [selected] : backendOrder(selected, config.backends);
+  
+  let firstError: GeminiError | undefined;
+  for (const name of order) {
+    const backend = backends.get(name);
+    if (!backend) {
+      console.error(`[Gemini MCP] Skipping unknown fallback backend: ${name}`);
+      continue;
+    }
+    // HTTP backends only receive the prompt text, not the files it references
+    if (backend.kind === "http" && options.includeDirectories?.length) {
+      if (name === selected) {
+        throw new GeminiError("INVALID_REQUEST", `Backend ${name} cannot read attachments; use the Gemini CLI or another CLI backend`);
+      }
+      console.error(`[Gemini MCP] Skipping fallback backend ${name}: it cannot read attachments`);
+      continue;
+    }
     try {
-      // Try to run gemini directly
-      execSync('gemini --version', { stdio: 'ignore' });
-      console.error('[Gemini MCP] Gemini CLI is available');
-      return true;
-    } catch {
-      console.error('[Gemini MCP] Cannot execute gemini command');
-      return false;
+      return await runOnBackend(backend, message, options);
+    } catch (error) {
+      const geminiError = toGeminiError(error);
+      if (!shouldFallBack(geminiError)) throw geminiError;
+      firstError ??= geminiError;
+      console.error(`[Gemini MCP] Backend ${name} failed (${geminiError.code}), trying the next one`);
     }
   }
+  throw firstError!;
 }
 
-// Helper function to send message and get response in one shot
-async function sendOneShot(message: string): Promise<string> {
-  return new Promise((resolve, reject) => {
-    console.error(`[Gemini MCP] Sending: ${message.substring(0, 50)}...`);
-    
-    // Spawn gemini process directly (no shell)
-    const geminiProcess = spawn('gemini', [], {
-      stdio: ['pipe', 'pipe', 'pipe'],
-      env: { ...process.env },
-      cwd: process.cwd()
+// Summarize warnings and errors the CLI printed alongside a successful answer
+function formatCliNotices(parsed: ParsedOutput, attempts: AttemptRecord[] = []): string {
+  const lines: string[] = [];
+  for (const attempt of attempts.filter((record) => record.outcome === "error")) {
+    lines.push(`- Attempt ${attempt.attempt} failed (${attempt.errorCode}), retried after ${attempt.delayMs}ms`);
+  }
+  for (const warning of parsed.warnings) {
+    lines.push(...warning.split("\n").map((line) => `- Warning: ${line}`));
+  }
+  for (const error of parsed.errors) {
+    lines.push(`- Error: ${error.split("\n")[0].substring(0, 300)}`);
+  }
+  return lines.length > 0 ? `[Gemini CLI notices]\n${lines.join("\n")}` : "";
+}
+
+// Re-prompts gemini_send_json makes when an answer is not valid JSON for the schema
+const DEFAULT_JSON_REPAIRS = 2;
+
+// Prompt templates by name (loaded in main())
+let templates = new Map<string, PromptTemplate>();
+
+// Prompt arguments are strings; enum arguments offer their values as completions
+function promptArgsSchema(template: PromptTemplate): Record<string, z.ZodTypeAny> {
+  return Object.fromEntries(template.arguments.map((argument) => {
+    const described = (argument.required ? z.string() : z.string().optional())
+      .describe(argument.description ?? argument.name);
+    const values = argument.values;
+    return [argument.name, values ? completable(described, (value) => values.filter((option) => option.startsWith(value ?? ""))) : described];
+  }));
+}
+
+// Connected MCP servers (one per client session), told when the resource list changes
+const liveServers = new Set<McpServer>();
+
+function notifyResourceListChanged(): void {
+  for (const server of liveServers) {
+    server.sendResourceListChanged();
+  }
+}
+
+// Persist an exchange without delaying the tool response
+let appendsSinceRetention = 0;
+function recordExchange(record: ExchangeRecord): void {
+  storage.appendExchange(record)
+    .then(async () => {
+      notifyResourceListChanged();
+      // Enforce retention periodically rather than on every append
+      if (++appendsSinceRetention >= 50) {
+        appendsSinceRetention = 0;
+        const { removed } = await storage.applyRetention(retentionPolicy);
+        if (removed > 0) console.error(`[Gemini MCP] Retention removed ${removed} old exchange(s)`);
+      }
+    })
+    .catch((error) => {
+      console.error(`[Gemini MCP] Failed to record exchange: ${error}`);
     });
+}
+
+// Options for running one prompt, shared by every tool that runs prompts
+const runOptionsSchema = {
+  backend: z.string().optional().describe("Backend to run the prompt on (default: the configured default, normally \"gemini\")"),
+  working_directory: z.string().optional().describe("Working directory for Gemini and @path resolution"),
+  model: z.string().optional().describe("Gemini model to use (default: the configured model or the CLI default)"),
+  max_attempts: z.number().int().positive().optional().describe("Maximum attempts including retries (default: configured retry policy)"),
+  priority: z.enum(["high", "normal", "low"]).optional().describe("Position in line when all process slots are busy (default: normal)"),
+  timeout_seconds: z.number().min(0).optional().describe("Overall time limit per attempt, 0 for none (default: configured)"),
+  idle_timeout_seconds: z.number().min(0).optional().describe("Time limit without new output once output has started, 0 for none (default: configured)"),
+  first_byte_timeout_seconds: z.number().min(0).optional().describe("Time limit for the first output, 0 for none (default: configured)"),
+  cache: z.enum(["use", "bypass", "refresh"]).optional().describe("Response cache, when enabled: answer repeated prompts from it (use), skip it (bypass) or run again and replace the entry (refresh). Default: use")
+};
+
+// Run options plus conversation history, for tools that send a single prompt
+const sendOptionsSchema = {
+  ...runOptionsSchema,
+  conversation_id: z.string().optional().describe("Conversation to continue (created on first use). Omit for a stateless message"),
+  max_history_chars: z.number().int().positive().optional().describe(`Character budget for the replayed history including the new message (default: ${DEFAULT_HISTORY_BUDGET})`)
+};
+
+// Files (screenshots, PDFs, documents) staged for one request and referenced from the prompt
+const attachmentsSchema = z.array(z.object({
+  data: z.string().optional().describe("Base64 content, e.g. from MCP image content or a blob resource"),
+  text: z.string().optional().describe("Text content, e.g. from a text resource"),
+  uri: z.string().optional().describe("file: URI inside the allowed roots, or a base64 data: URI"),
+  mime_type: z.string().optional().describe("MIME type (detected from the content for common image formats and PDF)"),
+  name: z.string().optional().describe("File name shown to Gemini")
+})).optional().describe("Files for Gemini to read with the message, each given by exactly one of data, text and uri");
+
+// Arguments shared by gemini_send and gemini_submit
+const sendInputSchema = {
+  message: z.string().describe("The message to send to Gemini. Supports @path file references"),
+  attachments: attachmentsSchema,
+  ...sendOptionsSchema
+};
+
+interface SendArgs {
+  message: string;
+  // Absolute paths already referenced in message; set to skip @path expansion (e.g. for inlined file contents)
+  references?: string[];
+  attachments?: AttachmentInput[];
+  backend?: string;
+  working_directory?: string;
+  model?: string;
+  conversation_id?: string;
+  max_history_chars?: number;
+  max_attempts?: number;
+  priority?: Priority;
+  timeout_seconds?: number;
+  idle_timeout_seconds?: number;
+  first_byte_timeout_seconds?: number;
+  cache?: CacheMode;
+}
+
+// Per-call timeout overrides (seconds) for the configured policy
+function timeoutOverrides(args: SendArgs): Partial<TimeoutPolicy> {
+  const overrides: Partial<TimeoutPolicy> = {};
+  if (args.timeout_seconds !== undefined) overrides.totalMs = args.timeout_seconds * 1000;
+  if (args.idle_timeout_seconds !== undefined) overrides.idleMs = args.idle_timeout_seconds * 1000;
+  if (args.first_byte_timeout_seconds !== undefined) overrides.firstByteMs = args.first_byte_timeout_seconds * 1000;
+  return overrides;
+}
+
+// Cache key for a prompt on a backend; the CLI version is part of it for the Gemini CLI
+async function responseCacheKey(
+  prompt: string,
+  files: string[],
+  attachments: string[],
+  backend: string,
+  model: string | undefined
+): Promise<string> {
+  let cliVersion: string | undefined;
+  if (backends.get(backend)?.kind === "gemini-cli") {
+    cliVersion = (await cliProbe.get()).probe.binary.version;
+  }
+  return cacheKey({ prompt, files, attachments, backend, model: model ?? (backend === GEMINI_BACKEND ? config.gemini.defaultModel : undefined), cliVersion });
+}
+
+// Hooks for whoever runs the request (a tool call or a background job)
+interface SendContext {
+  signal?: AbortSignal;
+  onAttempt?: (attempt: number) => void;
+  onOutput?: (stream: "stdout" | "stderr", chunk: string) => void;
+}
+
+// Run a gemini_send request end to end; failures are returned as error results
+async function executeSend(args: SendArgs, context: SendContext = {}): Promise<CallToolResult> {
+  const { message, backend, working_directory, model, conversation_id, max_history_chars, max_attempts, priority } = args;
+  const cacheMode = args.cache ?? "use";
+  const requestedBackend = backend ?? config.backends.default;
+  const timeouts = timeoutOverrides(args);
+  const startTime = Date.now();
+  const exchangeId = randomUUID();
+  let prompt = message;
+  
+  try {
+    console.error(`[Gemini MCP] Starting request at ${new Date().toISOString()}`);
     
-    let output = '';
-    let error = '';
-    let lastDataTime = Date.now();
-    let timeoutHandle: NodeJS.Timeout;
-    let hasReceivedData = false;
+    const allowedRoots = config.files.allowedRoots;
+    const cwd = resolveWorkingDirectory(working_directory, allowedRoots);
+    const preprocessed = args.references ? { message, references: args.references } : preprocessMessage(message, cwd, allowedRoots);
+    if (preprocessed.references.length > 0) {
+      console.error(`[Gemini MCP] Message preprocessed with ${preprocessed.references.length} file path(s)`);
+    }
+    prompt = preprocessed.message;
     
-    // Handle stdin errors
-    geminiProcess.stdin.on('error', (err) => {
-      console.error(`[Gemini MCP] stdin error: ${err.message}`);
-      reject(new Error(`Failed to write to Gemini process: ${err.message}`));
-    });
+    if (conversation_id) {
+      const built = conversations.buildPrompt(conversation_id, preprocessed.message, max_history_chars);
+      prompt = built.prompt;
+      console.error(`[Gemini MCP] Conversation ${conversation_id}: replaying ${built.includedTurns} turns (${built.droppedTurns} dropped)`);
+    }
+    
+    const attachments = args.attachments?.length ? await loadAttachments(args.attachments, config.attachments, allowedRoots) : [];
+    // The staged files are gone after this request, so history only notes them
+    const historyMessage = attachments.length > 0 ? `${preprocessed.message}\n${describeAttachments(attachments)}` : preprocessed.message;
     
-    // Write message to stdin
+    let key: string | undefined;
+    if (responseCache.enabled && cacheMode === "bypass") {
+      responseCache.skip();
+    } else if (responseCache.enabled) {
+      key = await responseCacheKey(
+        prompt,
+        preprocessed.references,
+        attachments.map((attachment) => `${attachment.mimeType}:${attachment.sha256}`),
+        requestedBackend,
+        model
+      );
+      if (cacheMode === "refresh") responseCache.skip();
+      const cached = cacheMode === "use" ? await responseCache.get(key) : undefined;
+      if (cached) {
+        console.error(`[Gemini MCP] Answered from the response cache (stored ${cached.storedAt})`);
+        recordExchange({
+          id: exchangeId,
+          timestamp: new Date(startTime).toISOString(),
+          conversationId: conversation_id,
+          message,
+          prompt,
+          response: cached.response,
+          stdout: "",
+          stderr: "",
+          exitCode: 0,
+          durationMs: Date.now() - startTime,
+          attempts: 0,
+          backend: cached.backend,
+          cached: true
+        });
+        if (conversation_id) {
+          conversations.appendExchange(conversation_id, historyMessage, cached.response);
+        }
+        const content: { type: "text"; text: string }[] = [{ type: "text", text: cached.response }];
+        if (cached.notices) {
+          content.push({ type: "text", text: cached.notices });
+        }
+        return {
+          content,
+          _meta: { attempts: [], backend: cached.backend, resource: requestUri(exchangeId), cache: { status: "hit", storedAt: cached.storedAt } }
+        };
+      }
+    }
+    
+    const staged = attachments.length > 0 ? await stageAttachments(attachments, config.attachments.directory) : undefined;
+    if (staged) {
+      prompt = withAttachmentReferences(prompt, attachments, staged.files);
+      console.error(`[Gemini MCP] Staged ${attachments.length} attachment(s) in ${staged.directory}`);
+    }
+    
+    const retryPolicy = max_attempts ? { ...config.retry, maxAttempts: max_attempts } : config.retry;
+    let run: RetryOutcome<BackendResult>;
     try {
-      geminiProcess.stdin.write(message + '\n');
-      geminiProcess.stdin.end();
-    } catch (err) {
-      console.error(`[Gemini MCP] Failed to write message: ${err}`);
-      reject(new Error(`Failed to send message to Gemini: ${err}`));
-      return;
+      run = await withRetry(
+        (attempt) => {
+          context.onAttempt?.(attempt);
+          return runPrompt(prompt, {
+            backend,
+            model,
+            cwd,
+            priority,
+            timeouts,
+            signal: context.signal,
+            onOutput: context.onOutput,
+            includeDirectories: staged ? [staged.directory] : undefined
+          });
+        },
+        retryPolicy,
+        { signal: context.signal }
+      );
+    } finally {
+      await staged?.cleanup();
     }
+    const { value: result, attempts } = run;
+    const response = result.response;
     
-    // Reset timeout whenever we receive data
-    const resetTimeout = () => {
-      if (timeoutHandle) clearTimeout(timeoutHandle);
-      timeoutHandle = setTimeout(() => {
-        console.error('[Gemini MCP] No data received for 60 seconds, assuming complete');
-        geminiProcess.kill();
-      }, 60000); // 60 second timeout since last data
-    };
+    const duration = Date.now() - startTime;
+    console.error(`[Gemini MCP] Request completed in ${duration}ms`);
     
-    resetTimeout();
+    recordExchange({
+      id: exchangeId,
+      timestamp: new Date(startTime).toISOString(),
+      conversationId: conversation_id,
+      message,
+      prompt,
+      response,
+      stdout: result.stdout,
+      stderr: result.stderr,
+      exitCode: result.exitCode,
+      durationMs: duration,
+      attempts: attempts.length,
+      backend: result.backend
+    });
     
-    geminiProcess.stdout.on('data', (data) => {
-      const chunk = data.toString();
-      output += chunk;
-      hasReceivedData = true;
-      lastDataTime = Date.now();
-      resetTimeout();
-      
-      // Log first data received
-      if (!hasReceivedData) {
-        console.error(`[Gemini MCP] Started receiving response`);
+    if (conversation_id) {
+      conversations.appendExchange(conversation_id, historyMessage, response);
+    }
+    
+    const content: { type: "text"; text: string }[] = [{
+      type: "text",
+      text: response
+    }];
+    
+    // Surface CLI warnings and recovered errors separately from the answer
+    const notices = formatCliNotices(result.parsed, attempts);
+    if (notices) {
+      content.push({
+        type: "text",
+        text: notices
+      });
+    }
+    
+    if (key && result.backend === requestedBackend) {
+      // Stored without waiting; a failed disk write only costs a later cache miss
+      void responseCache.set(key, { response, notices, backend: result.backend });
+    } else if (key) {
+      // The key names the requested backend, so a fallback's answer must not be stored under it
+      console.error(`[Gemini MCP] Not caching the answer from fallback backend ${result.backend}`);
+    }
+    
+    return {
+      content,
+      _meta: {
+        attempts,
+        backend: result.backend,
+        resource: requestUri(exchangeId),
+        ...(responseCache.enabled ? { cache: { status: cacheMode === "use" ? "miss" : cacheMode } } : {})
       }
-      
-      // Log progress for long responses
-      if (output.length % 1000 === 0) {
-        console.error(`[Gemini MCP] Receiving data... ${output.length} chars so far`);
+    };
+    
+  } catch (error) {
+    console.error(`[Gemini MCP] Error: ${error}`);
+    const geminiError = error instanceof GeminiError ? error : undefined;
+    recordExchange({
+      id: exchangeId,
+      timestamp: new Date(startTime).toISOString(),
+      conversationId: conversation_id,
+      message,
+      prompt,
+      response: "",
+      stdout: geminiError?.stdout ?? "",
+      stderr: geminiError?.stderr ?? "",
+      exitCode: geminiError?.exitCode ?? null,
+      durationMs: Date.now() - startTime,
+      error: error instanceof Error ? error.message : String(error),
+      errorCode: geminiError?.code,
+      attempts: geminiError?.attempts?.length
+    });
+    return errorResult(error);
+  }
+}
+
+// Run a prompt whose answer must be JSON matching schema, re-prompting with the
+// validation errors up to repairs times; the value is returned as structuredContent
+async function executeJson(args: SendArgs, schema: JsonSchema, repairs: number, context: SendContext = {}): Promise<CallToolResult> {
+  let validator: z.ZodTypeAny;
+  let preprocessed: PreprocessResult;
+  try {
+    validator = jsonSchemaToZod(schema);
+    // Resolve @path references once; repair runs reuse them rather than expanding the quoted answer
+    const allowedRoots = config.files.allowedRoots;
+    preprocessed = args.references
+      ? { message: args.message, references: args.references }
+      : preprocessMessage(args.message, resolveWorkingDirectory(args.working_directory, allowedRoots), allowedRoots);
+  } catch (error) {
+    return errorResult(error);
+  }
+  const jsonPrompt = buildJsonPrompt(preprocessed.message, schema);
+  let prompt = jsonPrompt;
+  for (let run = 0; ; run++) {
+    const result = await executeSend({ ...args, message: prompt, references: preprocessed.references }, context);
+    if (result.isError) return result;
+
+    const first = result.content[0];
+    const answer = first?.type === "text" ? first.text : "";
+    const extracted = extractJson(answer);
+    let issues: string[];
+    if (extracted.ok) {
+      const checked = validator.safeParse(extracted.value);
+      if (checked.success) {
+        const value = extracted.value;
+        const isObject = value !== null && typeof value === "object" && !Array.isArray(value);
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify(value, null, 2)
+          }],
+          structuredContent: isObject ? value as Record<string, unknown> : { result: value },
+          _meta: { ...result._meta, repairs: run }
+        };
       }
+      issues = formatIssues(checked.error);
+    } else {
+      issues = [extracted.error];
+    }
+
+    console.error(`[Gemini MCP] JSON answer rejected (${issues.length} issue(s))${run < repairs ? ", asking again" : ""}`);
+    if (run >= repairs) {
+      return errorResult(new SchemaMismatchError(issues, answer, run + 1));
+    }
+    prompt = buildRepairPrompt(jsonPrompt, escapeReferences(answer), issues);
+  }
+}
+
+function formatJob(job: JobInfo): string {
+  const seconds = Math.round(job.elapsedMs / 1000);
+  const timing = job.state === "running" ? `running for ${seconds}s` : `${job.state} after ${seconds}s`;
+  return `Job ${job.id}: ${timing}, ${job.bytesReceived} bytes received` +
+    (job.expiresAt ? `, result kept until ${job.expiresAt}` : "");
+}
+
+// Window for the error rate reported by gemini_status
+const RECENT_ERROR_WINDOW_MINUTES = 60;
+
+// Shared filters for the history tools
+const historyFilterSchema = {
+  query: z.string().optional().describe("Case-insensitive text to match in the message or response"),
+  conversation_id: z.string().optional().describe("Only exchanges from this conversation"),
+  since: z.string().optional().describe("Only exchanges at or after this ISO timestamp"),
+  until: z.string().optional().describe("Only exchanges at or before this ISO timestamp"),
+  errors_only: z.boolean().optional().describe("Only failed exchanges"),
+  limit: z.number().int().positive().optional().describe("Maximum number of exchanges, newest first")
+};
+
+function truncate(text: string, length: number): string {
+  const singleLine = text.replace(/\s+/g, " ").trim();
+  return singleLine.length > length ? `${singleLine.substring(0, length)}...` : singleLine;
+}
+
+function formatExchangeMarkdown(record: ExchangeRecord): string {
+  const lines = [`## ${record.timestamp} (${record.id})`];
+  if (record.conversationId) {
+    lines.push(`Conversation: ${record.conversationId}`);
+  }
+  lines.push(
+    `Exit code: ${record.exitCode}, duration: ${record.durationMs}ms${record.error ? `, error: ${record.error}` : ""}`,
+    "",
+    "### Message",
+    record.message,
+    "",
+    "### Response",
+    record.response || "(empty)"
+  );
+  return lines.join("\n");
+}
+
+function formatLimit(value: number | null, limit: number): string {
+  return limit > 0 && value !== null ? `${value}/${limit}` : "unlimited";
+}
+
+function formatQuota(quota: QuotaSnapshot): string {
+  return [
+    "Gemini quota (client-side tracking):",
+    `- Per minute: ${formatLimit(quota.perMinute.available, quota.perMinute.limit)} available`,
+    `- Today: ${quota.perDay.used} used, ${formatLimit(quota.perDay.remaining, quota.perDay.limit)} remaining (resets ${quota.perDay.resetsAt})`,
+    `- Queue: ${quota.queue.depth}/${quota.queue.maxSize} waiting`
+  ].join("\n");
+}
+
+function formatProcesses(pool: PoolSnapshot): string {
+  const lines = [`Gemini processes: ${pool.active.length}/${pool.maxConcurrency} active, ${pool.waiting} waiting`];
+  for (const entry of pool.active) {
+    lines.push(`- ${entry.pid ?? "starting"} (${entry.priority}, ${Math.round(entry.elapsedMs / 1000)}s): ${entry.label}`);
+  }
+  return lines.join("\n");
+}
+
+// Create an MCP server with every tool registered. Each client session gets its own
+// server; configuration, storage, quotas, processes and jobs are shared by all of them.
+function createServer(): McpServer {
+  const server = new McpServer({
+    name: "gemini-cli",
+    version: "1.5.5",
+    description: "MCP server for interacting with Gemini CLI (one-shot mode)"
+  }, {
+    capabilities: {
+      logging: {}
+    }
+  });
+
+  // Minimum level for logging messages, as set by this client
+  let clientLogLevel: LoggingLevel | undefined;
+  server.server.setRequestHandler(SetLevelRequestSchema, async (request) => {
+    clientLogLevel = request.params.level;
+    return {};
+  });
+
+  // Run prompts with progress notifications (and optional partial output) for this request
+  const withProgress = async <T>(
+    extra: RequestHandlerExtra<ServerRequest, ServerNotification>,
+    streamPartialOutput: boolean | undefined,
+    run: (context: SendContext) => Promise<T>
+  ): Promise<T> => {
+    const progress = new ProgressReporter({
+      progressToken: extra._meta?.progressToken,
+      sendNotification: extra.sendNotification,
+      intervalMs: config.progress.intervalMs,
+      partialOutput: streamPartialOutput ?? config.progress.partialOutput,
+      logLevel: clientLogLevel
     });
     
-    geminiProcess.stderr.on('data', (data) => {
-      const chunk = data.toString();
-      error += chunk;
-      console.error(`[Gemini MCP] stderr: ${chunk}`);
-    });
+    progress.start();
+    try {
+      return await run({
+        signal: extra.signal,
+        onAttempt: (attempt) => progress.startAttempt(attempt),
+        onOutput: (stream, chunk) => progress.onOutput(stream, chunk)
+      });
+    } finally {
+      progress.stop();
+    }
+  };
+
+  // Progress notification (items done of total) as each item of a fan-out finishes
+  const itemProgress = (extra: RequestHandlerExtra<ServerRequest, ServerNotification>, total: number) =>
+    (result: BatchItemResult, done: number) => {
+      const progressToken = extra._meta?.progressToken;
+      if (progressToken === undefined) return;
+      extra.sendNotification({
+        method: "notifications/progress",
+        params: { progressToken, progress: done, total, message: `${result.label}: ${result.status}` }
+      }).catch(() => {});
+    };
+
+  liveServers.add(server);
+  server.server.onclose = () => {
+    liveServers.delete(server);
+  };
+
+  // Register conversation and request resources
+  server.registerResource(
+    "conversation",
+    new ResourceTemplate(CONVERSATION_TEMPLATE, {
+      list: async () => ({
+        resources: conversations.list().map((summary) => ({
+          uri: conversationUri(summary.id),
+          name: `Conversation ${summary.id}`,
+          description: `${summary.turnCount} turns, updated ${summary.updatedAt}`,
+          mimeType: "text/markdown"
+        }))
+      }),
+      complete: {
+        id: (value) => conversations.list()
+          .map((summary) => summary.id)
+          .filter((id) => id.startsWith(templateId(value)))
+          .map((id) => encodeURIComponent(id))
+      }
+    }),
+    {
+      title: "Gemini Conversation",
+      description: "Transcript of a client-side conversation, turn by turn",
+      mimeType: "text/markdown"
+    },
+    async (uri, { id }) => {
+      const conversation = conversations.get(templateId(id));
+      if (!conversation) {
+        throw new Error(`Conversation not found: ${templateId(id)}`);
+      }
+      return {
+        contents: [{
+          uri: uri.href,
+          mimeType: "text/markdown",
+          text: formatConversationMarkdown(conversation)
+        }]
+      };
+    }
+  );
+
+  server.registerResource(
+    "request-raw",
+    new ResourceTemplate(RAW_REQUEST_TEMPLATE, { list: undefined }),
+    {
+      title: "Gemini Request Output",
+      description: "Raw stdout and stderr captured from the process that served a request",
+      mimeType: "text/plain"
+    },
+    async (uri, { id }) => {
+      const record = await storage.getExchange(templateId(id));
+      if (!record) {
+        throw new Error(`Request not found: ${templateId(id)}`);
+      }
+      return {
+        contents: [{
+          uri: uri.href,
+          mimeType: "text/plain",
+          text: formatRawOutput(record)
+        }]
+      };
+    }
+  );
+
+  server.registerResource(
+    "request",
+    new ResourceTemplate(REQUEST_TEMPLATE, {
+      list: async () => ({
+        resources: (await storage.searchExchanges({ limit: LISTED_REQUESTS })).map((record) => ({
+          uri: requestUri(record.id),
+          name: `Request ${record.timestamp}`,
+          description: truncate(record.message, 100),
+          mimeType: "text/markdown"
+        }))
+      })
+    }),
+    {
+      title: "Gemini Request",
+      description: `A recorded request with its message and response (raw process output at ${RAW_REQUEST_TEMPLATE})`,
+      mimeType: "text/markdown"
+    },
+    async (uri, { id }) => {
+      const record = await storage.getExchange(templateId(id));
+      if (!record) {
+        throw new Error(`Request not found: ${templateId(id)}`);
+      }
+      return {
+        contents: [{
+          uri: uri.href,
+          mimeType: "text/markdown",
+          text: `${formatExchangeMarkdown(record)}\n\nRaw output: ${rawRequestUri(record.id)}`
+        }]
+      };
+    }
+  );
+
+  // Register main tool for sending messages
+  server.registerTool(
+    "gemini_send",
+    {
+      title: "Send Message to Gemini CLI",
+      description: `Send a message to Gemini CLI and receive the response using one-shot execution.
     
-    geminiProcess.on('close', (code) => {
-      if (timeoutHandle) clearTimeout(timeoutHandle);
-      
-      const duration = Date.now() - lastDataTime;
-      console.error(`[Gemini MCP] Process exited with code ${code} after ${duration}ms`);
-      console.error(`[Gemini MCP] Total output length: ${output.length}`);
-      console.error(`[Gemini MCP] Has received data: ${hasReceivedData}`);
-      
-      if (!hasReceivedData && error) {
-        console.error(`[Gemini MCP] No output received. Error: ${error}`);
-        reject(new Error(`Gemini failed to respond: ${error || 'No output received'}`));
-      } else if (code !== 0 && code !== null && !hasReceivedData) {
-        reject(new Error(`Gemini process failed (code ${code}): ${error || 'No output'}`));
-      } else {
-        // Parse the complex output from Gemini CLI
-        console.error(`[Gemini MCP] Raw output first 500 chars: ${output.substring(0, 500)}`);
-        console.error(`[Gemini MCP] Raw output last 500 chars: ${output.substring(output.length - 500)}`);
-        
-        let cleanedOutput = output;
-        
-        // Method 1: Find content after "Loaded cached credentials."
-        const credentialsIndex = output.lastIndexOf('Loaded cached credentials.');
-        if (credentialsIndex !== -1) {
-          const afterCredentials = output.substring(credentialsIndex + 'Loaded cached credentials.'.length).trim();
-          if (afterCredentials.length > 0) {
-            cleanedOutput = afterCredentials;
-            console.error(`[Gemini MCP] Found response after credentials: ${cleanedOutput.substring(0, 100)}...`);
-          }
+Each Gemini CLI run is stateless. Pass a conversation_id to keep multi-turn context:
+prior turns for that id are replayed as a transcript before the new message
+(oldest turns are dropped once the history budget is exceeded).
+
+@path references are resolved against working_directory (default: the server's
+working directory) and expanded to absolute paths. References outside the
+configured allowed roots are refused.
+
+Quota errors and other transient failures are retried with exponential backoff
+(honoring any retry delay Gemini reports); attempts are listed in the result _meta.
+
+Only a limited number of Gemini processes run at once; other calls wait in line
+by priority. Cancelling the request kills the Gemini process.
+
+When the request carries a progress token, progress notifications report the
+elapsed time and characters received. With stream_partial_output, answer text is
+also sent as "info" logging messages as it arrives.
+
+Each run is stopped when it prints nothing for first_byte_timeout_seconds, stops
+printing for idle_timeout_seconds, or exceeds timeout_seconds; the error names the
+limit and includes any partial answer.
+
+The prompt runs on the Gemini CLI unless backend names another configured backend
+(a CLI command or an OpenAI-compatible endpoint). When the backend is unavailable or
+over quota, the configured fallback backends are tried in order; _meta.backend
+names the one that answered.
+
+When the response cache is enabled, a repeated prompt (same text, referenced file
+contents, backend, model and CLI version) is answered from the cache without running
+Gemini; pass cache "bypass" or "refresh" to skip or replace the cached answer.
+
+attachments passes files such as screenshots or PDFs (base64 data, text, or a file:
+or data: URI). They are checked against the size and type limits, written to a
+temporary directory for this request only and referenced from the prompt.
+
+For prompts that may outlast the client's request timeout, use gemini_submit.
+
+Features:
+- Instant execution without tmux
+- File context support with @filename  
+- Handles Korean and English input
+- Web search capabilities
+- Optional client-side conversation history`,
+      inputSchema: {
+        ...sendInputSchema,
+        stream_partial_output: z.boolean().optional().describe("Send answer text as logging messages while it arrives (default: configured)")
+      }
+    },
+    async ({ stream_partial_output, ...args }, extra) =>
+      withProgress(extra, stream_partial_output, (context) => executeSend(args, context))
+  );
+
+  // Register JSON tool
+  server.registerTool(
+    "gemini_send_json",
+    {
+      title: "Get JSON from Gemini",
+      description: `Send a message to Gemini and get a JSON answer that matches response_schema
+(a JSON Schema), returned as structuredContent.
+
+Gemini is told to answer with JSON only; the JSON is taken from the answer (bare, in a
+code fence or embedded in text) and validated. When it is missing or does not match,
+Gemini is asked again with the validation errors, up to max_repairs times.
+
+Supported schema keywords: type, properties, required, additionalProperties, items,
+enum, const, anyOf/oneOf/allOf, minLength/maxLength/pattern, minimum/maximum,
+exclusiveMinimum/exclusiveMaximum, multipleOf and minItems/maxItems ($ref is not).
+Objects are returned as structuredContent as is; other values under "result".`,
+      inputSchema: {
+        message: z.string().describe("The message to send to Gemini. Supports @path file references"),
+        attachments: attachmentsSchema,
+        response_schema: z.record(z.unknown()).describe("JSON Schema the answer must match"),
+        max_repairs: z.number().int().min(0).max(5).optional().describe(`Re-prompts after an invalid answer (default: ${DEFAULT_JSON_REPAIRS})`),
+        ...runOptionsSchema,
+        stream_partial_output: z.boolean().optional().describe("Send answer text as logging messages while it arrives (default: configured)")
+      }
+    },
+    async ({ message, response_schema, max_repairs, stream_partial_output, ...options }, extra) =>
+      withProgress(extra, stream_partial_output, (context) =>
+        executeJson({ ...options, message }, response_schema, max_repairs ?? DEFAULT_JSON_REPAIRS, context))
+  );
+
+  // Register template tool
+  server.registerTool(
+    "gemini_run_template",
+    {
+      title: "Run Gemini Prompt Template",
+      description: `Render a prompt template with its arguments and send the result to Gemini,
+exactly as gemini_send would (the same options apply; model and backend default to the template's).
+
+Templates are also available as MCP prompts. Available templates:
+${[...templates.values()].map((template) => `- ${describeTemplate(template)}`).join("\n") || "(none)"}`,
+      inputSchema: {
+        template: z.string().describe("Template name"),
+        arguments: z.record(z.union([z.string(), z.number(), z.boolean()])).optional().describe("Template arguments by name"),
+        ...sendOptionsSchema,
+        stream_partial_output: z.boolean().optional().describe("Send answer text as logging messages while it arrives (default: configured)")
+      }
+    },
+    async ({ template: name, arguments: templateArgs, stream_partial_output, ...options }, extra) => {
+      const template = templates.get(name);
+      let message: string;
+      try {
+        if (!template) {
+          throw new TemplateError(`Unknown template "${name}" (available: ${[...templates.keys()].join(", ") || "none"})`);
         }
-        
-        // Method 2: If output contains error but also has a response at the end
-        if (cleanedOutput.includes('Quota exceeded') || cleanedOutput.includes('quota limit')) {
-          // Look for the last substantial text block (not error messages)
-          const lines = cleanedOutput.split('\n');
-          let lastGoodContent = '';
-          let collectingContent = false;
-          
-          for (let i = lines.length - 1; i >= 0; i--) {
-            const line = lines[i].trim();
-            
-            // Skip empty lines
-            if (!line) continue;
-            
-            // Skip error-related lines
-            if (line.includes('at async') || 
-                line.includes('at process') || 
-                line.includes('Error:') || 
-                line.includes('node_modules') ||
-                line.includes('{') || 
-                line.includes('}') ||
-                line.includes('[') || 
-                line.includes(']')) {
-              continue;
-            }
-            
-            // If we find "Loaded cached credentials", we've gone too far back
-            if (line.includes('Loaded cached credentials.')) {
-              break;
+        message = renderTemplate(template, templateArgs);
+      } catch (error) {
+        return errorResult(error);
+      }
+      return withProgress(extra, stream_partial_output, (context) => executeSend({
+        ...options,
+        message,
+        model: options.model ?? template.model,
+        backend: options.backend ?? template.backend
+      }, context));
+    }
+  );
+
+  // Register batch tool
+  server.registerTool(
+    "gemini_batch",
+    {
+      title: "Run Many Gemini Prompts",
+      description: `Run many prompts at once and return a result per item.
+
+Pass either prompts (a list of messages) or glob (files under working_directory,
+e.g. "src/**/*.ts"). For a glob, each file becomes one prompt: prompt_template with
+{{file}} replaced by the file path (default "@{{file}}"), or the prompt template named
+by template with the file passed as file_argument.
+
+Items run concurrency at a time (default: configured) at low priority unless
+priority is given, and each one passes through the rate limiter and process pool
+like gemini_send. A failed item is reported with its error without stopping the rest;
+the result is an error only when every item failed. With a progress token, a progress
+notification is sent as each item finishes.`,
+      inputSchema: {
+        prompts: z.array(z.string()).optional().describe("Messages to send, one item each"),
+        glob: z.string().optional().describe("Files relative to working_directory, one item each (*, **, ?, {a,b}, [abc])"),
+        prompt_template: z.string().optional().describe("Message for each file, with {{file}} replaced by its path (default: \"@{{file}}\")"),
+        template: z.string().optional().describe("Prompt template (see gemini_run_template) to render for each file"),
+        arguments: z.record(z.union([z.string(), z.number(), z.boolean()])).optional().describe("Further arguments for template"),
+        file_argument: z.string().optional().describe("Template argument that receives the file path (default: \"path\")"),
+        concurrency: z.number().int().positive().optional().describe(`Items running at once (default: ${config.batch.concurrency})`),
+        ...runOptionsSchema
+      }
+    },
+    async ({ prompts, glob, prompt_template, template: templateName, arguments: templateArgs, file_argument, concurrency, ...options }, extra) => {
+      let items: BatchItem[];
+      let model = options.model;
+      let backend = options.backend;
+      try {
+        if ((prompts === undefined) === (glob === undefined)) {
+          throw new GeminiError("INVALID_REQUEST", "Pass either prompts or glob");
+        }
+        if (prompts) {
+          items = prompts.map((message) => ({ label: truncate(message, 60), message }));
+        } else {
+          const cwd = resolveWorkingDirectory(options.working_directory, config.files.allowedRoots);
+          const files = await expandGlob(glob!, cwd, config.batch.maxItems);
+          if (files.length === 0) {
+            throw new GeminiError("INVALID_REQUEST", `No files match ${glob} in ${cwd}`);
+          }
+          if (templateName) {
+            const template = templates.get(templateName);
+            if (!template) {
+              throw new TemplateError(`Unknown template "${templateName}" (available: ${[...templates.keys()].join(", ") || "none"})`);
             }
-            
-            // This looks like actual content
-            if (line.length > 10) {
-              lastGoodContent = line + (lastGoodContent ? '\n' + lastGoodContent : '');
-              collectingContent = true;
+            model ??= template.model;
+            backend ??= template.backend;
+            const argument = file_argument ?? "path";
+            items = files.map((file) => ({ label: file, file, message: renderTemplate(template, { ...templateArgs, [argument]: file }) }));
+          } else {
+            const text = prompt_template ?? "@{{file}}";
+            if (!text.includes("{{file}}")) {
+              throw new GeminiError("INVALID_REQUEST", "prompt_template must contain {{file}}");
             }
-          }
-          
-          if (lastGoodContent) {
-            cleanedOutput = lastGoodContent;
-            console.error(`[Gemini MCP] Extracted content from error output: ${cleanedOutput.substring(0, 100)}...`);
+            items = files.map((file) => ({ label: file, file, message: text.split("{{file}}").join(file) }));
           }
         }
-        
-        // Remove any remaining "Loaded cached credentials." if it's the only content
-        if (cleanedOutput.trim() === 'Loaded cached credentials.') {
-          cleanedOutput = '';
+        if (items.length > config.batch.maxItems) {
+          throw new GeminiError("INVALID_REQUEST", `A batch may contain at most ${config.batch.maxItems} items (got ${items.length})`);
         }
-        
-        console.error(`[Gemini MCP] Final response length: ${cleanedOutput.length} chars`);
-        
-        if (!cleanedOutput || cleanedOutput.length < 5) {
-          console.error(`[Gemini MCP] Warning: Response seems too short or empty`);
+      } catch (error) {
+        return errorResult(error);
+      }
+
+      const summary = await runBatch(
+        items,
+        (item) => executeSend({ ...options, model, backend, message: item.message, priority: options.priority ?? "low" }, { signal: extra.signal }),
+        {
+          concurrency: concurrency ?? config.batch.concurrency,
+          signal: extra.signal,
+          onItemDone: itemProgress(extra, items.length)
         }
-        
-        resolve(cleanedOutput);
+      );
+      return {
+        isError: summary.succeeded === 0 && summary.failed > 0,
+        content: [{
+          type: "text",
+          text: formatBatch(summary)
+        }],
+        structuredContent: { ...summary }
+      };
+    }
+  );
+
+  // Register codebase analysis tool
+  server.registerTool(
+    "gemini_analyze_codebase",
+    {
+      title: "Analyze Codebase with Gemini",
+      description: `Pack the files of a directory into one prompt and ask Gemini a question about them.
+
+Files under working_directory matching include (default: everything) and not exclude
+are taken in path order. .gitignore files are honored, .git and node_modules are never
+read and binary files are skipped. In "inline" mode (default) file contents are put in
+the prompt; in "reference" mode files are passed as @path references for the Gemini CLI
+to read.
+
+Files are added until the estimated token budget (about ${config.codebase.charsPerToken} characters per token) is used
+up. In inline mode, a file larger than the per-file limit or the rest of the budget is
+cut; files that do not fit are left out and listed for Gemini by name. The manifest of
+included, truncated and omitted files is returned with the answer and as structuredContent.`,
+      inputSchema: {
+        question: z.string().describe("What to ask about the code. Supports @path file references"),
+        include: z.array(z.string()).optional().describe("Globs of files to pack, relative to working_directory (default: [\"**/*\"])"),
+        exclude: z.array(z.string()).optional().describe("Globs of files to leave out"),
+        mode: z.enum(["inline", "reference"]).optional().describe("Put file contents in the prompt (inline) or reference them with @paths (default: inline)"),
+        token_budget: z.number().int().positive().optional().describe(`Estimated tokens for the packed prompt (default: ${config.codebase.tokenBudget})`),
+        max_file_kb: z.number().positive().optional().describe(`Size limit per file (default: ${Math.round(config.codebase.maxFileBytes / 1024)})`),
+        ...runOptionsSchema,
+        stream_partial_output: z.boolean().optional().describe("Send answer text as logging messages while it arrives (default: configured)")
       }
-    });
-    
-    geminiProcess.on('error', (err) => {
-      if (timeoutHandle) clearTimeout(timeoutHandle);
-      console.error(`[Gemini MCP] Process spawn error: ${err.message}`);
-      console.error(`[Gemini MCP] Error details:`, err);
-      
-      // Check if gemini is installed
-      if (err.message.includes('ENOENT')) {
-        reject(new Error('Gemini CLI not found. Please ensure gemini is installed and in PATH'));
-      } else {
-        reject(new Error(`Failed to start Gemini process: ${err.message}`));
+    },
+    async ({ question, include, exclude, mode, token_budget, max_file_kb, stream_partial_output, ...options }, extra) => {
+      let packed: PackedContext;
+      let questionReferences: string[];
+      try {
+        const allowedRoots = config.files.allowedRoots;
+        const cwd = resolveWorkingDirectory(options.working_directory, allowedRoots);
+        const preprocessed = preprocessMessage(question, cwd, allowedRoots);
+        questionReferences = preprocessed.references;
+        const packConfig = {
+          ...config.codebase,
+          ...(token_budget !== undefined ? { tokenBudget: token_budget } : {}),
+          ...(max_file_kb !== undefined ? { maxFileBytes: max_file_kb * 1024 } : {})
+        };
+        const collected = await collectFiles(cwd, { include: include ?? ["**/*"], exclude: exclude ?? [], maxFiles: packConfig.maxFiles });
+        if (collected.files.length === 0) {
+          throw new GeminiError("INVALID_REQUEST", `No files to analyze in ${cwd} (after include, exclude and .gitignore)`);
+        }
+        packed = await packContext(cwd, collected, preprocessed.message, mode ?? "inline", packConfig);
+        console.error(`[Gemini MCP] Packed ${packed.manifest.files.length} file(s) from ${cwd}, about ${packed.manifest.tokens} tokens`);
+      } catch (error) {
+        return errorResult(error);
       }
-    });
-  });
-}
 
-// Register main tool for sending messages
-server.registerTool(
-  "gemini_send",
-  {
-    title: "Send Message to Gemini CLI",
-    description: `Send a message to Gemini CLI and receive the response using one-shot execution.
-    
-This tool executes Gemini CLI in a stateless manner - each message is independent.
-No session management or conversation history is maintained.
+      return withProgress(extra, stream_partial_output, async (context) => {
+        const result = await executeSend({
+          ...options,
+          message: packed.prompt,
+          references: [...questionReferences, ...packed.references]
+        }, context);
+        if (result.isError) return result;
+        return {
+          ...result,
+          content: [...result.content, { type: "text", text: formatManifest(packed.manifest) }],
+          structuredContent: { manifest: packed.manifest }
+        };
+      });
+    }
+  );
 
-Features:
-- Instant execution without tmux
-- File context support with @filename  
-- Handles Korean and English input
-- Web search capabilities
-- No session state to manage`,
-    inputSchema: {
-      message: z.string().describe("The message to send to Gemini")
+  // Register diff review tool
+  server.registerTool(
+    "gemini_review_diff",
+    {
+      title: "Review a Git Diff with Gemini",
+      description: `Have Gemini review a git diff from working_directory and return its findings
+as a list of {file, line, severity, message}.
+
+By default the uncommitted changes (staged and unstaged, plus untracked files) are
+reviewed. Pass range for a commit range ("main..feature", "HEAD~3..HEAD"), or branch
+(and optionally base, default: origin's default branch, main or master) for what a
+branch adds since it forked.
+
+The diff is split by file into chunks of about max_chunk_kb (a larger file is split at
+its hunks), and each chunk is reviewed with its own prompt, a few at a time. Gemini's
+answers are validated like gemini_send_json. The findings are merged, deduplicated and
+sorted by severity (critical, major, minor, nit); line is the line in the new version
+of the file, or null for the file as a whole. A failed chunk is reported without
+stopping the others; the result is an error only when every chunk failed.`,
+      inputSchema: {
+        range: z.string().optional().describe("Commit range to review, e.g. \"main..feature\" or \"HEAD~3..HEAD\""),
+        branch: z.string().optional().describe("Branch to review against base"),
+        base: z.string().optional().describe("Base branch for branch (default: origin's default branch, main or master)"),
+        staged: z.boolean().optional().describe("Review only staged changes (working tree only, default: false)"),
+        include_untracked: z.boolean().optional().describe("Review untracked files as additions (working tree only, default: true)"),
+        paths: z.array(z.string()).optional().describe("Limit the diff to these paths (git pathspecs)"),
+        focus: z.string().optional().describe("What the review should pay particular attention to"),
+        max_chunk_kb: z.number().positive().optional().describe(`Diff size per review prompt (default: ${Math.round(config.review.maxChunkBytes / 1024)})`),
+        ...runOptionsSchema
+      }
+    },
+    async ({ range, branch, base, staged, include_untracked, paths, focus, max_chunk_kb, ...options }, extra) => {
+      let description: string;
+      let chunks: DiffChunk[];
+      let notReviewed: string[] = [];
+      try {
+        if (range !== undefined && (branch !== undefined || base !== undefined)) {
+          throw new GeminiError("INVALID_REQUEST", "Pass either range or branch/base, not both");
+        }
+        const target: DiffTarget = range !== undefined
+          ? { kind: "range", range }
+          : branch !== undefined || base !== undefined
+            ? { kind: "branch", branch: branch ?? "HEAD", base }
+            : { kind: "working-tree", staged: staged ?? false, untracked: include_untracked ?? true };
+        const cwd = resolveWorkingDirectory(options.working_directory, config.files.allowedRoots);
+        const collected = await collectDiff(target, cwd, paths);
+        description = collected.description;
+        chunks = chunkDiff(splitDiff(collected.diff), max_chunk_kb !== undefined ? max_chunk_kb * 1024 : config.review.maxChunkBytes);
+        if (chunks.length > config.review.maxChunks) {
+          const reviewed = new Set(chunks.slice(0, config.review.maxChunks).flatMap((chunk) => chunk.files));
+          notReviewed = [...new Set(chunks.slice(config.review.maxChunks).flatMap((chunk) => chunk.files))].filter((file) => !reviewed.has(file));
+          chunks = chunks.slice(0, config.review.maxChunks);
+        }
+        console.error(`[Gemini MCP] Reviewing ${description} in ${cwd}: ${chunks.length} chunk(s)`);
+      } catch (error) {
+        return errorResult(error);
+      }
+      if (chunks.length === 0) {
+        return {
+          content: [{ type: "text", text: `No ${description} to review.` }],
+          structuredContent: { target: description, findings: [], chunks: [], notReviewed: [] }
+        };
+      }
+
+      const findings: ReviewFinding[][] = [];
+      const items: BatchItem[] = chunks.map((chunk, index) => ({
+        label: chunk.files.length === 1 ? chunk.files[0] : `${chunk.files[0]} and ${chunk.files.length - 1} more`,
+        message: buildReviewPrompt(chunk, description, index + 1, chunks.length, focus)
+      }));
+      const summary = await runBatch(
+        items,
+        async (item, index) => {
+          // The prompt has every "@" escaped, so there are no file references to resolve
+          const result = await executeJson({ ...options, message: item.message, references: [] }, REVIEW_SCHEMA, DEFAULT_JSON_REPAIRS, { signal: extra.signal });
+          if (!result.isError) findings[index] = (result.structuredContent as { findings: ReviewFinding[] }).findings;
+          return result;
+        },
+        {
+          concurrency: config.batch.concurrency,
+          signal: extra.signal,
+          onItemDone: itemProgress(extra, items.length)
+        }
+      );
+
+      const merged = mergeFindings(findings.filter(Boolean));
+      const lines = [`Review of ${description}: ${chunks.length} chunk(s), ${summary.succeeded} reviewed`, "", formatFindings(merged)];
+      const failed = summary.items.filter((item) => item.status !== "succeeded");
+      if (failed.length > 0) {
+        lines.push("", "Not reviewed:", ...failed.map((item) => `- ${item.label}: ${item.error ? `[${item.error.code}] ${item.error.message}` : item.status}`));
+      }
+      if (notReviewed.length > 0) {
+        lines.push("", `Over the ${config.review.maxChunks}-chunk limit, not reviewed: ${notReviewed.join(", ")}`);
+      }
+      return {
+        isError: summary.succeeded === 0,
+        content: [{
+          type: "text",
+          text: lines.join("\n")
+        }],
+        structuredContent: {
+          target: description,
+          findings: merged,
+          chunks: summary.items.map((item, index) => ({
+            files: chunks[index].files,
+            truncated: chunks[index].truncated,
+            status: item.status,
+            ...(item.error ? { error: item.error } : {}),
+            ...(item.resource ? { resource: item.resource } : {})
+          })),
+          notReviewed
+        }
+      };
     }
-  },
-  async ({ message }) => {
-    try {
-      console.error(`[Gemini MCP] Starting request at ${new Date().toISOString()}`);
-      
-      // Check if Gemini is available
-      if (!checkGeminiAvailable()) {
+  );
+
+  // Register second opinion tool
+  server.registerTool(
+    "gemini_second_opinion",
+    {
+      title: "Get Gemini's Second Opinion",
+      description: `Have Gemini critique a proposed answer (typically your own) to a question and get
+back agreements, disagreements, missing points and a confidence summary as structuredContent.
+
+Gemini is asked to work out its own answer first and then compare. Pass models to ask
+several models, and samples to ask each one several times (at most ${MAX_CRITIQUES} critiques per
+call; samples skip the response cache so each one is a fresh run). Points raised by
+several critics are merged and list their sources. The overall verdict is the most
+common one (agree, partially_agree, disagree; ties go to the more critical); the
+confidence level is high when every critic shares the verdict with a mean confidence of
+at least 0.7, medium when most do, and low otherwise.`,
+      inputSchema: {
+        question: z.string().describe("The question that was answered. Supports @path file references"),
+        answer: z.string().describe("The proposed answer to critique (quoted as it is, @ is not a file reference)"),
+        context: z.string().optional().describe("Background the critic needs (code, constraints). Supports @path file references"),
+        models: z.array(z.string()).optional().describe("Models to ask, one critique each per sample (default: model, or the configured model)"),
+        samples: z.number().int().positive().optional().describe("Critiques per model (default: 1)"),
+        ...runOptionsSchema
+      }
+    },
+    async ({ question, answer, context, models, samples, ...options }, extra) => {
+      const perModel = samples ?? 1;
+      const targets = models?.length ? models : [options.model];
+      if (targets.length * perModel > MAX_CRITIQUES) {
+        return errorResult(new GeminiError("INVALID_REQUEST", `At most ${MAX_CRITIQUES} critiques per call (asked for ${targets.length * perModel})`));
+      }
+
+      // Only the question and context may reference files; the answer is quoted as it is
+      let message: string;
+      let references: string[];
+      try {
+        const allowedRoots = config.files.allowedRoots;
+        const cwd = resolveWorkingDirectory(options.working_directory, allowedRoots);
+        const preprocessedQuestion = preprocessMessage(question, cwd, allowedRoots);
+        const preprocessedContext = context ? preprocessMessage(context, cwd, allowedRoots) : undefined;
+        message = buildCritiquePrompt(preprocessedQuestion.message, answer, preprocessedContext?.message);
+        references = [...preprocessedQuestion.references, ...(preprocessedContext?.references ?? [])];
+      } catch (error) {
+        return errorResult(error);
+      }
+      const items: (BatchItem & { model?: string })[] = targets.flatMap((model) => {
+        const name = model ?? config.gemini.defaultModel ?? "default model";
+        return Array.from({ length: perModel }, (_, sample) => ({ label: perModel > 1 ? `${name} #${sample + 1}` : name, message, model }));
+      });
+      const critiques: Critique[] = [];
+      const summary = await runBatch(
+        items,
+        async (item, index) => {
+          const result = await executeJson({
+            ...options,
+            message: item.message,
+            references,
+            model: items[index].model,
+            cache: perModel > 1 ? "bypass" : options.cache
+          }, CRITIQUE_SCHEMA, DEFAULT_JSON_REPAIRS, { signal: extra.signal });
+          if (!result.isError && isCritique(result.structuredContent)) critiques[index] = result.structuredContent;
+          return result;
+        },
+        {
+          concurrency: config.batch.concurrency,
+          signal: extra.signal,
+          onItemDone: itemProgress(extra, items.length)
+        }
+      );
+
+      const opinion = summarizeCritiques(summary.items.map((item, index) => ({
+        source: item.label,
+        ...(items[index].model ? { model: items[index].model } : {}),
+        ...(critiques[index] ? { critique: critiques[index] } : {}),
+        ...(item.error ? { error: item.error } : item.status === "cancelled" ? { error: { code: "CANCELLED", message: "Not started" } } : {})
+      })));
+      return {
+        isError: opinion.confidence.critiques === 0,
+        content: [{
+          type: "text",
+          text: formatSecondOpinion(opinion)
+        }],
+        structuredContent: { ...opinion }
+      };
+    }
+  );
+
+  // Register templates as prompts
+  for (const template of templates.values()) {
+    server.registerPrompt(
+      template.name,
+      {
+        title: template.title,
+        description: template.description,
+        argsSchema: promptArgsSchema(template)
+      },
+      (args) => {
+        const target = [
+          template.model ? ` with model "${template.model}"` : "",
+          template.backend ? ` on backend "${template.backend}"` : ""
+        ].join("");
+        return {
+          description: template.description,
+          messages: [{
+            role: "user",
+            content: {
+              type: "text",
+              text: `Use gemini_send to send the message below to Gemini${target}, then report its answer.\n\n${renderTemplate(template, args)}`
+            }
+          }]
+        };
+      }
+    );
+  }
+
+  // Register async job tools
+  server.registerTool(
+    "gemini_submit",
+    {
+      title: "Submit Gemini Job",
+      description: `Start a gemini_send request in the background and return a job id right away.
+
+Use this for prompts that may take longer than the client's request timeout
+(e.g. web research). Poll gemini_job_status, then fetch the answer with
+gemini_job_result. Results are kept for a limited time after the job finishes.`,
+      inputSchema: {
+        ...sendInputSchema,
+        ttl_seconds: z.number().int().positive().optional().describe("How long to keep the result after the job finishes (default: configured)")
+      }
+    },
+    async ({ ttl_seconds, ...args }) => {
+      const job = jobs.submit(
+        args.message.substring(0, 80),
+        (context) => executeSend(args, context),
+        ttl_seconds !== undefined ? ttl_seconds * 1000 : undefined
+      );
+      return {
+        content: [{
+          type: "text",
+          text: `Submitted job ${job.id}. Check it with gemini_job_status and fetch the answer with gemini_job_result.`
+        }],
+        structuredContent: { job: { ...job } }
+      };
+    }
+  );
+
+  server.registerTool(
+    "gemini_job_status",
+    {
+      title: "Get Gemini Job Status",
+      description: "Report a job's state (running, succeeded, failed or cancelled), elapsed time and bytes received",
+      inputSchema: {
+        job_id: z.string().describe("Job id returned by gemini_submit")
+      }
+    },
+    async ({ job_id }) => {
+      try {
+        const job = jobs.status(job_id);
         return {
           content: [{
             type: "text",
-            text: "Gemini CLI is not installed or not in PATH. Please install Gemini CLI and ensure it's accessible."
-          }]
+            text: formatJob(job)
+          }],
+          structuredContent: { job: { ...job } }
+        };
+      } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+
+  server.registerTool(
+    "gemini_job_result",
+    {
+      title: "Get Gemini Job Result",
+      description: `Fetch a job's answer, optionally waiting for it to finish.
+
+Returns the same result gemini_send would have returned. While the job is still
+running (after waiting up to wait_seconds), its status is returned instead.`,
+      inputSchema: {
+        job_id: z.string().describe("Job id returned by gemini_submit"),
+        wait_seconds: z.number().min(0).max(300).optional().describe("How long to wait for the job to finish (default: 0)")
+      }
+    },
+    async ({ job_id, wait_seconds }, extra) => {
+      try {
+        const { job, result } = await jobs.result(job_id, (wait_seconds ?? 0) * 1000, extra.signal);
+        if (!result) {
+          return {
+            content: [{
+              type: "text",
+              text: `${formatJob(job)}. Call gemini_job_result again later.`
+            }],
+            structuredContent: { job: { ...job } }
+          };
+        }
+        return { ...result, _meta: { ...result._meta, job } };
+      } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+
+  server.registerTool(
+    "gemini_job_cancel",
+    {
+      title: "Cancel Gemini Job",
+      description: "Cancel a running job and kill its Gemini process. Finished jobs are not affected",
+      inputSchema: {
+        job_id: z.string().describe("Job id returned by gemini_submit")
+      }
+    },
+    async ({ job_id }) => {
+      try {
+        const job = jobs.cancel(job_id);
+        return {
+          content: [{
+            type: "text",
+            text: formatJob(job)
+          }],
+          structuredContent: { job: { ...job } }
         };
+      } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+
+  server.registerTool(
+    "gemini_job_list",
+    {
+      title: "List Gemini Jobs",
+      description: "List running jobs and finished jobs whose results have not expired, newest first",
+      inputSchema: {
+        state: z.enum(["running", "succeeded", "failed", "cancelled"]).optional().describe("Only list jobs in this state")
       }
+    },
+    async ({ state }) => {
+      const list = jobs.list(state);
+      return {
+        content: [{
+          type: "text",
+          text: list.length === 0
+            ? "No jobs"
+            : `Jobs (${list.length}):\n${list.map((job) => `- ${formatJob(job)}: ${job.label}`).join("\n")}`
+        }],
+        structuredContent: { jobs: list }
+      };
+    }
+  );
+
+  // Register status tool
+  server.registerTool(
+    "gemini_status",
+    {
+      title: "Check Gemini CLI Status",
+      description: `Check whether Gemini CLI is available without spending a model request.
+
+Reports the binary path and version, whether cached credentials or an API key are
+present, the Node version, configured limits, current usage, response cache hits and
+misses, and the error rate of recent requests. CLI checks are cached for a minute (refresh bypasses the cache).
+Set live_check to also send a short test prompt to the model.`,
+      inputSchema: {
+        live_check: z.boolean().optional().describe("Also send a test prompt to Gemini (uses one request of quota)"),
+        refresh: z.boolean().optional().describe("Probe the CLI again instead of using the cached result")
+      }
+    },
+    async ({ live_check, refresh }, extra) => {
+      const { probe, cached } = await cliProbe.get(refresh);
       
-      const startTime = Date.now();
+      let recent: ExchangeRecord[] = [];
+      try {
+        const since = new Date(Date.now() - RECENT_ERROR_WINDOW_MINUTES * 60000).toISOString();
+        recent = await storage.searchExchanges({ since });
+      } catch (error) {
+        console.error(`[Gemini MCP] Failed to read recent exchanges: ${error}`);
+      }
       
-      const response = await sendOneShot(message);
+      let livePing: LivePing | undefined;
+      if (live_check && probe.binary.found) {
+        const started = Date.now();
+        try {
+          // Send a simple test message
+          const { response } = await runPrompt("Hello", { backend: GEMINI_BACKEND, fallback: false, priority: "high", signal: extra.signal });
+          livePing = { ok: true, durationMs: Date.now() - started, response };
+        } catch (error) {
+          const geminiError = error instanceof GeminiError ? error : undefined;
+          livePing = {
+            ok: false,
+            durationMs: Date.now() - started,
+            error: {
+              code: geminiError?.code ?? "PROCESS_ERROR",
+              message: error instanceof Error ? error.message : String(error)
+            }
+          };
+        }
+      }
       
-      const duration = Date.now() - startTime;
-      console.error(`[Gemini MCP] Request completed in ${duration}ms`);
+      const pool = processPool.snapshot();
+      const details = {
+        checkedAt: probe.checkedAt,
+        cached,
+        binary: probe.binary,
+        credentials: probe.credentials,
+        node: { version: process.version, platform: process.platform, arch: process.arch },
+        limits: { rateLimit: config.rateLimit, pool: config.pool, timeouts: config.timeouts, retry: config.retry },
+        usage: { quota: rateLimiter.snapshot(), activeProcesses: pool.active.length, waitingProcesses: pool.waiting },
+        recentErrors: summarizeErrors(recent, RECENT_ERROR_WINDOW_MINUTES),
+        cache: responseCache.stats(),
+        ...(livePing ? { livePing } : {})
+      };
+      const report: DiagnosticsReport = { ...assessHealth(details), ...details };
       
-      if (!response) {
+      return {
+        content: [{
+          type: "text",
+          text: formatDiagnostics(report)
+        }],
+        structuredContent: { ...report }
+      };
+    }
+  );
+
+  // Register conversation tools
+  server.registerTool(
+    "gemini_conversation_list",
+    {
+      title: "List Gemini Conversations",
+      description: "List client-side conversations kept for gemini_send, most recently updated first",
+      inputSchema: {}
+    },
+    async () => {
+      const summaries = conversations.list();
+      if (summaries.length === 0) {
         return {
           content: [{
             type: "text",
-            text: "No response received from Gemini. Please try again."
+            text: "No conversations"
           }]
         };
       }
       
+      const lines = summaries.map((summary) =>
+        `- ${summary.id}: ${summary.turnCount} turns, ${summary.totalChars} chars, updated ${summary.updatedAt}` +
+        (summary.forkedFrom ? ` (forked from ${summary.forkedFrom})` : "")
+      );
+      
       return {
         content: [{
           type: "text",
-          text: response
+          text: `Conversations (${summaries.length}):\n${lines.join("\n")}`
         }]
       };
+    }
+  );
+
+  server.registerTool(
+    "gemini_conversation_get",
+    {
+      title: "Inspect Gemini Conversation",
+      description: "Show the stored turns of a conversation",
+      inputSchema: {
+        conversation_id: z.string().describe("Conversation to inspect"),
+        last_turns: z.number().int().positive().optional().describe("Only show the most recent N turns")
+      }
+    },
+    async ({ conversation_id, last_turns }) => {
+      const conversation = conversations.get(conversation_id);
+      if (!conversation) {
+        return errorResult(new ConversationNotFoundError(conversation_id));
+      }
+      
+      const turns = last_turns ? conversation.turns.slice(-last_turns) : conversation.turns;
+      const header = `Conversation ${conversation.id} (${conversation.turns.length} turns, created ${conversation.createdAt}` +
+        (conversation.forkedFrom ? `, forked from ${conversation.forkedFrom}` : "") + ")";
+      const body = turns.map((turn) => `[${turn.role}] ${turn.timestamp}\n${turn.content}`).join("\n\n");
       
-    } catch (error) {
-      console.error(`[Gemini MCP] Error: ${error}`);
       return {
         content: [{
           type: "text",
-          text: `Error: ${error instanceof Error ? error.message : String(error)}`
+          text: body ? `${header}\n\n${body}` : header
         }]
       };
     }
-  }
-);
-
-// Register status tool
-server.registerTool(
-  "gemini_status",
-  {
-    title: "Check Gemini CLI Status",
-    description: "Check if Gemini CLI is available and working",
-    inputSchema: {}
-  },
-  async () => {
-    try {
-      // Send a simple test message
-      const response = await sendOneShot("Hello");
-      
+  );
+
+  server.registerTool(
+    "gemini_conversation_fork",
+    {
+      title: "Fork Gemini Conversation",
+      description: "Copy an existing conversation under a new id so it can branch independently",
+      inputSchema: {
+        conversation_id: z.string().describe("Conversation to fork"),
+        new_conversation_id: z.string().optional().describe("Id for the fork (default: random UUID)"),
+        turn_count: z.number().int().nonnegative().optional().describe("Only copy the first N turns (default: all)")
+      }
+    },
+    async ({ conversation_id, new_conversation_id, turn_count }) => {
+      try {
+        const fork = conversations.fork(conversation_id, new_conversation_id, turn_count);
+        notifyResourceListChanged();
+        return {
+          content: [{
+            type: "text",
+            text: `Forked ${conversation_id} into ${fork.id} (${fork.turns.length} turns)`
+          }]
+        };
+      } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+
+  server.registerTool(
+    "gemini_conversation_delete",
+    {
+      title: "Delete Gemini Conversation",
+      description: "Delete a conversation and its history",
+      inputSchema: {
+        conversation_id: z.string().describe("Conversation to delete")
+      }
+    },
+    async ({ conversation_id }) => {
+      if (!conversations.delete(conversation_id)) {
+        return errorResult(new ConversationNotFoundError(conversation_id));
+      }
+      notifyResourceListChanged();
       return {
         content: [{
           type: "text",
-          text: `Gemini CLI is working. Test response: ${response.substring(0, 100)}...`
+          text: `Deleted conversation ${conversation_id}`
         }]
       };
-    } catch (error) {
+    }
+  );
+
+  // Register clear tool
+  server.registerTool(
+    "gemini_clear",
+    {
+      title: "Clear Gemini Conversation",
+      description: `Clear client-side conversation history.
+
+With conversation_id, the conversation's turns are removed but the id stays usable.
+Without it, all conversations are removed.`,
+      inputSchema: {
+        conversation_id: z.string().optional().describe("Conversation to clear (default: all conversations)")
+      }
+    },
+    async ({ conversation_id }) => {
+      if (conversation_id) {
+        if (!conversations.clear(conversation_id)) {
+          return errorResult(new ConversationNotFoundError(conversation_id));
+        }
+        return {
+          content: [{
+            type: "text",
+            text: `Conversation ${conversation_id} cleared`
+          }]
+        };
+      }
+      
+      const count = conversations.clearAll();
+      if (count > 0) notifyResourceListChanged();
       return {
         content: [{
           type: "text",
-          text: `Gemini CLI is not responding: ${error instanceof Error ? error.message : String(error)}`
+          text: `Cleared ${count} conversation(s)`
         }]
       };
     }
-  }
-);
+  );
+
+  // Register history tools
+  server.registerTool(
+    "gemini_history_search",
+    {
+      title: "Search Gemini Request History",
+      description: `Search past gemini_send exchanges recorded by the server.
+
+Without exchange_id, returns a newest-first summary list.
+With exchange_id, returns the full record including raw stdout/stderr and exit code.`,
+      inputSchema: {
+        ...historyFilterSchema,
+        exchange_id: z.string().optional().describe("Show the full record of a single exchange")
+      }
+    },
+    async ({ query, conversation_id, since, until, errors_only, limit = 20, exchange_id }) => {
+      try {
+        if (exchange_id) {
+          const record = await storage.getExchange(exchange_id);
+          if (!record) {
+            return errorResult(new GeminiError("INVALID_REQUEST", `Exchange not found: ${exchange_id}`));
+          }
+          
+          return {
+            content: [{
+              type: "text",
+              text: [
+                formatExchangeMarkdown(record),
+                "",
+                "### Raw stdout",
+                record.stdout || "(empty)",
+                "",
+                "### Raw stderr",
+                record.stderr || "(empty)"
+              ].join("\n")
+            }]
+          };
+        }
+        
+        const records = await storage.searchExchanges({
+          text: query,
+          conversationId: conversation_id,
+          since,
+          until,
+          errorsOnly: errors_only,
+          limit
+        });
+        
+        if (records.length === 0) {
+          return {
+            content: [{
+              type: "text",
+              text: "No matching exchanges"
+            }]
+          };
+        }
+        
+        const lines = records.map((record) =>
+          `- ${record.id} ${record.timestamp} (${record.durationMs}ms, exit ${record.exitCode})` +
+          (record.conversationId ? ` [${record.conversationId}]` : "") +
+          (record.error ? ` ERROR: ${record.error}` : "") +
+          `\n  Q: ${truncate(record.message, 100)}\n  A: ${truncate(record.response, 100)}`
+        );
+        
+        return {
+          content: [{
+            type: "text",
+            text: `Found ${records.length} exchange(s):\n${lines.join("\n")}`
+          }]
+        };
+      } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+
+  server.registerTool(
+    "gemini_history_export",
+    {
+      title: "Export Gemini Request History",
+      description: `Export past gemini_send exchanges as JSON, JSON lines or Markdown.
+
+The export is returned as text, or written to output_path when given. output_path must
+be inside the allowed roots (without roots: the server's working directory).`,
+      inputSchema: {
+        ...historyFilterSchema,
+        format: z.enum(["json", "jsonl", "markdown"]).optional().describe("Export format (default: json)"),
+        include_raw: z.boolean().optional().describe("Include raw stdout/stderr in json/jsonl exports (default: false)"),
+        output_path: z.string().optional().describe("Write the export to this file instead of returning it")
+      }
+    },
+    async ({ query, conversation_id, since, until, errors_only, limit, format = "json", include_raw = false, output_path }) => {
+      try {
+        const records = (await storage.searchExchanges({
+          text: query,
+          conversationId: conversation_id,
+          since,
+          until,
+          errorsOnly: errors_only,
+          limit
+        })).reverse();
+        
+        const exported = include_raw
+          ? records
+          : records.map(({ stdout, stderr, ...rest }) => rest);
+        
+        let text: string;
+        if (format === "jsonl") {
+          text = exported.map((record) => JSON.stringify(record)).join("\n");
+        } else if (format === "markdown") {
+          text = records.map(formatExchangeMarkdown).join("\n\n");
+        } else {
+          text = JSON.stringify(exported, null, 2);
+        }
+        
+        if (output_path) {
+          const target = resolveOutputPath(output_path, config.files.allowedRoots);
+          await fs.promises.writeFile(target, text + "\n", "utf8");
+          return {
+            content: [{
+              type: "text",
+              text: `Exported ${records.length} exchange(s) to ${target}`
+            }]
+          };
+        }
+        
+        return {
+          content: [{
+            type: "text",
+            text: text || "No matching exchanges"
+          }]
+        };
+      } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+
+  // Register quota tool
+  server.registerTool(
+    "gemini_quota",
+    {
+      title: "Check Gemini Quota",
+      description: `Report client-side Gemini quota usage: requests available this minute,
+requests used and remaining today, and how many requests are waiting in the queue.
+
+Counts only requests made through this server.`,
+      inputSchema: {}
+    },
+    async () => {
+      const quota = rateLimiter.snapshot();
+      return {
+        content: [{
+          type: "text",
+          text: formatQuota(quota)
+        }],
+        structuredContent: { ...quota }
+      };
+    }
+  );
+
+  // Register process list tool
+  server.registerTool(
+    "gemini_processes",
+    {
+      title: "List Gemini Processes",
+      description: `Report how many Gemini CLI processes are running and waiting for a slot,
+with the pid, priority, elapsed time and start of the message for each running one.`,
+      inputSchema: {}
+    },
+    async () => {
+      const pool = processPool.snapshot();
+      return {
+        content: [{
+          type: "text",
+          text: formatProcesses(pool)
+        }],
+        structuredContent: { ...pool }
+      };
+    }
+  );
+
+  return server;
+}
 
 // Start the server
 async function main() {
+  config = loadConfig();
+  console.error(`[Gemini MCP] Config: ${config.configFile ?? 'defaults/environment'}, binary: ${config.gemini.binary}` +
+    (config.gemini.defaultModel ? `, model: ${config.gemini.defaultModel}` : ''));
+  
+  const stateFile = config.storage.backend === "jsonl"
+    ? path.join(config.storage.dataDir, "rate-limit.json")
+    : undefined;
+  backends = buildBackends();
+  console.error(`[Gemini MCP] Backends: ${[...backends.keys()].join(', ')} (default: ${config.backends.default}` +
+    (config.backends.fallback.length > 0 ? `, fallback: ${config.backends.fallback.join(' > ')})` : ')'));
+  rateLimiter = new RateLimiter(config.rateLimit, stateFile);
+  await rateLimiter.load();
+  processPool = new ProcessPool(config.pool);
+  jobs = new JobManager(config.jobs);
+  
+  const cacheDirectory = config.cache.directory ?? path.join(config.storage.dataDir, "cache");
+  responseCache = new ResponseCache(config.cache, config.cache.disk ? cacheDirectory : undefined);
+  if (config.cache.enabled) {
+    const expired = await responseCache.prune();
+    console.error(`[Gemini MCP] Response cache: ${config.cache.disk ? `memory and disk (${cacheDirectory})` : "memory"}, ` +
+      `TTL ${Math.round(config.cache.ttlMs / 1000)}s` + (expired > 0 ? `, ${expired} expired` : ""));
+  }
+  
+  // Gemini processes run in their own process groups, so they would outlive the server
+  process.on('exit', () => processPool.killAll());
+  for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+    process.on(signal, () => process.exit(0));
+  }
+  
+  const storageOptions = config.storage;
+  storage = createStorage(storageOptions);
+  retentionPolicy = storageOptions.retention;
+  
+  try {
+    const { removed, remaining } = await storage.applyRetention(retentionPolicy);
+    const loaded = await conversations.attach(storage);
+    console.error(`[Gemini MCP] Storage: ${storage.name} (${storageOptions.dataDir}), ${remaining} exchanges, ${loaded} conversations` +
+      (removed > 0 ? `, ${removed} expired` : ""));
+  } catch (error) {
+    // Keep serving with in-memory storage rather than failing to start
+    console.error(`[Gemini MCP] Failed to open storage, falling back to memory: ${error}`);
+    storage = new MemoryStorage();
+    await conversations.attach(storage);
+  }
+  
+  const loaded = await loadTemplates(config.templates);
+  templates = loaded.templates;
+  for (const error of loaded.errors) {
+    console.error(`[Gemini MCP] Skipped template ${error}`);
+  }
+  console.error(`[Gemini MCP] Templates: ${[...templates.keys()].join(', ') || 'none'}`);
+  
+  if (config.transport.mode === "http") {
+    const httpServer = new McpHttpServer(config.transport, createServer, () => {
+      const pool = processPool.snapshot();
+      return { version: "1.5.5", processes: pool.active.length, waiting: pool.waiting, jobs: jobs.list("running").length };
+    });
+    const address = await httpServer.start();
+    const host = address.family === "IPv6" ? `[${address.address}]` : address.address;
+    console.error(`Gemini CLI MCP server v1.5.5 (one-shot mode) listening on http://${host}:${address.port}${MCP_PATH}` +
+      (config.transport.authToken ? " (bearer token required)" : ""));
+    return;
+  }
+  
   const transport = new StdioServerTransport();
-  await server.connect(transport);
+  await createServer().connect(transport);
   console.error("Gemini CLI MCP server v1.5.5 (one-shot mode) running");
 }
 
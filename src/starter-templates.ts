@@ -0,0 +1,54 @@
+import type { PromptTemplate } from "./templates.js";
+
+// Prompt templates bundled with the server.
+// A template file with the same name in a template directory replaces one of these.
+
+export const STARTER_TEMPLATES: PromptTemplate[] = [
+  {
+    name: "code-review",
+    title: "Code Review",
+    description: "Review a file or directory for bugs, security issues and maintainability problems",
+    arguments: [
+      { name: "path", type: "string", required: true, description: "File or directory to review, relative to working_directory" },
+      { name: "focus", type: "string", required: false, description: "What to pay particular attention to (e.g. error handling, concurrency)" }
+    ],
+    template: [
+      "Review @{{path}} for bugs, security issues and maintainability problems.",
+      "{{#focus}}Pay particular attention to: {{focus}}.\n{{/focus}}For each finding, give the location, the severity (high, medium or low), what is wrong and a suggested fix.",
+      "List the most severe findings first. If there is nothing significant, say so instead of inventing issues."
+    ].join("\n")
+  },
+  {
+    name: "web-research",
+    title: "Web Research",
+    description: "Search the web for a topic and answer with cited sources",
+    arguments: [
+      { name: "topic", type: "string", required: true, description: "Question or topic to research" },
+      { name: "depth", type: "enum", required: false, values: ["brief", "detailed"], default: "brief", description: "Length of the answer" },
+      { name: "since", type: "string", required: false, description: "Only use sources published on or after this date (e.g. 2024-06)" }
+    ],
+    template: [
+      "Search the web and research: {{topic}}",
+      "",
+      "{{#since}}Only use sources published on or after {{since}}.\n{{/since}}Write a {{depth}} answer based on what you found. Cite the source of each claim inline with its URL,",
+      "point out where sources disagree, and end with a list of the sources you used."
+    ].join("\n")
+  },
+  {
+    name: "translate",
+    title: "Translate",
+    description: "Translate text (e.g. between Korean and English), keeping tone and formatting",
+    arguments: [
+      { name: "text", type: "string", required: true, description: "Text to translate" },
+      { name: "target_language", type: "string", required: false, default: "English", description: "Language to translate into (e.g. English, Korean)" },
+      { name: "source_language", type: "string", required: false, description: "Language of the text (detected when omitted)" }
+    ],
+    template: [
+      "Translate the following text{{#source_language}} from {{source_language}}{{/source_language}} into {{target_language}}.",
+      "Keep the meaning, tone and formatting (Markdown, code blocks, placeholders) unchanged, and leave technical terms",
+      "that are usually not translated as they are. Reply with the translation only.",
+      "",
+      "{{text}}"
+    ].join("\n")
+  }
+];
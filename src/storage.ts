@@ -0,0 +1,245 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import type { Conversation } from "./conversations.js";
+
+// Pluggable persistence for request history and conversations.
+// The default backend writes JSON-lines files under the XDG data directory.
+
+export interface ExchangeRecord {
+  id: string;
+  timestamp: string;
+  conversationId?: string;
+  message: string;
+  prompt: string;
+  response: string;
+  stdout: string;
+  stderr: string;
+  exitCode: number | null;
+  durationMs: number;
+  error?: string;
+  errorCode?: string;
+  attempts?: number;
+  // Backend that answered (absent for records from before backends existed)
+  backend?: string;
+  // Answered from the response cache without running a process
+  cached?: boolean;
+}
+
+export interface ExchangeQuery {
+  text?: string;
+  conversationId?: string;
+  since?: string;
+  until?: string;
+  errorsOnly?: boolean;
+  limit?: number;
+}
+
+export interface RetentionPolicy {
+  maxAgeDays?: number;
+  maxBytes?: number;
+}
+
+export interface RetentionResult {
+  removed: number;
+  remaining: number;
+}
+
+export interface StorageBackend {
+  readonly name: string;
+  appendExchange(record: ExchangeRecord): Promise<void>;
+  getExchange(id: string): Promise<ExchangeRecord | undefined>;
+  searchExchanges(query: ExchangeQuery): Promise<ExchangeRecord[]>;
+  loadConversations(): Promise<Conversation[]>;
+  saveConversation(conversation: Conversation): Promise<void>;
+  deleteConversation(id: string): Promise<void>;
+  applyRetention(policy: RetentionPolicy): Promise<RetentionResult>;
+}
+
+export function defaultDataDir(): string {
+  const base = process.env.XDG_DATA_HOME || path.join(os.homedir(), ".local", "share");
+  return path.join(base, "gemini-mcp-server");
+}
+
+// Newest first, filtered by the query
+export function filterExchanges(records: ExchangeRecord[], query: ExchangeQuery): ExchangeRecord[] {
+  const text = query.text?.toLowerCase();
+  const matches = records.filter((record) => {
+    if (query.conversationId && record.conversationId !== query.conversationId) return false;
+    if (query.since && record.timestamp < query.since) return false;
+    if (query.until && record.timestamp > query.until) return false;
+    if (query.errorsOnly && !record.error) return false;
+    if (text && !record.message.toLowerCase().includes(text) && !record.response.toLowerCase().includes(text)) {
+      return false;
+    }
+    return true;
+  });
+  matches.reverse();
+  return query.limit ? matches.slice(0, query.limit) : matches;
+}
+
+// Oldest records are dropped first when enforcing the size limit
+function retain(records: ExchangeRecord[], policy: RetentionPolicy): ExchangeRecord[] {
+  let kept = records;
+  if (policy.maxAgeDays !== undefined) {
+    const cutoff = new Date(Date.now() - policy.maxAgeDays * 24 * 60 * 60 * 1000).toISOString();
+    kept = kept.filter((record) => record.timestamp >= cutoff);
+  }
+  if (policy.maxBytes !== undefined) {
+    let total = 0;
+    let start = kept.length;
+    while (start > 0) {
+      const size = Buffer.byteLength(JSON.stringify(kept[start - 1])) + 1;
+      if (total + size > policy.maxBytes) break;
+      total += size;
+      start--;
+    }
+    kept = kept.slice(start);
+  }
+  return kept;
+}
+
+export class MemoryStorage implements StorageBackend {
+  readonly name = "memory";
+  private exchanges: ExchangeRecord[] = [];
+  private conversations = new Map<string, Conversation>();
+
+  async appendExchange(record: ExchangeRecord): Promise<void> {
+    this.exchanges.push(record);
+  }
+
+  async getExchange(id: string): Promise<ExchangeRecord | undefined> {
+    return this.exchanges.find((record) => record.id === id);
+  }
+
+  async searchExchanges(query: ExchangeQuery): Promise<ExchangeRecord[]> {
+    return filterExchanges(this.exchanges, query);
+  }
+
+  async loadConversations(): Promise<Conversation[]> {
+    return Array.from(this.conversations.values());
+  }
+
+  async saveConversation(conversation: Conversation): Promise<void> {
+    this.conversations.set(conversation.id, conversation);
+  }
+
+  async deleteConversation(id: string): Promise<void> {
+    this.conversations.delete(id);
+  }
+
+  async applyRetention(policy: RetentionPolicy): Promise<RetentionResult> {
+    const before = this.exchanges.length;
+    this.exchanges = retain(this.exchanges, policy);
+    return { removed: before - this.exchanges.length, remaining: this.exchanges.length };
+  }
+}
+
+export class JsonlStorage implements StorageBackend {
+  readonly name = "jsonl";
+  private readonly exchangesFile: string;
+  private readonly conversationsFile: string;
+  // Serializes file writes so appends and rewrites never interleave
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(readonly dataDir: string = defaultDataDir()) {
+    this.exchangesFile = path.join(dataDir, "exchanges.jsonl");
+    this.conversationsFile = path.join(dataDir, "conversations.jsonl");
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(task, task);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async readLines<T>(file: string): Promise<T[]> {
+    let content: string;
+    try {
+      content = await fs.promises.readFile(file, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+      throw error;
+    }
+
+    const records: T[] = [];
+    for (const line of content.split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        records.push(JSON.parse(line) as T);
+      } catch {
+        console.error(`[Gemini MCP] Skipping corrupt line in ${file}`);
+      }
+    }
+    return records;
+  }
+
+  // Atomic rewrite via a temp file and rename
+  private async writeLines(file: string, records: unknown[]): Promise<void> {
+    await fs.promises.mkdir(this.dataDir, { recursive: true });
+    const tmpFile = `${file}.${process.pid}.tmp`;
+    const content = records.map((record) => JSON.stringify(record) + "\n").join("");
+    await fs.promises.writeFile(tmpFile, content, "utf8");
+    await fs.promises.rename(tmpFile, file);
+  }
+
+  appendExchange(record: ExchangeRecord): Promise<void> {
+    return this.enqueue(async () => {
+      await fs.promises.mkdir(this.dataDir, { recursive: true });
+      await fs.promises.appendFile(this.exchangesFile, JSON.stringify(record) + "\n", "utf8");
+    });
+  }
+
+  async getExchange(id: string): Promise<ExchangeRecord | undefined> {
+    const records = await this.enqueue(() => this.readLines<ExchangeRecord>(this.exchangesFile));
+    return records.find((record) => record.id === id);
+  }
+
+  async searchExchanges(query: ExchangeQuery): Promise<ExchangeRecord[]> {
+    const records = await this.enqueue(() => this.readLines<ExchangeRecord>(this.exchangesFile));
+    return filterExchanges(records, query);
+  }
+
+  loadConversations(): Promise<Conversation[]> {
+    return this.enqueue(() => this.readLines<Conversation>(this.conversationsFile));
+  }
+
+  saveConversation(conversation: Conversation): Promise<void> {
+    return this.enqueue(async () => {
+      const conversations = await this.readLines<Conversation>(this.conversationsFile);
+      const others = conversations.filter((existing) => existing.id !== conversation.id);
+      await this.writeLines(this.conversationsFile, [...others, conversation]);
+    });
+  }
+
+  deleteConversation(id: string): Promise<void> {
+    return this.enqueue(async () => {
+      const conversations = await this.readLines<Conversation>(this.conversationsFile);
+      const remaining = conversations.filter((existing) => existing.id !== id);
+      if (remaining.length !== conversations.length) {
+        await this.writeLines(this.conversationsFile, remaining);
+      }
+    });
+  }
+
+  applyRetention(policy: RetentionPolicy): Promise<RetentionResult> {
+    return this.enqueue(async () => {
+      const records = await this.readLines<ExchangeRecord>(this.exchangesFile);
+      const kept = retain(records, policy);
+      if (kept.length !== records.length) {
+        await this.writeLines(this.exchangesFile, kept);
+      }
+      return { removed: records.length - kept.length, remaining: kept.length };
+    });
+  }
+}
+
+export interface StorageOptions {
+  backend: "jsonl" | "memory";
+  dataDir: string;
+  retention: RetentionPolicy;
+}
+
+export function createStorage(options: StorageOptions): StorageBackend {
+  return options.backend === "memory" ? new MemoryStorage() : new JsonlStorage(options.dataDir);
+}
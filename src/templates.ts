@@ -0,0 +1,223 @@
+import * as fs from "fs";
+import * as path from "path";
+import { GeminiError } from "./errors.js";
+import { STARTER_TEMPLATES } from "./starter-templates.js";
+
+// Reusable prompt templates with typed arguments.
+// Templates are JSON files in the configured directories (later directories win),
+// layered over the bundled starter set. {{name}} inserts an argument;
+// {{#name}}...{{/name}} keeps a section only when the argument is set ({{^name}} when it is not).
+
+export type TemplateArgumentType = "string" | "number" | "boolean" | "enum";
+
+export interface TemplateArgument {
+  name: string;
+  description?: string;
+  type: TemplateArgumentType;
+  // Required arguments have no default and must be passed
+  required: boolean;
+  // Allowed values of an "enum" argument
+  values?: string[];
+  default?: string;
+}
+
+export interface PromptTemplate {
+  name: string;
+  title?: string;
+  description: string;
+  arguments: TemplateArgument[];
+  template: string;
+  // Used unless the caller picks a model or backend
+  model?: string;
+  backend?: string;
+  // File the template was loaded from (absent for starter templates)
+  source?: string;
+}
+
+export interface TemplateConfig {
+  // Directories with *.json templates, in increasing precedence
+  directories: string[];
+  // Include the bundled starter templates
+  starters: boolean;
+}
+
+export interface LoadedTemplates {
+  templates: Map<string, PromptTemplate>;
+  // One message per file that could not be loaded
+  errors: string[];
+}
+
+export class TemplateError extends GeminiError {
+  constructor(message: string) {
+    super("INVALID_REQUEST", message);
+    this.name = "TemplateError";
+  }
+}
+
+const NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_-]*$/;
+const ARGUMENT_TYPES: TemplateArgumentType[] = ["string", "number", "boolean", "enum"];
+const SECTION_PATTERN = /\{\{([#^])\s*([A-Za-z0-9_-]+)\s*\}\}([\s\S]*?)\{\{\/\s*\2\s*\}\}/g;
+const PLACEHOLDER_PATTERN = /\{\{\s*([#^/]?)\s*([A-Za-z0-9_-]+)\s*\}\}/g;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function parseArgument(value: unknown, template: string): TemplateArgument {
+  if (!isRecord(value) || typeof value.name !== "string" || !NAME_PATTERN.test(value.name)) {
+    throw new Error(`Template "${template}" has an argument without a valid name`);
+  }
+  const requested = value.type ?? (Array.isArray(value.values) ? "enum" : "string");
+  const type = ARGUMENT_TYPES.find((candidate) => candidate === requested);
+  if (!type) {
+    throw new Error(`Argument "${value.name}" of template "${template}" has unknown type "${String(requested)}"`);
+  }
+  const values = Array.isArray(value.values) ? value.values.map(String) : undefined;
+  if (type === "enum" && (!values || values.length === 0)) {
+    throw new Error(`Enum argument "${value.name}" of template "${template}" needs a list of values`);
+  }
+  const argument: TemplateArgument = {
+    name: value.name,
+    type,
+    required: value.default === undefined && value.required === true,
+    ...(typeof value.description === "string" ? { description: value.description } : {}),
+    ...(values ? { values } : {}),
+    ...(value.default !== undefined ? { default: String(value.default) } : {})
+  };
+  if (argument.default !== undefined) {
+    coerceArgument(argument, argument.default);
+  }
+  return argument;
+}
+
+// Validate a parsed template file; name defaults to the file name
+export function parseTemplate(value: unknown, fallbackName?: string, source?: string): PromptTemplate {
+  if (!isRecord(value)) {
+    throw new Error("Template must be a JSON object");
+  }
+  const name = typeof value.name === "string" ? value.name : fallbackName;
+  if (!name || !NAME_PATTERN.test(name)) {
+    throw new Error(`Invalid template name "${name ?? ""}" (use letters, digits, "-" and "_")`);
+  }
+  const text = Array.isArray(value.template) ? value.template.map(String).join("\n") : value.template;
+  if (typeof text !== "string" || text.trim() === "") {
+    throw new Error(`Template "${name}" has no template text`);
+  }
+  const args = Array.isArray(value.arguments) ? value.arguments.map((argument) => parseArgument(argument, name)) : [];
+  const declared = new Set(args.map((argument) => argument.name));
+  for (const [, , placeholder] of text.matchAll(PLACEHOLDER_PATTERN)) {
+    if (!declared.has(placeholder)) {
+      throw new Error(`Template "${name}" uses undeclared argument "${placeholder}"`);
+    }
+  }
+  return {
+    name,
+    description: typeof value.description === "string" ? value.description : `Prompt template ${name}`,
+    arguments: args,
+    template: text,
+    ...(typeof value.title === "string" ? { title: value.title } : {}),
+    ...(typeof value.model === "string" ? { model: value.model } : {}),
+    ...(typeof value.backend === "string" ? { backend: value.backend } : {}),
+    ...(source ? { source } : {})
+  };
+}
+
+// Normalize one argument value to its text form, or throw when it does not fit the type
+function coerceArgument(argument: TemplateArgument, value: unknown): string {
+  const text = String(value).trim();
+  switch (argument.type) {
+    case "number":
+      if (text === "" || !Number.isFinite(Number(text))) {
+        throw new TemplateError(`Argument "${argument.name}" must be a number`);
+      }
+      return String(Number(text));
+    case "boolean":
+      if (["true", "yes", "1"].includes(text.toLowerCase())) return "true";
+      if (["false", "no", "0"].includes(text.toLowerCase())) return "false";
+      throw new TemplateError(`Argument "${argument.name}" must be true or false`);
+    case "enum":
+      if (!argument.values!.includes(text)) {
+        throw new TemplateError(`Argument "${argument.name}" must be one of: ${argument.values!.join(", ")}`);
+      }
+      return text;
+    default:
+      return String(value);
+  }
+}
+
+// Resolve defaults and check every argument against its declaration
+export function resolveArguments(template: PromptTemplate, args: Record<string, unknown> = {}): Record<string, string> {
+  const declared = new Set(template.arguments.map((argument) => argument.name));
+  const unknown = Object.keys(args).filter((name) => !declared.has(name));
+  if (unknown.length > 0) {
+    throw new TemplateError(`Unknown argument(s) for template "${template.name}": ${unknown.join(", ")}` +
+      (declared.size > 0 ? ` (accepted: ${[...declared].join(", ")})` : ""));
+  }
+
+  const resolved: Record<string, string> = {};
+  for (const argument of template.arguments) {
+    const value = args[argument.name];
+    if (value === undefined || value === null || value === "") {
+      if (argument.required) {
+        throw new TemplateError(`Template "${template.name}" requires argument "${argument.name}"`);
+      }
+      resolved[argument.name] = argument.default ?? "";
+      continue;
+    }
+    resolved[argument.name] = coerceArgument(argument, value);
+  }
+  return resolved;
+}
+
+export function renderTemplate(template: PromptTemplate, args: Record<string, unknown> = {}): string {
+  const values = resolveArguments(template, args);
+  const isSet = (name: string) => values[name] !== "" && values[name] !== "false";
+  return template.template
+    .replace(SECTION_PATTERN, (_match, kind: string, name: string, body: string) =>
+      (kind === "#") === isSet(name) ? body : "")
+    .replace(PLACEHOLDER_PATTERN, (_match, _kind: string, name: string) => values[name] ?? "")
+    .trim();
+}
+
+// Starter templates, then each directory's *.json files in name order
+export async function loadTemplates(config: TemplateConfig): Promise<LoadedTemplates> {
+  const templates = new Map<string, PromptTemplate>();
+  const errors: string[] = [];
+  if (config.starters) {
+    for (const starter of STARTER_TEMPLATES) {
+      templates.set(starter.name, starter);
+    }
+  }
+
+  for (const directory of config.directories) {
+    let files: string[];
+    try {
+      files = (await fs.promises.readdir(directory)).filter((file) => file.endsWith(".json")).sort();
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        errors.push(`${directory}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+      continue;
+    }
+    for (const file of files) {
+      const source = path.join(directory, file);
+      try {
+        const parsed = JSON.parse(await fs.promises.readFile(source, "utf8"));
+        const template = parseTemplate(parsed, path.basename(file, ".json"), source);
+        templates.set(template.name, template);
+      } catch (error) {
+        errors.push(`${source}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+  }
+  return { templates, errors };
+}
+
+// One line per template for tool descriptions and listings
+export function describeTemplate(template: PromptTemplate): string {
+  const args = template.arguments.map((argument) => {
+    const type = argument.type === "enum" ? argument.values!.join("|") : argument.type;
+    return `${argument.name}${argument.required ? "" : "?"}: ${type}`;
+  });
+  return `${template.name}(${args.join(", ")}): ${template.description}`;
+}
@@ -0,0 +1,83 @@
+// Timeout policy for one Gemini CLI run.
+// Three limits apply (0 disables one): no answer output (stdout) within firstByteMs,
+// no new output for idleMs once output has started, and the whole run taking
+// longer than totalMs. When one fires the process gets SIGTERM, then SIGKILL
+// after killGraceMs.
+
+export type TimeoutLimit = "first_byte" | "idle" | "total";
+
+export interface TimeoutPolicy {
+  firstByteMs: number;
+  idleMs: number;
+  totalMs: number;
+  killGraceMs: number;
+}
+
+export const DEFAULT_TIMEOUTS: TimeoutPolicy = {
+  firstByteMs: 120000,
+  idleMs: 60000,
+  totalMs: 600000,
+  killGraceMs: 5000
+};
+
+// Tracks the limits for one run and calls onTimeout once, with the limit that fired
+export class RunTimers {
+  private firstByte?: NodeJS.Timeout;
+  private idle?: NodeJS.Timeout;
+  private total?: NodeJS.Timeout;
+  private receivedOutput = false;
+  private fired = false;
+
+  constructor(
+    private policy: TimeoutPolicy,
+    private onTimeout: (limit: TimeoutLimit, limitMs: number) => void
+  ) {}
+
+  start(): void {
+    if (this.policy.totalMs > 0) {
+      this.total = setTimeout(() => this.fire("total", this.policy.totalMs), this.policy.totalMs);
+    }
+    if (this.policy.firstByteMs > 0) {
+      this.firstByte = setTimeout(() => this.fire("first_byte", this.policy.firstByteMs), this.policy.firstByteMs);
+    } else {
+      // Without a first-byte limit the idle limit covers the start as well
+      this.resetIdle();
+    }
+  }
+
+  // Call whenever the process prints part of its answer
+  onOutput(): void {
+    if (this.fired) return;
+    if (!this.receivedOutput) {
+      this.receivedOutput = true;
+      clearTimeout(this.firstByte);
+    }
+    this.resetIdle();
+  }
+
+  // Call for other output (stderr): keeps a started run from going idle but is not a first byte
+  onActivity(): void {
+    if (this.fired) return;
+    if (this.receivedOutput || this.policy.firstByteMs <= 0) this.resetIdle();
+  }
+
+  stop(): void {
+    clearTimeout(this.firstByte);
+    clearTimeout(this.idle);
+    clearTimeout(this.total);
+  }
+
+  private resetIdle(): void {
+    clearTimeout(this.idle);
+    if (this.policy.idleMs > 0) {
+      this.idle = setTimeout(() => this.fire("idle", this.policy.idleMs), this.policy.idleMs);
+    }
+  }
+
+  private fire(limit: TimeoutLimit, limitMs: number): void {
+    if (this.fired) return;
+    this.fired = true;
+    this.stop();
+    this.onTimeout(limit, limitMs);
+  }
+}
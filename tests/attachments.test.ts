@@ -0,0 +1,65 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { pathToFileURL } from "url";
+import { DEFAULT_ATTACHMENTS, loadAttachments, stageAttachments, withAttachmentReferences } from "../src/attachments.js";
+
+const PDF = Buffer.from("%PDF-1.7\n%fake\n");
+const JPEG = Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0x00, 0x10]);
+
+test("detects types from content and rejects mismatched or disallowed types", async () => {
+  const [pdf, jpeg, text] = await loadAttachments([
+    { data: PDF.toString("base64") },
+    { uri: `data:image/jpeg;base64,${JPEG.toString("base64")}`, name: "photo.jpeg" },
+    { text: "# Notes", mime_type: "text/markdown", name: "../notes" }
+  ], DEFAULT_ATTACHMENTS, []);
+  assert.deepEqual([pdf.name, pdf.mimeType], ["attachment-1.pdf", "application/pdf"]);
+  assert.deepEqual([jpeg.name, jpeg.mimeType], ["photo.jpeg", "image/jpeg"]);
+  assert.deepEqual([text.name, text.mimeType], ["notes.md", "text/markdown"]);
+
+  await assert.rejects(loadAttachments([{ data: PDF.toString("base64"), mime_type: "image/png" }], DEFAULT_ATTACHMENTS, []),
+    /declared as image\/png but its content is application\/pdf/);
+  await assert.rejects(loadAttachments([{ data: "AAAA", mime_type: "application/zip" }], DEFAULT_ATTACHMENTS, []),
+    /type application\/zip is not allowed/);
+  await assert.rejects(loadAttachments([{ data: "not base64!" }], DEFAULT_ATTACHMENTS, []), /not valid base64/);
+  await assert.rejects(loadAttachments([{ data: "AAAA", text: "x" }], DEFAULT_ATTACHMENTS, []), /exactly one of data, text and uri/);
+  await assert.rejects(loadAttachments([{ uri: "https://example.com/a.png" }], DEFAULT_ATTACHMENTS, []), /unsupported URI/);
+});
+
+test("enforces count and size limits", async () => {
+  const limits = { ...DEFAULT_ATTACHMENTS, maxBytes: 10, maxTotalBytes: 15, maxCount: 2 };
+  await assert.rejects(loadAttachments([{ text: "a" }, { text: "b" }, { text: "c" }], limits, []), /At most 2 attachments/);
+  await assert.rejects(loadAttachments([{ data: Buffer.alloc(12).toString("base64"), mime_type: "text/plain" }], limits, []), /larger than/);
+  await assert.rejects(loadAttachments([{ text: "123456789" }, { text: "123456789" }], limits, []), /in total/);
+});
+
+test("reads file URIs only inside the allowed roots", async () => {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), "gemini-attach-"));
+  const outside = fs.mkdtempSync(path.join(os.tmpdir(), "gemini-attach-"));
+  try {
+    fs.writeFileSync(path.join(root, "doc.pdf"), PDF);
+    fs.writeFileSync(path.join(outside, "secret.txt"), "secret");
+    const [doc] = await loadAttachments([{ uri: pathToFileURL(path.join(root, "doc.pdf")).href }], DEFAULT_ATTACHMENTS, [root]);
+    assert.deepEqual([doc.name, doc.mimeType], ["doc.pdf", "application/pdf"]);
+    await assert.rejects(
+      loadAttachments([{ uri: pathToFileURL(path.join(outside, "secret.txt")).href }], DEFAULT_ATTACHMENTS, [root]),
+      (error: { code?: string }) => error.code === "PATH_NOT_ALLOWED"
+    );
+  } finally {
+    fs.rmSync(root, { recursive: true, force: true });
+    fs.rmSync(outside, { recursive: true, force: true });
+  }
+});
+
+test("stages attachments in a private directory and removes it", async () => {
+  const attachments = await loadAttachments([{ text: "a", name: "same.txt" }, { text: "b", name: "same.txt" }], DEFAULT_ATTACHMENTS, []);
+  const staged = await stageAttachments(attachments);
+  assert.deepEqual(staged.files.map((file) => path.basename(file)), ["same.txt", "2-same.txt"]);
+  assert.equal(fs.readFileSync(staged.files[1], "utf8"), "b");
+  assert.match(withAttachmentReferences("Compare", attachments, staged.files), /^Compare\n\nAttached files:\n- @\/.+\/same\.txt \(text\/plain\)\n- @/);
+
+  await staged.cleanup();
+  assert.equal(fs.existsSync(staged.directory), false);
+});
@@ -0,0 +1,115 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import * as http from "http";
+import type { AddressInfo } from "net";
+import { GeminiError } from "../src/errors.js";
+import { DEFAULT_TIMEOUTS } from "../src/timeouts.js";
+import { inheritedEnv } from "../src/config.js";
+import { DEFAULT_BACKENDS, backendOrder, createBackend, shouldFallBack } from "../src/backends.js";
+
+interface ChatRequest {
+  model?: string;
+  messages: { role: string; content: string }[];
+}
+
+function isChatRequest(value: unknown): value is ChatRequest {
+  if (typeof value !== "object" || value === null) return false;
+  const { model, messages } = value as Record<string, unknown>;
+  return (model === undefined || typeof model === "string") && Array.isArray(messages) &&
+    messages.every((message) => typeof message?.role === "string" && typeof message?.content === "string");
+}
+
+// Local stand-in for a chat-completions server
+async function withServer(
+  handler: (body: unknown, response: http.ServerResponse) => void,
+  run: (baseUrl: string) => Promise<void>
+): Promise<void> {
+  const server = http.createServer((request, response) => {
+    let body = "";
+    request.on("data", (chunk) => (body += chunk));
+    request.on("end", () => handler(JSON.parse(body), response));
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  try {
+    await run(`http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`);
+  } finally {
+    server.close();
+  }
+}
+
+test("http backend posts the prompt and returns the first choice", async () => {
+  await withServer((body, response) => {
+    assert.ok(isChatRequest(body));
+    response.setHeader("Content-Type", "application/json");
+    response.end(JSON.stringify({ choices: [{ message: { content: `${body.model}: ${body.messages[0].content}` } }] }));
+  }, async (baseUrl) => {
+    const backend = createBackend("local", { type: "http", baseUrl, model: "llama" }, DEFAULT_TIMEOUTS);
+    const result = await backend.run("ping");
+    assert.equal(result.response, "llama: ping");
+    assert.equal(result.backend, "local");
+    assert.equal((await backend.run("ping", { model: "qwen" })).response, "qwen: ping");
+  });
+});
+
+test("http backend maps 429 to a quota error with the retry delay", async () => {
+  await withServer((_body, response) => {
+    response.statusCode = 429;
+    response.end('{"error": {"message": "Rate limited", "retryDelay": "7s"}}');
+  }, async (baseUrl) => {
+    const backend = createBackend("local", { type: "http", baseUrl }, DEFAULT_TIMEOUTS);
+    await assert.rejects(backend.run("ping"), (error: GeminiError) =>
+      error.code === "QUOTA_EXCEEDED" && error.retryAfterMs === 7000);
+  });
+});
+
+test("http backend reports an unreachable endpoint as unavailable", async () => {
+  const backend = createBackend("local", { type: "http", baseUrl: "http://127.0.0.1:9/v1" }, DEFAULT_TIMEOUTS);
+  await assert.rejects(backend.run("ping"), (error: GeminiError) => error.code === "BACKEND_UNAVAILABLE" && shouldFallBack(error));
+});
+
+test("cli backend pipes the prompt through a command", { skip: process.platform === "win32" }, async () => {
+  const backend = createBackend("echo", { type: "cli", command: "cat" }, DEFAULT_TIMEOUTS);
+  const result = await backend.run("Hello there");
+  assert.equal(result.response, "Hello there");
+  assert.equal(result.parsed.banners.length, 0);
+
+  const missing = createBackend("missing", { type: "cli", command: "no-such-command-for-tests" }, DEFAULT_TIMEOUTS);
+  await assert.rejects(missing.run("Hello"), (error: GeminiError) => error.code === "CLI_NOT_FOUND");
+});
+
+test("cli backend only passes the allow-listed environment and its own variables", { skip: process.platform === "win32" }, async () => {
+  const parentEnv = inheritedEnv(["KEPT"], { PATH: process.env.PATH, KEPT: "kept", SECRET: "secret" });
+  const backend = createBackend("env", {
+    type: "cli",
+    command: "sh",
+    args: ["-c", "cat >/dev/null; echo \"${KEPT:-none} ${SECRET:-none} ${EXTRA:-none}\""],
+    env: { EXTRA: "extra" }
+  }, DEFAULT_TIMEOUTS, parentEnv);
+  assert.equal((await backend.run("ignored")).response, "kept none extra");
+});
+
+test("cli backend does not start a run that was cancelled before spawning", { skip: process.platform === "win32" }, async () => {
+  const controller = new AbortController();
+  controller.abort();
+  let spawned = false;
+  const backend = createBackend("echo", { type: "cli", command: "cat" }, DEFAULT_TIMEOUTS);
+  await assert.rejects(backend.run("Hello", { signal: controller.signal, onSpawn: () => (spawned = true) }),
+    (error: GeminiError) => error.code === "CANCELLED");
+  assert.equal(spawned, false);
+});
+
+test("cli backend only counts stdout as the first byte", { skip: process.platform === "win32" }, async () => {
+  const backend = createBackend("noisy", {
+    type: "cli",
+    command: "sh",
+    args: ["-c", "cat >/dev/null; while :; do echo warning >&2; sleep 0.05; done"]
+  }, { ...DEFAULT_TIMEOUTS, firstByteMs: 300, killGraceMs: 100 });
+  await assert.rejects(backend.run("ignored"), (error: GeminiError) => error.code === "FIRST_BYTE_TIMEOUT");
+});
+
+test("orders the selected backend before the fallbacks, once each", () => {
+  const config = { ...DEFAULT_BACKENDS, fallback: ["local", "gemini", "local"] };
+  assert.deepEqual(backendOrder("gemini", config), ["gemini", "local"]);
+  assert.deepEqual(backendOrder("other", config), ["other", "local", "gemini"]);
+  assert.equal(shouldFallBack(new GeminiError("EMPTY_RESPONSE", "empty")), false);
+});
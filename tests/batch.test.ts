@@ -0,0 +1,60 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { CancelledError, GeminiError, errorResult } from "../src/errors.js";
+import { BatchItem, formatBatch, runBatch } from "../src/batch.js";
+
+const items: BatchItem[] = ["a", "b", "c", "d", "e"].map((name) => ({ label: name, message: `review ${name}` }));
+
+function answer(text: string): CallToolResult {
+  return { content: [{ type: "text", text }], _meta: { attempts: [{ attempt: 1 }] } };
+}
+
+test("runs items with bounded concurrency and keeps their order", async () => {
+  let running = 0;
+  let peak = 0;
+  const summary = await runBatch(items, async (item, index) => {
+    running++;
+    peak = Math.max(peak, running);
+    await new Promise((resolve) => setTimeout(resolve, 20 * (5 - index)));
+    running--;
+    return answer(item.message.toUpperCase());
+  }, { concurrency: 2 });
+
+  assert.equal(peak, 2);
+  assert.equal(summary.succeeded, 5);
+  assert.deepEqual(summary.items.map((item) => item.response), ["REVIEW A", "REVIEW B", "REVIEW C", "REVIEW D", "REVIEW E"]);
+  assert.equal(summary.items[0].attempts, 1);
+});
+
+test("reports failed items without stopping the rest", async () => {
+  const done: number[] = [];
+  const summary = await runBatch(items, async (item) => {
+    if (item.label === "b") return errorResult(new GeminiError("QUOTA_EXCEEDED", "Gemini quota exceeded", true));
+    if (item.label === "d") throw new Error("boom");
+    return answer("ok");
+  }, { concurrency: 3, onItemDone: (_result, count) => done.push(count) });
+
+  assert.deepEqual([summary.succeeded, summary.failed, summary.cancelled], [3, 2, 0]);
+  assert.deepEqual(summary.items[1].error, { code: "QUOTA_EXCEEDED", message: "Gemini quota exceeded" });
+  assert.deepEqual(summary.items[3].error, { code: "PROCESS_ERROR", message: "boom" });
+  assert.deepEqual(done, [1, 2, 3, 4, 5]);
+
+  const text = formatBatch(summary);
+  assert.match(text, /^Batch of 5: 3 succeeded, 2 failed, 0 cancelled/);
+  assert.match(text, /## \[2\] b: failed .*\n\nError \[QUOTA_EXCEEDED\]/);
+});
+
+test("items not started when the batch is cancelled are marked cancelled", async () => {
+  const controller = new AbortController();
+  const summary = await runBatch(items, async (item) => {
+    if (item.label === "b") {
+      controller.abort();
+      return errorResult(new CancelledError());
+    }
+    return answer("ok");
+  }, { concurrency: 1, signal: controller.signal });
+
+  assert.deepEqual(summary.items.map((item) => item.status), ["succeeded", "cancelled", "cancelled", "cancelled", "cancelled"]);
+  assert.equal(summary.items[4].durationMs, 0);
+});
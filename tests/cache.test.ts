@@ -0,0 +1,70 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { DEFAULT_CACHE, ResponseCache, cacheKey, normalizePrompt } from "../src/cache.js";
+
+const answer = { response: "42", notices: "", backend: "gemini" };
+
+test("keys change with referenced file contents, model and CLI version", async () => {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), "gemini-cache-"));
+  try {
+    const file = path.join(root, "a.ts");
+    fs.writeFileSync(file, "export const a = 1;\n");
+    const parts = { prompt: `Review @${file}`, files: [file], backend: "gemini", model: "gemini-2.5-pro", cliVersion: "0.1.0" };
+
+    const key = await cacheKey(parts);
+    assert.equal(await cacheKey({ ...parts, prompt: `  Review @${file}  \r\n` }), key);
+    assert.notEqual(await cacheKey({ ...parts, model: "gemini-2.5-flash" }), key);
+    assert.notEqual(await cacheKey({ ...parts, cliVersion: "0.2.0" }), key);
+
+    fs.writeFileSync(file, "export const a = 2;\n");
+    assert.notEqual(await cacheKey(parts), key);
+  } finally {
+    fs.rmSync(root, { recursive: true, force: true });
+  }
+});
+
+test("normalizes line endings and trailing whitespace only", () => {
+  assert.equal(normalizePrompt("  a  \r\n  b\t\r\n\n"), "a\n  b");
+  assert.notEqual(normalizePrompt("a b"), normalizePrompt("a  b"));
+});
+
+test("evicts the least recently used entries and expires old ones", async () => {
+  const cache = new ResponseCache({ ...DEFAULT_CACHE, enabled: true, maxEntries: 2, ttlMs: 50 });
+  await cache.set("a", answer);
+  await cache.set("b", answer);
+  assert.ok(await cache.get("a"));
+  await cache.set("c", answer);
+
+  assert.equal(await cache.get("b"), undefined);
+  assert.ok(await cache.get("a"));
+  await new Promise((resolve) => setTimeout(resolve, 60));
+  assert.equal(await cache.get("c"), undefined);
+
+  const stats = cache.stats();
+  assert.equal(stats.hits, 2);
+  assert.equal(stats.misses, 2);
+  assert.equal(stats.evictions, 1);
+});
+
+test("keeps entries on disk across instances and prunes to the size limit", async () => {
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), "gemini-cache-"));
+  try {
+    const config = { ...DEFAULT_CACHE, enabled: true, disk: true };
+    await new ResponseCache(config, directory).set("a", answer);
+
+    const reopened = new ResponseCache(config, directory);
+    assert.equal((await reopened.get("a"))?.response, "42");
+    assert.equal(reopened.stats().diskHits, 1);
+
+    const earlier = new Date(Date.now() - 10000);
+    fs.utimesSync(path.join(directory, "a.json"), earlier, earlier);
+    await reopened.set("b", { ...answer, response: "x".repeat(1000) });
+    assert.equal(await new ResponseCache({ ...config, maxDiskBytes: 1200 }, directory).prune(), 1);
+    assert.deepEqual(fs.readdirSync(directory).sort(), ["b.json"]);
+  } finally {
+    fs.rmSync(directory, { recursive: true, force: true });
+  }
+});
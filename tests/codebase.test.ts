@@ -0,0 +1,122 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { DEFAULT_CONTEXT_PACK, collectFiles, isIgnored, packContext, parseGitignore } from "../src/codebase.js";
+
+function makeTree(files: Record<string, string | Buffer>): string {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), "gemini-codebase-"));
+  for (const [file, content] of Object.entries(files)) {
+    fs.mkdirSync(path.dirname(path.join(root, file)), { recursive: true });
+    fs.writeFileSync(path.join(root, file), content);
+  }
+  return root;
+}
+
+test("applies .gitignore rules the way git does", () => {
+  const rules = parseGitignore("# build output\n*.log\n/dist/\nbuild/\n!keep.log\ndocs/*.tmp\n");
+  assert.equal(isIgnored("a.log", false, rules), true);
+  assert.equal(isIgnored("src/deep/b.log", false, rules), true);
+  assert.equal(isIgnored("keep.log", false, rules), false);
+  assert.equal(isIgnored("dist", true, rules), true);
+  assert.equal(isIgnored("src/dist", true, rules), false);
+  assert.equal(isIgnored("src/build", true, rules), true);
+  assert.equal(isIgnored("build", false, rules), false);
+  assert.equal(isIgnored("docs/a.tmp", false, rules), true);
+  assert.equal(isIgnored("docs/sub/a.tmp", false, rules), false);
+
+  const nested = parseGitignore("generated.ts\n", "src");
+  assert.equal(isIgnored("src/generated.ts", false, nested), true);
+  assert.equal(isIgnored("generated.ts", false, nested), false);
+});
+
+test("collects files by glob, honoring nested .gitignore files", async () => {
+  const root = makeTree({
+    ".gitignore": "dist/\n*.log\n",
+    "src/.gitignore": "generated.ts\n",
+    "src/index.ts": "export {};\n",
+    "src/generated.ts": "export {};\n",
+    "src/index.test.ts": "test();\n",
+    "dist/index.js": "",
+    "debug.log": "",
+    "README.md": "# Readme\n",
+    "node_modules/pkg/index.js": ""
+  });
+  try {
+    const all = await collectFiles(root, { include: ["**/*"], exclude: [], maxFiles: 100 });
+    assert.deepEqual(all.files, [".gitignore", "README.md", "src/.gitignore", "src/index.test.ts", "src/index.ts"]);
+    assert.equal(all.ignored, 3);
+
+    const sources = await collectFiles(root, { include: ["src/**/*.ts"], exclude: ["**/*.test.ts"], maxFiles: 100 });
+    assert.deepEqual(sources.files, ["src/index.ts"]);
+
+    const limited = await collectFiles(root, { include: ["**/*"], exclude: [], maxFiles: 2 });
+    assert.equal(limited.files.length, 2);
+    assert.equal(limited.limitReached, true);
+
+    await assert.rejects(collectFiles(root, { include: ["../**"], exclude: [], maxFiles: 100 }), /relative to the working directory/);
+  } finally {
+    fs.rmSync(root, { recursive: true, force: true });
+  }
+});
+
+test("inlines files within the budget, truncating and omitting the rest", async () => {
+  const root = makeTree({
+    "a.txt": "a".repeat(4000),
+    "b.bin": Buffer.from([0x89, 0x50, 0x00, 0x01]),
+    "c.txt": "c".repeat(8000),
+    "d.txt": "d".repeat(400)
+  });
+  try {
+    const collected = await collectFiles(root, { include: ["**/*"], exclude: [], maxFiles: 100 });
+    // 4 characters per token: a costs 1000, the question 1, leaving 1499 for c (2000 tokens)
+    const config = { ...DEFAULT_CONTEXT_PACK, tokenBudget: 2500 };
+    const { prompt, manifest } = await packContext(root, collected, "Why?", "inline", config);
+
+    assert.deepEqual(manifest.files.map((entry) => [entry.path, entry.status]), [
+      ["a.txt", "included"],
+      ["c.txt", "truncated"],
+      ["d.txt", "omitted"]
+    ]);
+    assert.equal(manifest.skipped.binary, 1);
+    assert.equal(manifest.tokens, 2499);
+    assert.match(prompt, /^Why\?\n\nFiles from .+ \(2 of 3, about 2499 tokens\):\n\n--- FILE: a\.txt ---\na{4000}\n--- END FILE: a\.txt ---/);
+    assert.match(prompt, /--- FILE: c\.txt \(truncated: cut to the remaining budget \(1499 of 2000 tokens\)\) ---\nc{5996}\n/);
+    assert.match(prompt, /Not included \(1 files\):\n- d\.txt$/);
+
+    const small = await packContext(root, collected, "Why?", "inline", { ...DEFAULT_CONTEXT_PACK, maxFileBytes: 1024 });
+    assert.equal(small.manifest.files.find((entry) => entry.path === "c.txt")?.reason, "first 1 KB of 8 KB");
+  } finally {
+    fs.rmSync(root, { recursive: true, force: true });
+  }
+});
+
+test("escapes @ in inlined contents so the CLI does not read other files", async () => {
+  const root = makeTree({ "@scope/index.ts": "// copied from @/outside/path and @../x\n" });
+  try {
+    const collected = await collectFiles(root, { include: ["**/*"], exclude: [], maxFiles: 100 });
+    const packed = await packContext(root, collected, "Why?", "inline", DEFAULT_CONTEXT_PACK);
+    assert.deepEqual(packed.references, []);
+    assert.match(packed.prompt, /--- FILE: \\@scope\/index\.ts ---\n\/\/ copied from \\@\/outside\/path and \\@\.\.\/x\n/);
+    assert.doesNotMatch(packed.prompt, /(?<!\\)@/);
+  } finally {
+    fs.rmSync(root, { recursive: true, force: true });
+  }
+});
+
+test("references files by absolute path in reference mode", async () => {
+  const root = makeTree({ "big.txt": "x".repeat(3000), "small.txt": "small" });
+  try {
+    const collected = await collectFiles(root, { include: ["**/*.txt"], exclude: [], maxFiles: 100 });
+    const packed = await packContext(root, collected, "Summarize", "reference", { ...DEFAULT_CONTEXT_PACK, maxFileBytes: 2048 });
+    assert.deepEqual(packed.references, [path.join(root, "small.txt")]);
+    assert.deepEqual(packed.manifest.files.map((entry) => [entry.path, entry.status, entry.reason]), [
+      ["big.txt", "omitted", "larger than 2 KB"],
+      ["small.txt", "included", undefined]
+    ]);
+    assert.match(packed.prompt, new RegExp(`\n@${path.join(root, "small.txt")}\n`));
+  } finally {
+    fs.rmSync(root, { recursive: true, force: true });
+  }
+});
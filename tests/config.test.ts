@@ -0,0 +1,72 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { defaultConfig, loadConfig } from "../src/config.js";
+
+function withConfigFile(content: string, run: (configFile: string) => void): void {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "gemini-config-"));
+  try {
+    const configFile = path.join(dir, "config.json");
+    fs.writeFileSync(configFile, content);
+    run(configFile);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+test("layers defaults, the config file, the environment and arguments in that order", () => {
+  const file = {
+    transport: { mode: "http", host: "file-host", port: 9001, sessionIdleMs: 5000 },
+    gemini: { binary: "file-gemini", defaultModel: "file-model" },
+    retry: { maxAttempts: 7 }
+  };
+  withConfigFile(JSON.stringify(file), (configFile) => {
+    const env = { GEMINI_MCP_CONFIG: configFile, GEMINI_MCP_LISTEN_HOST: "env-host", GEMINI_MCP_LISTEN_PORT: "9002", GEMINI_MCP_MODEL: "env-model" };
+    const config = loadConfig(env, ["--port", "9003", "--stdio"]);
+    const defaults = defaultConfig();
+
+    assert.equal(config.configFile, configFile);
+    // Only in the defaults
+    assert.equal(config.timeouts.totalMs, defaults.timeouts.totalMs);
+    // File over defaults
+    assert.equal(config.transport.sessionIdleMs, 5000);
+    assert.equal(config.gemini.binary, "file-gemini");
+    assert.equal(config.retry.maxAttempts, 7);
+    // Environment over the file
+    assert.equal(config.gemini.defaultModel, "env-model");
+    assert.equal(config.transport.host, "env-host");
+    // Arguments over the environment and the file
+    assert.equal(config.transport.port, 9003);
+    assert.equal(config.transport.mode, "stdio");
+  });
+});
+
+test("ignores malformed sections and values but rejects a file that is not an object", () => {
+  const file = { transport: "http", gemini: { binary: 42, extraArgs: ["--yolo"] }, timeouts: { totalMs: "soon" } };
+  withConfigFile(JSON.stringify(file), (configFile) => {
+    const config = loadConfig({ GEMINI_MCP_CONFIG: configFile }, []);
+    const defaults = defaultConfig();
+    assert.equal(config.transport.mode, defaults.transport.mode);
+    assert.equal(config.gemini.binary, defaults.gemini.binary);
+    assert.deepEqual(config.gemini.extraArgs, ["--yolo"]);
+    assert.equal(config.timeouts.totalMs, defaults.timeouts.totalMs);
+  });
+  withConfigFile(JSON.stringify({ backends: { definitions: { local: { type: "cli", command: "llm", args: ["-q", 1], output: "json", env: { N: 1 } } } } }), (configFile) => {
+    assert.deepEqual(loadConfig({ GEMINI_MCP_CONFIG: configFile }, []).backends.definitions.local,
+      { type: "cli", command: "llm", args: ["-q", "1"], env: { N: "1" } });
+  });
+  withConfigFile(JSON.stringify({ backends: { definitions: { local: "http://localhost" } } }), (configFile) => {
+    assert.throws(() => loadConfig({ GEMINI_MCP_CONFIG: configFile }, []), /Backend "local" must be an object/);
+  });
+  withConfigFile(JSON.stringify({ backends: { definitions: { local: { type: "http", baseUrl: 1 } } } }), (configFile) => {
+    assert.throws(() => loadConfig({ GEMINI_MCP_CONFIG: configFile }, []), /Backend "local" needs type "cli"/);
+  });
+  withConfigFile("[1, 2]", (configFile) => {
+    assert.throws(() => loadConfig({ GEMINI_MCP_CONFIG: configFile }, []), /must contain a JSON object/);
+  });
+  withConfigFile("{", (configFile) => {
+    assert.throws(() => loadConfig({ GEMINI_MCP_CONFIG: configFile }, []), /Failed to read config file/);
+  });
+});
@@ -0,0 +1,59 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { ConversationStore } from "../src/conversations.js";
+
+function storeWithTwoExchanges(): ConversationStore {
+  const store = new ConversationStore();
+  store.appendExchange("c1", "first question", "first answer");
+  store.appendExchange("c1", "second question", "second answer");
+  return store;
+}
+
+test("sends the message alone when there is no history", () => {
+  const store = new ConversationStore();
+  assert.deepEqual(store.buildPrompt("new", "Hello"), { prompt: "Hello", includedTurns: 0, droppedTurns: 0 });
+});
+
+test("replays prior turns in order before the new message", () => {
+  const store = storeWithTwoExchanges();
+  const built = store.buildPrompt("c1", "third question");
+  assert.equal(built.includedTurns, 4);
+  assert.equal(built.droppedTurns, 0);
+  assert.match(built.prompt, /^The following is our conversation so far\..*\n\n\[User\]\nfirst question\n\n\[Assistant\]\nfirst answer\n\n\[User\]\nsecond question\n\n\[Assistant\]\nsecond answer\n\n\[User\]\nthird question$/);
+});
+
+test("drops the oldest turns first and never starts on an assistant turn", () => {
+  const store = storeWithTwoExchanges();
+  const full = store.buildPrompt("c1", "third question");
+  // The budget counts everything but the final separator, so this is exactly enough
+  assert.equal(store.buildPrompt("c1", "third question", full.prompt.length - 2).includedTurns, 4);
+
+  // One character short: the first question no longer fits, and its answer alone is not replayed
+  const trimmed = store.buildPrompt("c1", "third question", full.prompt.length - 3);
+  assert.equal(trimmed.includedTurns, 2);
+  assert.equal(trimmed.droppedTurns, 2);
+  assert.doesNotMatch(trimmed.prompt, /first/);
+  assert.match(trimmed.prompt, /\[User\]\nsecond question\n\n\[Assistant\]\nsecond answer\n\n\[User\]\nthird question$/);
+
+  const none = store.buildPrompt("c1", "third question", 10);
+  assert.deepEqual(none, { prompt: "third question", includedTurns: 0, droppedTurns: 4 });
+});
+
+test("forks a copy, optionally cut after a number of turns", () => {
+  const store = storeWithTwoExchanges();
+  const copy = store.fork("c1", "copy");
+  assert.equal(copy.forkedFrom, "c1");
+  assert.equal(copy.turns.length, 4);
+
+  const early = store.fork("c1", "early", 2);
+  assert.deepEqual(early.turns.map((turn) => turn.content), ["first question", "first answer"]);
+
+  // Forks are independent of the source
+  store.appendExchange("early", "other question", "other answer");
+  assert.equal(store.get("c1")!.turns.length, 4);
+  copy.turns[0].content = "changed";
+  assert.equal(store.get("c1")!.turns[0].content, "first question");
+
+  assert.throws(() => store.fork("missing", "x"), /Conversation not found: missing/);
+  assert.throws(() => store.fork("c1", "copy"), /Conversation already exists: copy/);
+});
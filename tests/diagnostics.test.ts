@@ -0,0 +1,67 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { CliProbe, CliProbeCache, findExecutable, probeCli, summarizeErrors } from "../src/diagnostics.js";
+import type { ExchangeRecord } from "../src/storage.js";
+
+function tempDir(): string {
+  return fs.mkdtempSync(path.join(os.tmpdir(), "gemini-diagnostics-"));
+}
+
+function fakeCli(directory: string): string {
+  const file = path.join(directory, "gemini");
+  fs.writeFileSync(file, "#!/bin/sh\necho 0.1.9\n", { mode: 0o755 });
+  return file;
+}
+
+test("finds the CLI through PATH and reads its version and credentials", { skip: process.platform === "win32" }, async () => {
+  const bin = tempDir();
+  const home = tempDir();
+  const cli = fakeCli(bin);
+  fs.mkdirSync(path.join(home, ".gemini"));
+  fs.writeFileSync(path.join(home, ".gemini", "oauth_creds.json"), "{}");
+
+  const env = { PATH: `${bin}${path.delimiter}/bin${path.delimiter}/usr/bin`, HOME: home, GEMINI_API_KEY: "secret" };
+  assert.equal(await findExecutable("gemini", env), cli);
+
+  const probe = await probeCli("gemini", env);
+  assert.deepEqual(probe.binary, { command: "gemini", found: true, path: cli, version: "0.1.9" });
+  assert.equal(probe.credentials.oauthCredentialsPresent, true);
+  assert.deepEqual(probe.credentials.apiKeyVariables, ["GEMINI_API_KEY"]);
+});
+
+test("reports a missing binary", async () => {
+  const probe = await probeCli("gemini-not-installed", { PATH: tempDir(), HOME: tempDir() });
+  assert.equal(probe.binary.found, false);
+  assert.equal(probe.credentials.oauthCredentialsPresent, false);
+});
+
+test("caches probes until refreshed or invalidated", async () => {
+  let runs = 0;
+  const cache = new CliProbeCache(async () => {
+    runs++;
+    return { checkedAt: "", binary: { command: "gemini", found: true }, credentials: {} } as CliProbe;
+  });
+
+  // Concurrent callers share one probe
+  await Promise.all([cache.get(), cache.get()]);
+  assert.equal(runs, 1);
+  assert.equal((await cache.get()).cached, true);
+  assert.equal((await cache.get(true)).cached, false);
+  cache.invalidate();
+  await cache.get();
+  assert.equal(runs, 3);
+});
+
+test("summarizes recent error rates by code", () => {
+  const record = (errorCode?: string) => ({ error: errorCode ? "failed" : undefined, errorCode }) as ExchangeRecord;
+  assert.deepEqual(summarizeErrors([record(), record("QUOTA_EXCEEDED"), record("QUOTA_EXCEEDED"), record()], 60), {
+    windowMinutes: 60,
+    requests: 4,
+    errors: 2,
+    errorRate: 0.5,
+    byCode: { QUOTA_EXCEEDED: 2 }
+  });
+});
@@ -0,0 +1,75 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as path from "path";
+import { classifyFailure, errorResult, parseRetryDelay, QuotaExceededError, TimeoutError } from "../src/errors.js";
+import { parseGeminiOutput } from "../src/output-parser.js";
+
+const FIXTURES_DIR = path.join(__dirname, "fixtures", "output-parser");
+
+function classifyFixture(name: string, exitCode: number | null = 1) {
+  const stdout = fs.readFileSync(path.join(FIXTURES_DIR, name, "stdout.txt"), "utf8");
+  const stderr = fs.readFileSync(path.join(FIXTURES_DIR, name, "stderr.txt"), "utf8");
+  return classifyFailure({ stdout, stderr, exitCode, parsed: parseGeminiOutput(stdout, stderr) });
+}
+
+test("classifies a daily quota failure", () => {
+  const error = classifyFixture("quota-exhausted");
+  assert.equal(error.code, "QUOTA_EXCEEDED");
+  assert.equal(error.retryable, true);
+});
+
+test("reads the retry delay from a quota error dump", () => {
+  const error = classifyFixture("quota-fallback");
+  assert.ok(error instanceof QuotaExceededError);
+  assert.equal(error.retryAfterMs, 38000);
+});
+
+test("classifies expired credentials", () => {
+  const error = classifyFailure({
+    stderr: "Error: invalid_grant - Token has been expired or revoked.\n",
+    exitCode: 1
+  });
+  assert.equal(error.code, "AUTH_EXPIRED");
+  assert.equal(error.retryable, false);
+});
+
+test("falls back to non-zero exit and empty response", () => {
+  assert.equal(classifyFailure({ stderr: "Segmentation fault\n", exitCode: 139 }).code, "NON_ZERO_EXIT");
+  assert.equal(classifyFailure({ stdout: "Loaded cached credentials.\n", exitCode: 0 }).code, "EMPTY_RESPONSE");
+});
+
+test("parses retry delays in several formats", () => {
+  assert.equal(parseRetryDelay('"retryDelay": "2.5s"'), 2500);
+  assert.equal(parseRetryDelay("Please retry in 12 seconds."), 12000);
+  assert.equal(parseRetryDelay("retry after 1m"), 60000);
+  assert.equal(parseRetryDelay("no delay here"), undefined);
+});
+
+test("builds an isError tool result with a machine-readable code", () => {
+  const result = errorResult(new QuotaExceededError("limit reached", {}, 30000));
+  assert.equal(result.isError, true);
+  assert.deepEqual(result.structuredContent, {
+    error: {
+      code: "QUOTA_EXCEEDED",
+      message: "Gemini quota exceeded: limit reached",
+      retryable: true,
+      retryAfterSeconds: 30
+    }
+  });
+});
+
+test("reports which timeout fired along with the partial answer", () => {
+  const result = errorResult(new TimeoutError("total", 90000, { stdout: "The first half" }, "The first half"));
+  assert.equal(result.isError, true);
+  assert.match((result.content[0] as { text: string }).text, /did not finish within 90 seconds[\s\S]*Partial output before the timeout \(14 chars\):\nThe first half/);
+  assert.deepEqual(result.structuredContent, {
+    error: {
+      code: "TOTAL_TIMEOUT",
+      message: "Gemini did not finish within 90 seconds",
+      retryable: false,
+      timeout: { limit: "total", limitMs: 90000 },
+      partialOutput: "The first half"
+    }
+  });
+});
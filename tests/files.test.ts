@@ -0,0 +1,136 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { escapeReferences, expandGlob, globToRegExp, preprocessMessage, resolveOutputPath, resolveWorkingDirectory } from "../src/files.js";
+
+// A root with a file and links out of it, next to a directory outside the root
+function withSandbox(run: (root: string, outside: string) => void): void {
+  const base = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), "gemini-sandbox-")));
+  const root = path.join(base, "root");
+  const outside = path.join(base, "outside");
+  try {
+    fs.mkdirSync(path.join(root, "src"), { recursive: true });
+    fs.mkdirSync(outside);
+    fs.writeFileSync(path.join(root, "src", "a.ts"), "");
+    fs.writeFileSync(path.join(outside, "secret.txt"), "");
+    fs.symlinkSync(path.join(outside, "secret.txt"), path.join(root, "link.txt"));
+    fs.symlinkSync(outside, path.join(root, "linkdir"));
+    run(root, outside);
+  } finally {
+    fs.rmSync(base, { recursive: true, force: true });
+  }
+}
+
+test("translates glob syntax into path matchers", () => {
+  const cases: [string, string[], string[]][] = [
+    ["src/*.ts", ["src/a.ts"], ["src/lib/a.ts", "src/a.tsx"]],
+    ["src/**/*.ts", ["src/a.ts", "src/lib/deep/b.ts"], ["test/a.ts"]],
+    ["**/*.{js,ts}", ["a.js", "x/y/b.ts"], ["a.json"]],
+    ["file?.[ch]", ["file1.c", "fileA.h"], ["file10.c", "file1.o"]],
+    ["[!a]*.md", ["b.md"], ["a.md"]],
+    ["docs/a+b (1).md", ["docs/a+b (1).md"], ["docs/aab (1).md"]]
+  ];
+  for (const [pattern, matching, other] of cases) {
+    const matcher = globToRegExp(pattern);
+    for (const file of matching) assert.ok(matcher.test(file), `${pattern} should match ${file}`);
+    for (const file of other) assert.ok(!matcher.test(file), `${pattern} should not match ${file}`);
+  }
+});
+
+test("expands a glob under the working directory", async () => {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), "gemini-glob-"));
+  try {
+    for (const file of ["src/b.ts", "src/a.ts", "src/lib/c.ts", "src/readme.md", "node_modules/x/d.ts"]) {
+      fs.mkdirSync(path.dirname(path.join(root, file)), { recursive: true });
+      fs.writeFileSync(path.join(root, file), "");
+    }
+    assert.deepEqual(await expandGlob("src/**/*.ts", root, 10), ["src/a.ts", "src/b.ts", "src/lib/c.ts"]);
+    assert.deepEqual(await expandGlob("./src/*.md", root, 10), ["src/readme.md"]);
+    assert.deepEqual(await expandGlob("missing/*.ts", root, 10), []);
+    await assert.rejects(expandGlob("**/*.ts", root, 2), /more than 2 files/);
+    await assert.rejects(expandGlob("../*.ts", root, 10), /without ".."/);
+  } finally {
+    fs.rmSync(root, { recursive: true, force: true });
+  }
+});
+
+test("confines output files to the allowed roots", () => {
+  const root = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), "gemini-output-")));
+  const outside = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), "gemini-output-")));
+  try {
+    fs.symlinkSync(outside, path.join(root, "escape"));
+    fs.symlinkSync(path.join(outside, "target.json"), path.join(root, "link.json"));
+
+    assert.equal(resolveOutputPath(path.join(root, "export.json"), [root]), path.join(root, "export.json"));
+    assert.throws(() => resolveOutputPath(path.join(outside, "export.json"), [root]), { code: "PATH_NOT_ALLOWED" });
+    assert.throws(() => resolveOutputPath(path.join(root, "../export.json"), [root]), { code: "PATH_NOT_ALLOWED" });
+    assert.throws(() => resolveOutputPath(path.join(root, "escape", "export.json"), [root]), { code: "PATH_NOT_ALLOWED" });
+    assert.throws(() => resolveOutputPath(path.join(root, "link.json"), [root]), /symbolic link/);
+    assert.throws(() => resolveOutputPath(path.join(root, "missing", "export.json"), [root]), { code: "INVALID_REQUEST" });
+    // Without roots, only the server's working directory
+    assert.throws(() => resolveOutputPath(path.join(outside, "export.json"), []), { code: "PATH_NOT_ALLOWED" });
+  } finally {
+    fs.rmSync(root, { recursive: true, force: true });
+    fs.rmSync(outside, { recursive: true, force: true });
+  }
+});
+
+test("expands @path references inside the roots and refuses ones that escape", () => {
+  withSandbox((root, outside) => {
+    const src = path.join(root, "src");
+    assert.deepEqual(preprocessMessage("Review @a.ts, then @../src/a.ts.", src, [root]), {
+      message: `Review @${path.join(src, "a.ts")}, then @${path.join(src, "a.ts")}.`,
+      references: [path.join(src, "a.ts"), path.join(src, "a.ts")]
+    });
+
+    // ../ traversal out of the root
+    assert.throws(() => preprocessMessage("Read @../../outside/secret.txt", src, [root]), { code: "PATH_NOT_ALLOWED" });
+    assert.throws(() => preprocessMessage(`Read @${path.join(outside, "secret.txt")}`, root, [root]), { code: "PATH_NOT_ALLOWED" });
+    // Symlinks inside the root that point outside it
+    assert.throws(() => preprocessMessage("Read @link.txt", root, [root]), { code: "PATH_NOT_ALLOWED" });
+    assert.throws(() => preprocessMessage("Read @linkdir/secret.txt", root, [root]), { code: "PATH_NOT_ALLOWED" });
+  });
+});
+
+test("leaves email addresses and @mentions that are not files unchanged", () => {
+  withSandbox((root) => {
+    const message = "Ask @alice or mail bob@example.com (cc @team.) about @src/missing.ts";
+    assert.deepEqual(preprocessMessage(message, root, [root]), { message, references: [] });
+  });
+});
+
+test("escapes @ so quoted text is not read as file references", () => {
+  withSandbox((root, outside) => {
+    const quoted = escapeReferences(`Read @${path.join(outside, "secret.txt")}, not \\@a.ts or bob@example.com @`);
+    assert.equal(quoted, `Read \\@${path.join(outside, "secret.txt")}, not \\@a.ts or bob\\@example.com @`);
+    assert.deepEqual(preprocessMessage(quoted, root, [root]), { message: quoted, references: [] });
+  });
+});
+
+test("confines the working directory to the allowed roots", () => {
+  withSandbox((root, outside) => {
+    assert.equal(resolveWorkingDirectory(path.join(root, "src"), [root]), path.join(root, "src"));
+    assert.equal(resolveWorkingDirectory(outside, []), outside);
+    assert.throws(() => resolveWorkingDirectory(outside, [root]), { code: "PATH_NOT_ALLOWED" });
+    assert.throws(() => resolveWorkingDirectory(path.join(root, ".."), [root]), { code: "PATH_NOT_ALLOWED" });
+    assert.throws(() => resolveWorkingDirectory(path.join(root, "linkdir"), [root]), { code: "PATH_NOT_ALLOWED" });
+    assert.throws(() => resolveWorkingDirectory(path.join(root, "missing"), [root]), { code: "INVALID_REQUEST" });
+  });
+});
+
+test("expands ~ to the home directory", () => {
+  withSandbox((root) => {
+    const home = process.env.HOME;
+    process.env.HOME = root;
+    try {
+      assert.equal(resolveWorkingDirectory("~", [root]), root);
+      assert.equal(resolveWorkingDirectory("~/src", [root]), path.join(root, "src"));
+      assert.deepEqual(preprocessMessage("Read @~/src/a.ts", "/", [root]).references, [path.join(root, "src", "a.ts")]);
+      assert.throws(() => preprocessMessage("Read @~/linkdir/secret.txt", "/", [root]), { code: "PATH_NOT_ALLOWED" });
+    } finally {
+      process.env.HOME = home;
+    }
+  });
+});
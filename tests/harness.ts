@@ -0,0 +1,113 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+
+// Runs the server from source over stdio with the fake Gemini CLI first on PATH.
+// HOME, the config and data directories all point into a temporary directory, so
+// nothing from the machine running the tests (credentials, config, history) leaks in.
+
+const REPO_ROOT = path.resolve(__dirname, "..");
+const FAKE_GEMINI_DIR = path.join(__dirname, "fixtures", "fake-gemini");
+
+// One run of the fake CLI (see tests/fixtures/fake-gemini/gemini)
+export interface FakeRun {
+  // Answer as one string or as chunks printed chunkDelayMs apart (default: echo the prompt)
+  stdout?: string | string[];
+  stderr?: string;
+  // Wait before printing anything
+  delayMs?: number;
+  chunkDelayMs?: number;
+  exitCode?: number;
+  // Print "Loaded cached credentials." first (default: true)
+  banner?: boolean;
+  // Fail with a 429 RESOURCE_EXHAUSTED error; a string is the reported retryDelay (e.g. "1s")
+  quota?: boolean | string;
+  // Also print the size of every @/absolute/path in the prompt ("missing" when it does not exist; \@ is skipped)
+  readFiles?: boolean;
+}
+
+export interface FakeScenario {
+  // Printed for --version
+  version?: string;
+  // The Nth invocation plays the Nth run; the last one repeats
+  runs?: FakeRun[];
+}
+
+export interface Invocation {
+  args: string[];
+  prompt: string;
+}
+
+export interface HarnessOptions {
+  // Written to the server's config file
+  config?: Record<string, unknown>;
+  env?: Record<string, string>;
+}
+
+export class Harness {
+  readonly client = new Client({ name: "gemini-mcp-tests", version: "1.0.0" });
+  readonly home: string;
+  private scenarioFile: string;
+  private logFile: string;
+
+  constructor(private options: HarnessOptions = {}) {
+    this.home = fs.mkdtempSync(path.join(os.tmpdir(), "gemini-mcp-harness-"));
+    this.scenarioFile = path.join(this.home, "scenario.json");
+    this.logFile = path.join(this.home, "invocations.jsonl");
+  }
+
+  async start(): Promise<void> {
+    const configFile = path.join(this.home, "config.json");
+    fs.writeFileSync(configFile, JSON.stringify(this.options.config ?? {}));
+    const transport = new StdioClientTransport({
+      command: process.execPath,
+      args: ["--import", "tsx", path.join(REPO_ROOT, "src", "server.ts")],
+      cwd: REPO_ROOT,
+      env: {
+        PATH: `${FAKE_GEMINI_DIR}${path.delimiter}${process.env.PATH ?? ""}`,
+        HOME: this.home,
+        XDG_CONFIG_HOME: path.join(this.home, "config"),
+        XDG_DATA_HOME: path.join(this.home, "data"),
+        GEMINI_MCP_CONFIG: configFile,
+        GEMINI_MCP_STORAGE: "memory",
+        FAKE_GEMINI_SCENARIO: this.scenarioFile,
+        FAKE_GEMINI_LOG: this.logFile,
+        ...this.options.env
+      },
+      stderr: process.env.GEMINI_MCP_TEST_DEBUG ? "inherit" : "ignore"
+    });
+    await this.client.connect(transport);
+  }
+
+  // Replace the scenario and forget earlier invocations
+  script(scenario: FakeScenario): void {
+    fs.writeFileSync(this.scenarioFile, JSON.stringify(scenario));
+    fs.rmSync(this.logFile, { force: true });
+  }
+
+  invocations(): Invocation[] {
+    if (!fs.existsSync(this.logFile)) return [];
+    return fs.readFileSync(this.logFile, "utf8").split("\n").filter(Boolean).map((line) => JSON.parse(line));
+  }
+
+  async call(name: string, args: Record<string, unknown> = {}): Promise<CallToolResult> {
+    return await this.client.callTool({ name, arguments: args }) as CallToolResult;
+  }
+
+  async close(): Promise<void> {
+    await this.client.close();
+    fs.rmSync(this.home, { recursive: true, force: true });
+  }
+}
+
+export function text(result: CallToolResult, index: number = 0): string {
+  const item = result.content[index];
+  return item?.type === "text" ? item.text : "";
+}
+
+export function errorCode(result: CallToolResult): string | undefined {
+  return (result.structuredContent as { error?: { code: string } } | undefined)?.error?.code;
+}
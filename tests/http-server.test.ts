@@ -0,0 +1,136 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import * as http from "http";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { DEFAULT_TRANSPORT, McpHttpServer, TransportConfig } from "../src/http-server.js";
+import { loadConfig } from "../src/config.js";
+
+const TOKEN = "s3cret";
+
+// Every session gets a server whose tool reports which session number it belongs to
+async function withHttpServer(
+  overrides: Partial<TransportConfig>,
+  run: (baseUrl: string, server: McpHttpServer) => Promise<void>
+): Promise<void> {
+  let created = 0;
+  const server = new McpHttpServer({ ...DEFAULT_TRANSPORT, mode: "http", port: 0, ...overrides }, () => {
+    const index = ++created;
+    const mcp = new McpServer({ name: "test", version: "1.0.0" });
+    mcp.registerTool("whoami", { description: "Session number" }, async () => ({
+      content: [{ type: "text", text: `session ${index}` }]
+    }));
+    return mcp;
+  }, () => ({ version: "test" }));
+  const address = await server.start();
+  try {
+    await run(`http://127.0.0.1:${address.port}`, server);
+  } finally {
+    await server.close();
+  }
+}
+
+async function connect(baseUrl: string, token?: string): Promise<Client> {
+  const client = new Client({ name: "test-client", version: "1.0.0" });
+  await client.connect(new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`), {
+    requestInit: token ? { headers: { Authorization: `Bearer ${token}` } } : {}
+  }));
+  return client;
+}
+
+test("serves concurrent sessions, each with its own server", async () => {
+  await withHttpServer({ authToken: TOKEN }, async (baseUrl, server) => {
+    const [first, second] = await Promise.all([connect(baseUrl, TOKEN), connect(baseUrl, TOKEN)]);
+    const texts = await Promise.all([first, second].map(async (client) => {
+      const result = await client.callTool({ name: "whoami", arguments: {} });
+      return (result.content as { text: string }[])[0].text;
+    }));
+    assert.deepEqual(texts.sort(), ["session 1", "session 2"]);
+    assert.equal(server.sessionCount, 2);
+
+    await first.close();
+    await second.close();
+  });
+});
+
+test("requires the bearer token on /mcp but not on /health", async () => {
+  await withHttpServer({ authToken: TOKEN }, async (baseUrl) => {
+    await assert.rejects(connect(baseUrl));
+    await assert.rejects(connect(baseUrl, "wrong"));
+    const unauthorized = await fetch(`${baseUrl}/mcp`, { method: "POST", body: "{}" });
+    assert.equal(unauthorized.status, 401);
+    assert.equal(unauthorized.headers.get("www-authenticate"), "Bearer");
+
+    const health = await fetch(`${baseUrl}/health`);
+    assert.equal(health.status, 200);
+    const body = await health.json();
+    assert.equal(body.status, "ok");
+    assert.equal(body.sessions, 0);
+    assert.equal(body.version, "test");
+  });
+});
+
+test("rejects unknown sessions and requests without a session", async () => {
+  await withHttpServer({}, async (baseUrl) => {
+    const headers = { "Content-Type": "application/json", Accept: "application/json, text/event-stream" };
+    const body = JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tools/list" });
+    const unknown = await fetch(`${baseUrl}/mcp`, { method: "POST", headers: { ...headers, "Mcp-Session-Id": "nope" }, body });
+    assert.equal(unknown.status, 404);
+    const missing = await fetch(`${baseUrl}/mcp`, { method: "POST", headers, body });
+    assert.equal(missing.status, 400);
+    const invalid = await fetch(`${baseUrl}/mcp`, { method: "POST", headers, body: "{not json" });
+    assert.equal(invalid.status, 400);
+  });
+});
+
+// Status of an initialize request sent with the given Host header
+function initializeStatus(baseUrl: string, host: string): Promise<number> {
+  const body = JSON.stringify({
+    jsonrpc: "2.0",
+    id: 1,
+    method: "initialize",
+    params: { protocolVersion: "2025-06-18", capabilities: {}, clientInfo: { name: "test", version: "1.0.0" } }
+  });
+  return new Promise((resolve, reject) => {
+    const request = http.request(`${baseUrl}/mcp`, {
+      method: "POST",
+      headers: { Host: host, "Content-Type": "application/json", Accept: "application/json, text/event-stream" }
+    }, (response) => {
+      response.resume();
+      resolve(response.statusCode ?? 0);
+    });
+    request.on("error", reject);
+    request.end(body);
+  });
+}
+
+test("refuses Host headers other than the loopback names", async () => {
+  await withHttpServer({}, async (baseUrl) => {
+    const port = new URL(baseUrl).port;
+    assert.equal(await initializeStatus(baseUrl, `evil.example:${port}`), 403);
+    assert.equal(await initializeStatus(baseUrl, "localhost:1"), 403);
+    assert.equal(await initializeStatus(baseUrl, `localhost:${port}`), 200);
+    assert.equal(await initializeStatus(baseUrl, `127.0.0.1:${port}`), 200);
+  });
+  await withHttpServer({ allowedHosts: ["mcp.example.com"] }, async (baseUrl) => {
+    assert.equal(await initializeStatus(baseUrl, "mcp.example.com"), 200);
+    assert.equal(await initializeStatus(baseUrl, `127.0.0.1:${new URL(baseUrl).port}`), 403);
+  });
+});
+
+test("refuses a non-loopback host without an auth token", async () => {
+  const server = new McpHttpServer({ ...DEFAULT_TRANSPORT, mode: "http", host: "0.0.0.0", port: 0 }, () => new McpServer({ name: "test", version: "1.0.0" }));
+  await assert.rejects(server.start(), /without an auth token/);
+});
+
+test("command-line flags override the environment", () => {
+  const env = { GEMINI_MCP_CONFIG: "", XDG_CONFIG_HOME: "/nonexistent", GEMINI_MCP_LISTEN_PORT: "9000", GEMINI_MCP_AUTH_TOKEN: TOKEN };
+  assert.equal(loadConfig(env, []).transport.mode, "stdio");
+  const config = loadConfig(env, ["--http", "--host", "0.0.0.0", "--port=9100"]);
+  assert.equal(config.transport.mode, "http");
+  assert.equal(config.transport.host, "0.0.0.0");
+  assert.equal(config.transport.port, 9100);
+  assert.equal(config.transport.authToken, TOKEN);
+  assert.throws(() => loadConfig(env, ["--port", "http"]), /port number/);
+});
@@ -0,0 +1,69 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { GeminiError } from "../src/errors.js";
+import { JobManager, JobContext } from "../src/jobs.js";
+
+const CONFIG = { ttlMs: 60000, maxFinishedJobs: 10 };
+
+function answer(text: string): CallToolResult {
+  return { content: [{ type: "text", text }] };
+}
+
+// Resolves when released, or rejects once the job is cancelled
+function controllable() {
+  let release!: () => void;
+  const task = (context: JobContext) => new Promise<CallToolResult>((resolve, reject) => {
+    context.onOutput("stdout", "partial");
+    release = () => resolve(answer("done"));
+    context.signal.addEventListener("abort", () => reject(new GeminiError("CANCELLED", "cancelled")));
+  });
+  return { task, release: () => release() };
+}
+
+test("runs a job in the background and returns its result", async () => {
+  const jobs = new JobManager(CONFIG);
+  const { task, release } = controllable();
+  const submitted = jobs.submit("question", task);
+  assert.equal(submitted.state, "running");
+
+  const pending = await jobs.result(submitted.id);
+  assert.equal(pending.result, undefined);
+  assert.equal(pending.job.bytesReceived, 7);
+
+  setTimeout(release, 20);
+  const { job, result } = await jobs.result(submitted.id, 5000);
+  assert.equal(job.state, "succeeded");
+  assert.deepEqual(result, answer("done"));
+  assert.ok(job.expiresAt);
+});
+
+test("marks error results as failed", async () => {
+  const jobs = new JobManager(CONFIG);
+  const { id } = jobs.submit("broken", async () => { throw new GeminiError("EMPTY_RESPONSE", "No response", true); });
+  const { job, result } = await jobs.result(id, 1000);
+  assert.equal(job.state, "failed");
+  assert.equal(result?.isError, true);
+});
+
+test("cancels a running job through its signal", async () => {
+  const jobs = new JobManager(CONFIG);
+  const { task } = controllable();
+  const { id } = jobs.submit("slow", task);
+  assert.equal(jobs.cancel(id).state, "cancelled");
+
+  const { job, result } = await jobs.result(id, 1000);
+  assert.equal(job.state, "cancelled");
+  assert.equal(result?.isError, true);
+  assert.deepEqual(jobs.list("cancelled").map((listed) => listed.id), [id]);
+  assert.deepEqual(jobs.list("running"), []);
+});
+
+test("drops finished jobs once their TTL expires", async () => {
+  const jobs = new JobManager(CONFIG);
+  const { id } = jobs.submit("quick", async () => answer("ok"), 10);
+  await jobs.result(id, 1000);
+  await new Promise((resolve) => setTimeout(resolve, 30));
+  assert.throws(() => jobs.status(id), (error: GeminiError) => error.code === "INVALID_REQUEST");
+  assert.deepEqual(jobs.list(), []);
+});
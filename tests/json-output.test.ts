@@ -0,0 +1,73 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { buildRepairPrompt, extractJson, formatIssues, jsonSchemaToZod } from "../src/json-output.js";
+import { GeminiError } from "../src/errors.js";
+
+const findingsSchema = {
+  type: "object",
+  properties: {
+    findings: {
+      type: "array",
+      minItems: 1,
+      items: {
+        type: "object",
+        properties: {
+          file: { type: "string" },
+          line: { type: "integer", minimum: 1 },
+          severity: { enum: ["high", "medium", "low"] },
+          note: { type: ["string", "null"] }
+        },
+        required: ["file", "severity"],
+        additionalProperties: false
+      }
+    }
+  },
+  required: ["findings"]
+};
+
+test("validates answers against a JSON Schema", () => {
+  const validator = jsonSchemaToZod(findingsSchema);
+  const valid = { findings: [{ file: "a.ts", line: 3, severity: "high", note: null }], summary: "extra keys are allowed here" };
+  assert.deepEqual(validator.parse(valid), valid);
+
+  const result = validator.safeParse({ findings: [{ file: "a.ts", line: 0, severity: "urgent", extra: true }] });
+  assert.equal(result.success, false);
+  const issues = formatIssues(result.error!);
+  assert.ok(issues.some((issue) => issue.startsWith("$.findings[0].line:")), issues.join("\n"));
+  assert.ok(issues.some((issue) => issue.startsWith("$.findings[0].severity: Expected one of \"high\"")), issues.join("\n"));
+  assert.ok(issues.some((issue) => /Unrecognized key.*extra/.test(issue)), issues.join("\n"));
+  assert.equal(validator.safeParse({ findings: [] }).success, false);
+});
+
+test("supports combinators, const and untyped schemas", () => {
+  const validator = jsonSchemaToZod({ anyOf: [{ type: "string", pattern: "^v\\d+$" }, { const: 0 }] });
+  assert.equal(validator.safeParse("v2").success, true);
+  assert.equal(validator.safeParse(0).success, true);
+  assert.equal(validator.safeParse("2").success, false);
+  assert.equal(jsonSchemaToZod({ allOf: [{ type: "number", minimum: 1 }, { maximum: 5 }] }).safeParse(7).success, true);
+  assert.equal(jsonSchemaToZod({}).safeParse({ any: "thing" }).success, true);
+
+  assert.throws(() => jsonSchemaToZod({ $ref: "#/definitions/x" }), (error: GeminiError) =>
+    error.code === "INVALID_REQUEST" && /\$ref is not supported/.test(error.message));
+  assert.throws(() => jsonSchemaToZod({ type: "date" }), /unknown type "date"/);
+  assert.throws(() => jsonSchemaToZod({ properties: { id: { type: "string", pattern: "([a-z" } } }), (error: GeminiError) =>
+    error.code === "INVALID_REQUEST" && /invalid pattern "\(\[a-z" \(\$\.id\)/.test(error.message));
+  assert.throws(() => jsonSchemaToZod({ type: "array", items: 3 }), /expected a schema object \(\$\[\]\)/);
+});
+
+test("extracts JSON from bare, fenced and embedded answers", () => {
+  assert.deepEqual(extractJson('  {"a": 1}\n'), { ok: true, value: { a: 1 } });
+  assert.deepEqual(extractJson('Sure!\n```json\n[1, 2]\n```\nAnything else?'), { ok: true, value: [1, 2] });
+  assert.deepEqual(extractJson('The result is {"text": "a } inside", "n": [1]} as requested.'), { ok: true, value: { text: "a } inside", n: [1] } });
+  assert.deepEqual(extractJson("I could not find any findings."), { ok: false, error: "The answer contains no JSON" });
+  const broken = extractJson('{"a": 1,}');
+  assert.equal(broken.ok, false);
+  assert.match((broken as { error: string }).error, /not valid JSON/);
+});
+
+test("repair prompts quote the rejected answer and its issues", () => {
+  const prompt = buildRepairPrompt("List the findings as JSON", '{"findings": []}', ["$.findings: Array must contain at least 1 element(s)"]);
+  assert.ok(prompt.startsWith("List the findings as JSON"));
+  assert.ok(prompt.includes('Your previous answer was:\n{"findings": []}'));
+  assert.ok(prompt.includes("- $.findings: Array must contain at least 1 element(s)"));
+});
@@ -0,0 +1,51 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as path from "path";
+import { parseGeminiOutput } from "../src/output-parser.js";
+
+// Golden-file tests: each fixture directory holds captured stdout.txt/stderr.txt
+// from a Gemini CLI run and the expected.json parse result.
+// Run with UPDATE_GOLDEN=1 to regenerate expected.json after an intended change.
+
+const FIXTURES_DIR = path.join(__dirname, "fixtures", "output-parser");
+
+function readOptional(file: string): string {
+  return fs.existsSync(file) ? fs.readFileSync(file, "utf8") : "";
+}
+
+for (const name of fs.readdirSync(FIXTURES_DIR).sort()) {
+  const dir = path.join(FIXTURES_DIR, name);
+  if (!fs.statSync(dir).isDirectory()) continue;
+
+  test(`parses ${name}`, () => {
+    const parsed = parseGeminiOutput(
+      readOptional(path.join(dir, "stdout.txt")),
+      readOptional(path.join(dir, "stderr.txt"))
+    );
+    const { segments, ...actual } = parsed;
+    const expectedFile = path.join(dir, "expected.json");
+
+    if (process.env.UPDATE_GOLDEN) {
+      fs.writeFileSync(expectedFile, JSON.stringify(actual, null, 2) + "\n");
+    }
+
+    const expected = JSON.parse(fs.readFileSync(expectedFile, "utf8"));
+    assert.deepEqual(actual, expected);
+  });
+}
+
+test("keeps JSON and code lines that the old quota heuristic dropped", () => {
+  const parsed = parseGeminiOutput(
+    "Loaded cached credentials.\n{\n  \"items\": [1, 2]\n}\n",
+    "Quota exceeded for quota metric 'Gemini 2.5 Pro Requests'\n"
+  );
+  assert.equal(parsed.answer, "{\n  \"items\": [1, 2]\n}");
+  assert.equal(parsed.errors.length, 1);
+});
+
+test("returns an empty answer when only the banner is printed", () => {
+  const parsed = parseGeminiOutput("Loaded cached credentials.\n");
+  assert.equal(parsed.answer, "");
+  assert.deepEqual(parsed.banners, ["Loaded cached credentials."]);
+});
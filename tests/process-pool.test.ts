@@ -0,0 +1,91 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { spawn, execFileSync } from "child_process";
+import { GeminiError } from "../src/errors.js";
+import { ProcessPool, killProcessTree } from "../src/process-pool.js";
+
+function deferred() {
+  let resolve!: () => void;
+  const promise = new Promise<void>((done) => (resolve = done));
+  return { promise, resolve };
+}
+
+test("runs at most maxConcurrency tasks at once", async () => {
+  const pool = new ProcessPool({ maxConcurrency: 2 });
+  const gates = [deferred(), deferred(), deferred()];
+  let running = 0;
+  let peak = 0;
+
+  const runs = gates.map((gate) => pool.run(async () => {
+    running++;
+    peak = Math.max(peak, running);
+    await gate.promise;
+    running--;
+  }));
+
+  await new Promise((resolve) => setImmediate(resolve));
+  assert.equal(pool.snapshot().active.length, 2);
+  assert.equal(pool.snapshot().waiting, 1);
+
+  gates.forEach((gate) => gate.resolve());
+  await Promise.all(runs);
+  assert.equal(peak, 2);
+  assert.equal(pool.snapshot().active.length, 0);
+});
+
+test("starts waiting tasks by priority, FIFO within a priority", async () => {
+  const pool = new ProcessPool({ maxConcurrency: 1 });
+  const gate = deferred();
+  const order: string[] = [];
+
+  const blocker = pool.run(() => gate.promise);
+  const runs = [
+    pool.run(async () => { order.push("low"); }, { priority: "low" }),
+    pool.run(async () => { order.push("normal-1"); }),
+    pool.run(async () => { order.push("high"); }, { priority: "high" }),
+    pool.run(async () => { order.push("normal-2"); })
+  ];
+
+  gate.resolve();
+  await Promise.all([blocker, ...runs]);
+  assert.deepEqual(order, ["high", "normal-1", "normal-2", "low"]);
+});
+
+test("cancels a waiting task when its signal aborts", async () => {
+  const pool = new ProcessPool({ maxConcurrency: 1 });
+  const gate = deferred();
+  const blocker = pool.run(() => gate.promise);
+
+  const controller = new AbortController();
+  let started = false;
+  const waiting = pool.run(async () => { started = true; }, { signal: controller.signal });
+  controller.abort();
+
+  await assert.rejects(waiting, (error: GeminiError) => error.code === "CANCELLED");
+  assert.equal(pool.snapshot().waiting, 0);
+  gate.resolve();
+  await blocker;
+  assert.equal(started, false);
+});
+
+test("killProcessTree also kills grandchildren", { skip: process.platform === "win32" }, async () => {
+  // The shell prints the pid of a background sleep, then waits for it
+  const child = spawn("sh", ["-c", "sleep 30 >/dev/null & echo $!; wait"], { stdio: ["ignore", "pipe", "ignore"], detached: true });
+  const grandchild = await new Promise<number>((resolve) => {
+    child.stdout!.once("data", (data) => resolve(Number(String(data).trim())));
+  });
+  const exited = new Promise((resolve) => child.once("exit", resolve));
+
+  killProcessTree(child);
+  await exited;
+  await new Promise((resolve) => setTimeout(resolve, 50));
+  // Gone, or a zombie waiting for init to reap it
+  let state = "";
+  try {
+    state = execFileSync("ps", ["-o", "stat=", "-p", String(grandchild)], { encoding: "utf8" }).trim();
+  } catch {
+    // ps exits non-zero when the pid no longer exists
+  }
+  if (state !== "" && !state.startsWith("Z")) process.kill(grandchild);
+  assert.ok(state === "" || state.startsWith("Z"), `grandchild still running (${state})`);
+});
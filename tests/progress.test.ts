@@ -0,0 +1,55 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { ServerNotification } from "@modelcontextprotocol/sdk/types.js";
+import { ProgressReporter, isLevelEnabled } from "../src/progress.js";
+
+function collector() {
+  const sent: ServerNotification[] = [];
+  return { sent, sendNotification: async (notification: ServerNotification) => { sent.push(notification); } };
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+test("sends progress with elapsed time and character counts", async () => {
+  const { sent, sendNotification } = collector();
+  const reporter = new ProgressReporter({ progressToken: "t1", sendNotification, intervalMs: 100, partialOutput: false });
+  reporter.start();
+  reporter.onOutput("stdout", "Hello ");
+  reporter.onOutput("stdout", "world");
+  await sleep(1150);
+  reporter.stop();
+
+  const progress = sent.filter((notification) => notification.method === "notifications/progress");
+  assert.ok(progress.length >= 1);
+  const params = progress[0].params as { progressToken: string; progress: number; message: string };
+  assert.equal(params.progressToken, "t1");
+  assert.match(params.message, /received 11 chars/);
+  // Never repeats a progress value
+  const values = progress.map((notification) => (notification.params as { progress: number }).progress);
+  assert.deepEqual(values, [...new Set(values)].sort((a, b) => a - b));
+  assert.equal(sent.some((notification) => notification.method === "notifications/message"), false);
+});
+
+test("forwards partial stdout as info logging messages", async () => {
+  const { sent, sendNotification } = collector();
+  const reporter = new ProgressReporter({ sendNotification, intervalMs: 50, partialOutput: true });
+  reporter.start();
+  reporter.onOutput("stdout", "first ");
+  reporter.onOutput("stderr", "noise");
+  reporter.onOutput("stdout", "chunk");
+  await sleep(80);
+  reporter.onOutput("stdout", "tail");
+  reporter.stop();
+
+  const data = sent.map((notification) => (notification.params as { level: string; data: string }));
+  assert.deepEqual(data.map((params) => params.data), ["first chunk", "tail"]);
+  assert.ok(data.every((params) => params.level === "info"));
+});
+
+test("stays silent without a progress token or partial output", () => {
+  const { sendNotification } = collector();
+  assert.equal(new ProgressReporter({ sendNotification, intervalMs: 50, partialOutput: false }).enabled, false);
+  // The client asked only for warnings and above
+  assert.equal(new ProgressReporter({ sendNotification, intervalMs: 50, partialOutput: true, logLevel: "warning" }).enabled, false);
+  assert.equal(isLevelEnabled("info", "debug"), true);
+});
@@ -0,0 +1,80 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { GeminiError } from "../src/errors.js";
+import { RateLimiter, RateLimitConfig } from "../src/rate-limiter.js";
+
+const CONFIG: RateLimitConfig = {
+  requestsPerMinute: 6000,
+  requestsPerDay: 0,
+  maxQueueSize: 10,
+  persistDailyCount: false,
+  timeZone: "UTC"
+};
+
+test("releases queued requests in FIFO order as tokens refill", async () => {
+  const limiter = new RateLimiter({ ...CONFIG, requestsPerMinute: 6000 });
+  // Drain the bucket
+  for (let i = 0; i < 6000; i++) await limiter.acquire();
+
+  const order: number[] = [];
+  await Promise.all([1, 2, 3].map((n) => limiter.acquire().then(() => order.push(n))));
+  assert.deepEqual(order, [1, 2, 3]);
+});
+
+test("rejects when the queue is full", async () => {
+  const limiter = new RateLimiter({ ...CONFIG, requestsPerMinute: 1, maxQueueSize: 1 });
+  await limiter.acquire();
+  const queued = limiter.acquire();
+  await assert.rejects(limiter.acquire(), (error: GeminiError) => error.code === "QUEUE_FULL");
+  assert.equal(limiter.snapshot().queue.depth, 1);
+  queued.catch(() => undefined);
+});
+
+test("drops a cancelled request from the queue without using a token", async () => {
+  const limiter = new RateLimiter({ ...CONFIG, requestsPerMinute: 60 });
+  for (let i = 0; i < 60; i++) await limiter.acquire();
+
+  const controller = new AbortController();
+  const cancelled = limiter.acquire(controller.signal);
+  const next = limiter.acquire();
+  assert.equal(limiter.snapshot().queue.depth, 2);
+  controller.abort();
+  await assert.rejects(cancelled, (error: GeminiError) => error.code === "CANCELLED");
+  assert.equal(limiter.snapshot().queue.depth, 1);
+  await assert.rejects(limiter.acquire(controller.signal), (error: GeminiError) => error.code === "CANCELLED");
+
+  // The next request gets the token refilled after a second; the cancelled ones used none.
+  // The drain timer does not keep the process alive, so hold it open meanwhile
+  const keepAlive = setInterval(() => undefined, 100);
+  await next.finally(() => clearInterval(keepAlive));
+  assert.equal(limiter.snapshot().perDay.used, 61);
+  assert.equal(limiter.snapshot().queue.depth, 0);
+});
+
+test("enforces the daily limit with a retry hint until reset", async () => {
+  const limiter = new RateLimiter({ ...CONFIG, requestsPerDay: 2 });
+  await limiter.acquire();
+  await limiter.acquire();
+  await assert.rejects(
+    limiter.acquire(),
+    (error: GeminiError) => error.code === "QUOTA_EXCEEDED" && (error.retryAfterMs ?? 0) > 0
+  );
+  assert.equal(limiter.snapshot().perDay.remaining, 0);
+});
+
+test("persists the daily counter across instances", async () => {
+  const stateFile = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "gemini-mcp-")), "rate-limit.json");
+  const config = { ...CONFIG, requestsPerDay: 100, persistDailyCount: true };
+
+  const first = new RateLimiter(config, stateFile);
+  await first.acquire();
+  await first.acquire();
+  await first.flush();
+
+  const second = new RateLimiter(config, stateFile);
+  await second.load();
+  assert.equal(second.snapshot().perDay.used, 2);
+});
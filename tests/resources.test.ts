@@ -0,0 +1,62 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { UriTemplate } from "@modelcontextprotocol/sdk/shared/uriTemplate.js";
+import {
+  CONVERSATION_TEMPLATE,
+  REQUEST_TEMPLATE,
+  RAW_REQUEST_TEMPLATE,
+  conversationUri,
+  requestUri,
+  rawRequestUri,
+  templateId,
+  formatConversationMarkdown,
+  formatRawOutput
+} from "../src/resources.js";
+import type { ExchangeRecord } from "../src/storage.js";
+
+test("ids survive a round trip through the URI templates", () => {
+  const id = "design review/2, part 1";
+  const conversation = new UriTemplate(CONVERSATION_TEMPLATE).match(conversationUri(id));
+  assert.equal(templateId(conversation!.id), id);
+
+  // The plain request template must not swallow the raw variant
+  assert.equal(new UriTemplate(REQUEST_TEMPLATE).match(rawRequestUri("abc")), null);
+  assert.equal(templateId(new UriTemplate(RAW_REQUEST_TEMPLATE).match(rawRequestUri("abc"))!.id), "abc");
+  assert.equal(templateId(new UriTemplate(REQUEST_TEMPLATE).match(requestUri("abc"))!.id), "abc");
+});
+
+test("formats a conversation transcript turn by turn", () => {
+  const text = formatConversationMarkdown({
+    id: "refactor",
+    createdAt: "2025-01-01T00:00:00.000Z",
+    updatedAt: "2025-01-01T00:01:00.000Z",
+    forkedFrom: "original",
+    turns: [
+      { role: "user", content: "Rename the class", timestamp: "2025-01-01T00:00:00.000Z" },
+      { role: "assistant", content: "Done.", timestamp: "2025-01-01T00:01:00.000Z" }
+    ]
+  });
+  assert.match(text, /^# Conversation refactor/);
+  assert.match(text, /Forked from: original/);
+  assert.ok(text.indexOf("## User") < text.indexOf("Rename the class"));
+  assert.ok(text.indexOf("## Assistant") < text.indexOf("Done."));
+});
+
+test("raw output keeps stdout and stderr verbatim", () => {
+  const record: ExchangeRecord = {
+    id: "abc",
+    timestamp: "2025-01-01T00:00:00.000Z",
+    message: "hi",
+    prompt: "hi",
+    response: "",
+    stdout: "Loaded cached credentials.\n",
+    stderr: "Error: quota exceeded\n  at line 1",
+    exitCode: 1,
+    durationMs: 1200,
+    errorCode: "QUOTA_EXCEEDED"
+  };
+  const text = formatRawOutput(record);
+  assert.match(text, /Backend: gemini, exit code: 1, duration: 1200ms, error: QUOTA_EXCEEDED/);
+  assert.ok(text.includes("=== stdout ===\nLoaded cached credentials.\n"));
+  assert.ok(text.endsWith("=== stderr ===\nError: quota exceeded\n  at line 1"));
+});
@@ -0,0 +1,69 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { AuthExpiredError, GeminiError, QuotaExceededError } from "../src/errors.js";
+import { backoffDelay, withRetry, RetryPolicy } from "../src/retry.js";
+
+const POLICY: RetryPolicy = { maxAttempts: 3, baseDelayMs: 1000, maxDelayMs: 5000, maxTotalMs: 60000, jitter: 0 };
+
+test("retries transient failures and reports every attempt", async () => {
+  const waits: number[] = [];
+  const outcome = await withRetry(async (attempt) => {
+    if (attempt < 3) throw new GeminiError("EMPTY_RESPONSE", "empty", true);
+    return "answer";
+  }, POLICY, { wait: async (ms) => { waits.push(ms); } });
+
+  assert.equal(outcome.value, "answer");
+  assert.deepEqual(outcome.attempts.map((record) => record.outcome), ["error", "error", "success"]);
+  assert.deepEqual(waits, [1000, 2000]);
+});
+
+test("honors the retry delay reported by Gemini", async () => {
+  const waits: number[] = [];
+  await withRetry(async (attempt) => {
+    if (attempt === 1) throw new QuotaExceededError("per-minute limit", {}, 7000);
+    return "ok";
+  }, POLICY, { wait: async (ms) => { waits.push(ms); } });
+
+  assert.deepEqual(waits, [7000]);
+});
+
+test("does not retry non-retryable errors", async () => {
+  await assert.rejects(
+    withRetry(async () => { throw new AuthExpiredError("invalid_grant"); }, POLICY, { wait: async () => {} }),
+    (error: GeminiError) => error.code === "AUTH_EXPIRED" && error.attempts?.length === 1
+  );
+});
+
+test("gives up when the delay would exceed the time budget", async () => {
+  await assert.rejects(
+    withRetry(async () => { throw new QuotaExceededError("daily limit", {}, 3600000); }, POLICY, { wait: async () => {} }),
+    (error: GeminiError) => error.attempts?.length === 1
+  );
+});
+
+test("stops waiting and retrying once the signal aborts", async () => {
+  const controller = new AbortController();
+  let calls = 0;
+  const started = Date.now();
+  setTimeout(() => controller.abort(), 20);
+  await assert.rejects(
+    withRetry(async () => { calls++; throw new GeminiError("EMPTY_RESPONSE", "empty", true); }, { ...POLICY, baseDelayMs: 30000 }, { signal: controller.signal }),
+    (error: GeminiError) => error.code === "CANCELLED" && error.attempts?.length === 1 && error.attempts[0].errorCode === "EMPTY_RESPONSE"
+  );
+  assert.equal(calls, 1);
+  assert.ok(Date.now() - started < 5000);
+
+  // A wait that ignores the signal still gets no further attempt
+  await assert.rejects(
+    withRetry(async () => { calls++; throw new GeminiError("EMPTY_RESPONSE", "empty", true); }, POLICY, { signal: controller.signal, wait: async () => {} }),
+    (error: GeminiError) => error.code === "CANCELLED" && error.attempts?.length === 0
+  );
+  assert.equal(calls, 1);
+});
+
+test("caps exponential backoff and applies jitter", () => {
+  const error = new GeminiError("NON_ZERO_EXIT", "crash", true);
+  assert.equal(backoffDelay(POLICY, 10, error), 5000);
+  assert.equal(backoffDelay({ ...POLICY, jitter: 0.5 }, 1, error, () => 1), 1500);
+  assert.equal(backoffDelay({ ...POLICY, jitter: 0.5 }, 1, error, () => 0), 500);
+});
@@ -0,0 +1,120 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { buildReviewPrompt, chunkDiff, collectDiff, mergeFindings, runGit, splitDiff } from "../src/review.js";
+
+const DIFF = [
+  "diff --git a/src/a.ts b/src/a.ts",
+  "index 1111111..2222222 100644",
+  "--- a/src/a.ts",
+  "+++ b/src/a.ts",
+  "@@ -1,2 +1,2 @@",
+  "-const a = 1;",
+  "+const a = 2;",
+  "@@ -10,1 +10,1 @@",
+  "-const b = 1;",
+  "+const b = 2;",
+  "diff --git a/old.ts b/old.ts",
+  "deleted file mode 100644",
+  "--- a/old.ts",
+  "+++ /dev/null",
+  "@@ -1 +0,0 @@",
+  "-gone",
+  "diff --git a/logo.png b/logo.png",
+  "Binary files a/logo.png and b/logo.png differ",
+  ""
+].join("\n");
+
+async function makeRepo(): Promise<string> {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), "gemini-review-"));
+  const git = (...args: string[]) => runGit(["-c", "user.name=Test", "-c", "user.email=test@example.com", ...args], root);
+  await git("init", "--quiet", "--initial-branch=main");
+  fs.writeFileSync(path.join(root, "app.ts"), "export const x = 1;\n");
+  fs.writeFileSync(path.join(root, ".gitignore"), "*.log\n");
+  await git("add", ".");
+  await git("commit", "--quiet", "-m", "Initial");
+  await git("checkout", "--quiet", "-b", "feature");
+  fs.writeFileSync(path.join(root, "app.ts"), "export const x = 2;\n");
+  await git("commit", "--quiet", "-am", "Change x");
+  return root;
+}
+
+test("splits a diff by file, naming deleted and binary files", () => {
+  const files = splitDiff(DIFF);
+  assert.deepEqual(files.map((file) => file.file), ["src/a.ts", "old.ts", "logo.png"]);
+  assert.match(files[0].text, /^diff --git a\/src\/a\.ts b\/src\/a\.ts\n[\s\S]*\+const b = 2;\n$/);
+});
+
+test("packs files into chunks and splits a large file at its hunks", () => {
+  const files = splitDiff(DIFF);
+  const together = chunkDiff(files, 10_000);
+  assert.equal(together.length, 1);
+  assert.deepEqual(together[0].files, ["src/a.ts", "old.ts", "logo.png"]);
+
+  // src/a.ts is 183 bytes with two hunks; each part repeats the file header
+  const split = chunkDiff(files, 180);
+  assert.deepEqual(split.map((chunk) => chunk.files), [["src/a.ts"], ["src/a.ts"], ["old.ts", "logo.png"]]);
+  assert.match(split[1].text, /^diff --git a\/src\/a\.ts b\/src\/a\.ts\n[\s\S]*\n@@ -10,1 \+10,1 @@\n-const b = 1;\n\+const b = 2;\n$/);
+  assert.equal(split.some((chunk) => chunk.truncated), false);
+
+  const cut = chunkDiff(files, 120);
+  assert.equal(cut[0].truncated, true);
+  assert.match(cut[0].text, /\.\.\. \(hunk truncated\)\n$/);
+});
+
+test("escapes @ in the review prompt so the diff cannot name files for the CLI to read", () => {
+  const chunk = { files: ["a.ts"], text: "+// see @/outside/path and @../x\n", truncated: false };
+  const prompt = buildReviewPrompt(chunk, "commits HEAD@{1}..HEAD", 1, 2, "uses of @decorators");
+  assert.match(prompt, /^Review this diff \(commits HEAD\\@\{1\}\.\.HEAD, part 1 of 2\) /);
+  assert.match(prompt, /\nPay particular attention to: uses of \\@decorators\n/);
+  assert.match(prompt, /\n<diff>\n\+\/\/ see \\@\/outside\/path and \\@\.\.\/x\n<\/diff>$/);
+});
+
+test("merges findings without duplicates, most severe first", () => {
+  const merged = mergeFindings([
+    [
+      { file: "b.ts", line: 3, severity: "minor", message: "Unused import" },
+      { file: "a.ts", line: 10, severity: "critical", message: "SQL injection" }
+    ],
+    [
+      { file: "b.ts", line: 3, severity: "minor", message: "unused import " },
+      { file: "a.ts", line: null, severity: "minor", message: "No tests" }
+    ]
+  ]);
+  assert.deepEqual(merged.map((finding) => `${finding.severity} ${finding.file}:${finding.line}`), [
+    "critical a.ts:10",
+    "minor a.ts:null",
+    "minor b.ts:3"
+  ]);
+});
+
+test("collects the working tree, a range and a branch against its base", async () => {
+  const root = await makeRepo();
+  try {
+    fs.writeFileSync(path.join(root, "app.ts"), "export const x = 3;\n");
+    fs.writeFileSync(path.join(root, "new.ts"), "export const y = 1;\n");
+    fs.writeFileSync(path.join(root, "debug.log"), "ignored\n");
+
+    const working = await collectDiff({ kind: "working-tree", staged: false, untracked: true }, root);
+    assert.deepEqual(splitDiff(working.diff).map((file) => file.file), ["app.ts", "new.ts"]);
+    assert.match(working.diff, /\+export const y = 1;/);
+    const tracked = await collectDiff({ kind: "working-tree", staged: false, untracked: false }, root);
+    assert.deepEqual(splitDiff(tracked.diff).map((file) => file.file), ["app.ts"]);
+    const staged = await collectDiff({ kind: "working-tree", staged: true, untracked: true }, root);
+    assert.equal(staged.diff, "");
+
+    const range = await collectDiff({ kind: "range", range: "main..feature" }, root);
+    assert.match(range.diff, /-export const x = 1;\n\+export const x = 2;/);
+    const branch = await collectDiff({ kind: "branch", branch: "feature" }, root);
+    assert.equal(branch.diff, range.diff);
+    assert.equal(branch.description, "changes on feature since it forked from main");
+
+    await assert.rejects(collectDiff({ kind: "range", range: "--output=/tmp/x" }, root), /Invalid range/);
+    await assert.rejects(collectDiff({ kind: "range", range: "nope..feature" }, root),
+      (error: { code?: string }) => error.code === "GIT_ERROR");
+  } finally {
+    fs.rmSync(root, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,59 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { Critique, buildCritiquePrompt, formatSecondOpinion, isCritique, summarizeCritiques } from "../src/second-opinion.js";
+
+function critique(overrides: Partial<Critique>): Critique {
+  return { verdict: "agree", confidence: 0.9, agreements: [], disagreements: [], missing: [], summary: "", ...overrides };
+}
+
+test("builds a prompt with the question, context and proposed answer", () => {
+  assert.equal(buildCritiquePrompt("Is 91 prime?", "Yes.", "Homework").split("\n").slice(3, 11).join("\n"),
+    "Question:\nIs 91 prime?\n\nContext:\nHomework\n\nProposed answer:\nYes.");
+  assert.doesNotMatch(buildCritiquePrompt("Q", "A"), /Context:/);
+  assert.match(buildCritiquePrompt("Q", "See @/outside/path"), /\nProposed answer:\nSee \\@\/outside\/path\n/);
+});
+
+test("recognizes a critique", () => {
+  assert.equal(isCritique(critique({ disagreements: [{ point: "O(1)", reason: "It sorts", correction: "O(n log n)" }] })), true);
+  assert.equal(isCritique({ ...critique({}), verdict: "maybe" }), false);
+  assert.equal(isCritique({ ...critique({}), disagreements: [{ point: "O(1)" }] }), false);
+  assert.equal(isCritique(null), false);
+});
+
+test("merges points from several critics and credits each source once", () => {
+  const opinion = summarizeCritiques([
+    { source: "pro", critique: critique({ agreements: ["Uses a Map", "Handles empty input."], disagreements: [{ point: "O(1) lookup", reason: "Sorting is O(n log n)" }] }) },
+    { source: "flash", critique: critique({ agreements: ["handles  empty input"], disagreements: [{ point: "o(1) lookup.", reason: "It sorts first" }] }) }
+  ]);
+  assert.deepEqual(opinion.agreements, [
+    { text: "Handles empty input.", sources: ["pro", "flash"] },
+    { text: "Uses a Map", sources: ["pro"] }
+  ]);
+  assert.deepEqual(opinion.disagreements, [{ point: "O(1) lookup", reason: "Sorting is O(n log n)", sources: ["pro", "flash"] }]);
+  assert.match(formatSecondOpinion(opinion), /^Verdict: agree, high confidence \(2 critique\(s\), mean confidence 0\.9, 100% share the verdict\)\n\nAgreements:\n- Handles empty input\. \(pro, flash\)\n/);
+});
+
+test("summarizes verdicts into a confidence level", () => {
+  const split = summarizeCritiques([
+    { source: "a", critique: critique({ verdict: "agree", confidence: 0.8 }) },
+    { source: "b", critique: critique({ verdict: "disagree", confidence: 0.6 }) },
+    { source: "c", error: { code: "QUOTA_EXCEEDED", message: "Quota" } }
+  ]);
+  // A tie goes to the more critical verdict
+  assert.equal(split.verdict, "disagree");
+  assert.deepEqual(split.confidence, {
+    level: "low",
+    mean: 0.7,
+    consensus: 0.5,
+    verdicts: { agree: 1, partially_agree: 0, disagree: 1 },
+    critiques: 2,
+    failed: 1
+  });
+
+  const majority = summarizeCritiques(["a", "b", "c"].map((source, index) =>
+    ({ source, critique: critique({ verdict: index < 2 ? "partially_agree" : "agree", confidence: 0.5 }) })));
+  assert.deepEqual([majority.verdict, majority.confidence.level], ["partially_agree", "medium"]);
+
+  const failed = summarizeCritiques([{ source: "a", error: { code: "NON_ZERO_EXIT", message: "Exit 1" } }]);
+  assert.equal(formatSecondOpinion(failed), "No critique: every run failed\n- a: [NON_ZERO_EXIT] Exit 1");
+});
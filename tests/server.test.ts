@@ -0,0 +1,349 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { runGit } from "../src/review.js";
+import { Harness, errorCode, text } from "./harness.js";
+
+// End-to-end: the server from source, driven by the MCP client, with the fake Gemini CLI
+
+const harness = new Harness({
+  config: {
+    gemini: { defaultModel: "gemini-test-model" },
+    retry: { baseDelayMs: 10, maxDelayMs: 50, jitter: 0 },
+    timeouts: { killGraceMs: 500 }
+  },
+  env: { GEMINI_API_KEY: "test-key" }
+});
+
+before(() => harness.start());
+after(() => harness.close());
+
+test("lists the tools", async () => {
+  const { tools } = await harness.client.listTools();
+  const names = tools.map((tool) => tool.name);
+  for (const name of ["gemini_send", "gemini_status", "gemini_submit", "gemini_batch", "gemini_send_json", "gemini_analyze_codebase", "gemini_review_diff", "gemini_second_opinion"]) {
+    assert.ok(names.includes(name), `missing ${name}`);
+  }
+});
+
+test("sends the prompt on stdin and returns the answer without the CLI banner", async () => {
+  harness.script({ runs: [{ stdout: ["The answer ", "is 42.\n"], chunkDelayMs: 50 }] });
+  const result = await harness.call("gemini_send", { message: "What is @package.json about?" });
+
+  assert.equal(result.isError, undefined);
+  assert.equal(text(result), "The answer is 42.");
+  const [invocation] = harness.invocations();
+  assert.match(invocation.prompt, /^What is @\/.+\/package\.json about\?$/);
+  assert.deepEqual(invocation.args, ["--model", "gemini-test-model"]);
+});
+
+test("reports CLI warnings next to the answer", async () => {
+  harness.script({ runs: [{ stdout: "Done.\n", stderr: "(node:123) [DEP0040] DeprecationWarning: The `punycode` module is deprecated." }] });
+  const result = await harness.call("gemini_send", { message: "hello", model: "gemini-other" });
+
+  assert.equal(text(result), "Done.");
+  assert.match(text(result, 1), /Warning: \(node:123\) \[DEP0040\] DeprecationWarning/);
+  assert.deepEqual(harness.invocations()[0].args, ["--model", "gemini-other"]);
+});
+
+test("retries quota errors and gives up with QUOTA_EXCEEDED", async () => {
+  harness.script({ runs: [{ quota: true }, { stdout: "Recovered.\n" }] });
+  const recovered = await harness.call("gemini_send", { message: "hello" });
+  assert.equal(text(recovered), "Recovered.");
+  assert.equal((recovered._meta as { attempts: unknown[] }).attempts.length, 2);
+  assert.equal(harness.invocations().length, 2);
+
+  harness.script({ runs: [{ quota: "7s" }] });
+  const failed = await harness.call("gemini_send", { message: "hello", max_attempts: 1 });
+  assert.equal(failed.isError, true);
+  assert.equal(errorCode(failed), "QUOTA_EXCEEDED");
+  assert.equal((failed.structuredContent as { error: { retryAfterSeconds?: number } }).error.retryAfterSeconds, 7);
+});
+
+test("fails with NON_ZERO_EXIT and EMPTY_RESPONSE", async () => {
+  harness.script({ runs: [{ stdout: "", stderr: "Something broke", exitCode: 3 }] });
+  const exited = await harness.call("gemini_send", { message: "hello", max_attempts: 1 });
+  assert.equal(errorCode(exited), "NON_ZERO_EXIT");
+  assert.match(text(exited), /Something broke/);
+
+  harness.script({ runs: [{ stdout: "" }] });
+  assert.equal(errorCode(await harness.call("gemini_send", { message: "hello", max_attempts: 1 })), "EMPTY_RESPONSE");
+});
+
+test("stops silent and stalled runs with timeout errors", async () => {
+  harness.script({ runs: [{ delayMs: 5000 }] });
+  const silent = await harness.call("gemini_send", { message: "hello", max_attempts: 1, first_byte_timeout_seconds: 0.5 });
+  assert.equal(errorCode(silent), "FIRST_BYTE_TIMEOUT");
+
+  harness.script({ runs: [{ stdout: ["Partial answer\n", "never printed\n"], chunkDelayMs: 5000 }] });
+  const stalled = await harness.call("gemini_send", { message: "hello", max_attempts: 1, idle_timeout_seconds: 0.5 });
+  assert.equal(errorCode(stalled), "IDLE_TIMEOUT");
+  assert.equal((stalled.structuredContent as { error: { partialOutput?: string } }).error.partialOutput, "Partial answer");
+});
+
+test("reports the CLI version and credentials in gemini_status", async () => {
+  harness.script({ version: "9.9.9-fake" });
+  const result = await harness.call("gemini_status", { refresh: true });
+  const report = result.structuredContent as {
+    status: string;
+    problems: string[];
+    binary: { version?: string };
+    credentials: { apiKeyVariables: string[] };
+  };
+
+  // Degraded only by the failures the earlier tests provoked
+  assert.equal(report.status, "degraded");
+  assert.deepEqual(report.problems.map((problem) => problem.replace(/\d+/g, "N")), ["N of N requests in the last N minutes failed"]);
+  assert.equal(report.binary.version, "9.9.9-fake");
+  assert.deepEqual(report.credentials.apiKeyVariables, ["GEMINI_API_KEY"]);
+  assert.equal(harness.invocations().length, 0);
+});
+
+test("stages attachments for the run and removes them afterwards", async () => {
+  harness.script({ runs: [{ stdout: "Looked at them.\n", readFiles: true }] });
+  const png = Buffer.concat([Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]), Buffer.alloc(92)]);
+  const result = await harness.call("gemini_send", {
+    message: "Describe these",
+    attachments: [
+      { data: png.toString("base64"), name: "screen shot.png" },
+      { text: "hello", name: "notes.txt" }
+    ]
+  });
+
+  assert.equal(result.isError, undefined);
+  const [invocation] = harness.invocations();
+  const flag = invocation.args.indexOf("--include-directories");
+  assert.ok(flag >= 0);
+  const directory = invocation.args[flag + 1];
+  assert.match(text(result), new RegExp(`${directory}/screen_shot\\.png: 100 bytes\n${directory}/notes\\.txt: 5 bytes$`));
+  assert.match(invocation.prompt, /- @\S+\/screen_shot\.png \(image\/png\)/);
+  assert.equal(fs.existsSync(directory), false);
+
+  const refused = await harness.call("gemini_send", { message: "Describe", attachments: [{ data: png.toString("base64"), mime_type: "application/zip" }] });
+  assert.equal(errorCode(refused), "INVALID_REQUEST");
+});
+
+test("packs a codebase into the prompt and returns the manifest", async () => {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), "gemini-mcp-codebase-"));
+  try {
+    fs.mkdirSync(path.join(root, "out"));
+    fs.writeFileSync(path.join(root, ".gitignore"), "out/\n");
+    fs.writeFileSync(path.join(root, "out", "bundle.js"), "bundle");
+    fs.writeFileSync(path.join(root, "README.md"), "# Demo\n");
+    fs.writeFileSync(path.join(root, "main.ts"), "// see @README.md\n");
+    fs.writeFileSync(path.join(root, "logo.png"), Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00]));
+    harness.script({ runs: [{ stdout: "Looks fine.\n" }] });
+
+    const result = await harness.call("gemini_analyze_codebase", { question: "Any bugs?", working_directory: root, exclude: [".gitignore"] });
+    assert.equal(result.isError, undefined);
+    assert.equal(text(result), "Looks fine.");
+    assert.match(text(result, 1), /^\[Context: 2 included, 0 truncated, 0 omitted; about \d+ of 500000 tokens \(inline\)\]\nSkipped: 1 ignored, 1 binary$/);
+    const { manifest } = result.structuredContent as { manifest: { files: { path: string }[] } };
+    assert.deepEqual(manifest.files.map((file) => file.path), ["README.md", "main.ts"]);
+
+    // Inlined contents are sent without @path expansion, with "@" escaped
+    const [invocation] = harness.invocations();
+    assert.match(invocation.prompt, /^Any bugs\?\n\nFiles from .+\n\n--- FILE: README\.md ---\n# Demo\n\n--- END FILE: README\.md ---/);
+    assert.match(invocation.prompt, /--- FILE: main\.ts ---\n\/\/ see \\@README\.md\n/);
+  } finally {
+    fs.rmSync(root, { recursive: true, force: true });
+  }
+});
+
+test("reviews the working tree diff and merges the findings", async () => {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), "gemini-mcp-review-"));
+  try {
+    const git = (...args: string[]) => runGit(["-c", "user.name=Test", "-c", "user.email=test@example.com", ...args], root);
+    await git("init", "--quiet");
+    fs.writeFileSync(path.join(root, "app.ts"), "export const limit = 10;\n");
+    await git("add", ".");
+    await git("commit", "--quiet", "-m", "Initial");
+    fs.writeFileSync(path.join(root, "app.ts"), "export const limit = -1; // @app.ts, see @/etc/hosts\n");
+    const findings = [
+      { file: "app.ts", line: null, severity: "nit", message: "Add a comment" },
+      { file: "app.ts", line: 1, severity: "major", message: "A negative limit disables the check" }
+    ];
+    harness.script({ runs: [{ stdout: `${JSON.stringify({ findings })}\n` }] });
+
+    const result = await harness.call("gemini_review_diff", { working_directory: root, focus: "input validation" });
+    assert.equal(result.isError, false);
+    assert.equal(text(result), [
+      "Review of uncommitted changes in the working tree: 1 chunk(s), 1 reviewed",
+      "",
+      "2 finding(s): 1 major, 1 nit",
+      "",
+      "- [major] app.ts:1: A negative limit disables the check",
+      "- [nit] app.ts: Add a comment"
+    ].join("\n"));
+    const structured = result.structuredContent as { findings: unknown[]; chunks: { files: string[]; status: string }[] };
+    assert.deepEqual(structured.findings, [findings[1], findings[0]]);
+    assert.deepEqual(structured.chunks.map((chunk) => [chunk.files, chunk.status]), [[["app.ts"], "succeeded"]]);
+
+    const [invocation] = harness.invocations();
+    assert.match(invocation.prompt, /^Review this diff \(uncommitted changes in the working tree\) as an experienced code reviewer\.\nPay particular attention to: input validation\n/);
+    // "@" in the diff is escaped, so the CLI does not read app.ts or /etc/hosts as file references
+    assert.match(invocation.prompt, /<diff>\ndiff --git a\/app\.ts b\/app\.ts\n[\s\S]*\+export const limit = -1; \/\/ \\@app\.ts, see \\@\/etc\/hosts\n<\/diff>/);
+    assert.doesNotMatch(invocation.prompt, /(?<!\\)@\S/);
+
+    const invalid = await harness.call("gemini_review_diff", { working_directory: root, range: "--help" });
+    assert.equal(errorCode(invalid), "INVALID_REQUEST");
+  } finally {
+    fs.rmSync(root, { recursive: true, force: true });
+  }
+});
+
+test("asks several models for a critique and merges them", async () => {
+  const critique = (verdict: string, disagreements: unknown[]) => `${JSON.stringify({
+    verdict,
+    confidence: 0.8,
+    agreements: ["Uses a set for lookups"],
+    disagreements,
+    missing: [],
+    summary: `${verdict}.`
+  })}\n`;
+  const wrong = { point: "Runs in O(1)", reason: "Building the set is O(n)", correction: "O(n) overall" };
+  harness.script({ runs: [{ stdout: critique("partially_agree", [wrong]) }, { stdout: critique("partially_agree", [wrong]) }] });
+
+  const result = await harness.call("gemini_second_opinion", {
+    question: "How fast is dedupe()?",
+    answer: "It uses a set, so it runs in O(1).",
+    models: ["model-a", "model-b"]
+  });
+  assert.equal(result.isError, false);
+  const opinion = result.structuredContent as {
+    verdict: string;
+    disagreements: { point: string; sources: string[] }[];
+    confidence: { level: string; critiques: number };
+  };
+  assert.equal(opinion.verdict, "partially_agree");
+  assert.deepEqual(opinion.disagreements.map((point) => [point.point, point.sources]), [["Runs in O(1)", ["model-a", "model-b"]]]);
+  assert.deepEqual([opinion.confidence.level, opinion.confidence.critiques], ["high", 2]);
+  assert.match(text(result), /\nDisagreements:\n- Runs in O\(1\): Building the set is O\(n\) Correction: O\(n\) overall \(model-a, model-b\)\n/);
+
+  const invocations = harness.invocations();
+  assert.deepEqual(invocations.map((invocation) => invocation.args).sort(), [["--model", "model-a"], ["--model", "model-b"]]);
+  assert.match(invocations[0].prompt, /\nProposed answer:\nIt uses a set, so it runs in O\(1\)\.\n/);
+
+  const tooMany = await harness.call("gemini_second_opinion", { question: "Q", answer: "A", samples: 11 });
+  assert.equal(errorCode(tooMany), "INVALID_REQUEST");
+});
+
+test("reports missing conversations and exchanges as INVALID_REQUEST errors", async () => {
+  harness.script({ runs: [{ stdout: "First answer.\n" }] });
+  await harness.call("gemini_send", { message: "hello", conversation_id: "c1" });
+  const forked = await harness.call("gemini_conversation_fork", { conversation_id: "c1", new_conversation_id: "c2" });
+  assert.equal(text(forked), "Forked c1 into c2 (2 turns)");
+
+  for (const [tool, args] of [
+    ["gemini_conversation_get", { conversation_id: "missing" }],
+    ["gemini_conversation_fork", { conversation_id: "missing" }],
+    ["gemini_conversation_fork", { conversation_id: "c1", new_conversation_id: "c2" }],
+    ["gemini_conversation_delete", { conversation_id: "missing" }],
+    ["gemini_clear", { conversation_id: "missing" }],
+    ["gemini_history_search", { exchange_id: "missing" }]
+  ] as const) {
+    const result = await harness.call(tool, args);
+    assert.equal(result.isError, true, tool);
+    assert.equal(errorCode(result), "INVALID_REQUEST", tool);
+    assert.match(text(result), /^Error \[INVALID_REQUEST\]: (Conversation|Exchange) (not found|already exists)/);
+  }
+});
+
+test("does not cache answers from a fallback backend", async () => {
+  const fallback = new Harness({
+    config: {
+      cache: { enabled: true },
+      retry: { maxAttempts: 1 },
+      backends: { fallback: ["echo"], definitions: { echo: { type: "cli", command: "cat" } } }
+    }
+  });
+  await fallback.start();
+  try {
+    fallback.script({ runs: [{ quota: true }] });
+    const fromFallback = await fallback.call("gemini_send", { message: "cache me" });
+    assert.equal(text(fromFallback), "cache me");
+    assert.equal((fromFallback._meta as { backend: string }).backend, "echo");
+
+    fallback.script({ runs: [{ stdout: "From Gemini.\n" }] });
+    const fromGemini = await fallback.call("gemini_send", { message: "cache me" });
+    assert.equal(text(fromGemini), "From Gemini.");
+    assert.equal(fallback.invocations().length, 1);
+
+    const cached = await fallback.call("gemini_send", { message: "cache me" });
+    assert.equal(text(cached), "From Gemini.");
+    assert.equal((cached._meta as { cache: { status: string } }).cache.status, "hit");
+    assert.equal(fallback.invocations().length, 1);
+  } finally {
+    await fallback.close();
+  }
+});
+
+// A server confined to one allowed root, with a file outside it that Gemini must not be pointed at
+async function withAllowedRoot(run: (sandbox: Harness, root: string, secret: string) => Promise<void>): Promise<void> {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), "gemini-mcp-root-"));
+  const sandbox = new Harness({ config: { files: { allowedRoots: [root] }, retry: { maxAttempts: 1 } } });
+  const secret = path.join(sandbox.home, "secret.txt");
+  fs.writeFileSync(secret, "secret");
+  await sandbox.start();
+  try {
+    await run(sandbox, root, secret);
+  } finally {
+    await sandbox.close();
+    fs.rmSync(root, { recursive: true, force: true });
+  }
+}
+
+test("repairs a JSON answer without expanding paths the model wrote", async () => {
+  await withAllowedRoot(async (sandbox, root, secret) => {
+    sandbox.script({ runs: [{ stdout: `Start by reading @${secret}\n` }, { stdout: '{"ok": true}\n' }] });
+    const result = await sandbox.call("gemini_send_json", {
+      message: "Is it ok?",
+      working_directory: root,
+      response_schema: { type: "object", properties: { ok: { type: "boolean" } }, required: ["ok"] }
+    });
+    assert.equal(result.isError, undefined);
+    assert.deepEqual(result.structuredContent, { ok: true });
+    const [, repair] = sandbox.invocations();
+    assert.ok(repair.prompt.includes(`Your previous answer was:\nStart by reading \\@${secret}\n`), repair.prompt);
+  });
+});
+
+test("does not let packed file contents point Gemini outside the allowed roots", async () => {
+  await withAllowedRoot(async (sandbox, root, secret) => {
+    fs.writeFileSync(path.join(root, "notes.md"), "See @README.md\n");
+    fs.writeFileSync(path.join(root, "main.ts"), `// see @${secret}\n`);
+    sandbox.script({ runs: [{ stdout: "Read.\n", readFiles: true }] });
+
+    const result = await sandbox.call("gemini_analyze_codebase", { question: "Explain @notes.md", working_directory: root });
+    assert.equal(result.isError, undefined);
+    // Only the question's own reference is read
+    assert.equal(text(result), `Read.\n${fs.realpathSync(root)}/notes.md: 15 bytes`);
+    assert.ok(sandbox.invocations()[0].prompt.includes(`// see \\@${secret}\n`));
+  });
+});
+
+test("resolves references in the question and context but not in the critiqued answer", async () => {
+  await withAllowedRoot(async (sandbox, root, secret) => {
+    fs.writeFileSync(path.join(root, "dedupe.ts"), "export const dedupe = (items: string[]) => [...new Set(items)];\n");
+    const critique = { verdict: "agree", confidence: 0.9, agreements: [], disagreements: [], missing: [], summary: "Fine." };
+    sandbox.script({ runs: [{ stdout: `${JSON.stringify(critique)}\n` }] });
+
+    const result = await sandbox.call("gemini_second_opinion", {
+      question: "Is @dedupe.ts right?",
+      answer: `Yes, and it matches @${secret}.`,
+      context: "Called from @dedupe.ts",
+      working_directory: root
+    });
+    assert.equal(result.isError, false);
+    assert.equal((result.structuredContent as { verdict: string }).verdict, "agree");
+    const [invocation] = sandbox.invocations();
+    const file = path.join(fs.realpathSync(root), "dedupe.ts");
+    assert.ok(invocation.prompt.includes(`Question:\nIs @${file} right?\n\nContext:\nCalled from @${file}\n`), invocation.prompt);
+    assert.ok(invocation.prompt.includes(`Proposed answer:\nYes, and it matches \\@${secret}.\n`), invocation.prompt);
+
+    const refused = await sandbox.call("gemini_second_opinion", { question: "Q", answer: "A", context: `See @${secret}`, working_directory: root });
+    assert.equal(errorCode(refused), "PATH_NOT_ALLOWED");
+  });
+});
@@ -0,0 +1,80 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { ExchangeRecord, JsonlStorage } from "../src/storage.js";
+import type { Conversation } from "../src/conversations.js";
+
+function exchange(id: string, overrides: Partial<ExchangeRecord> = {}): ExchangeRecord {
+  return {
+    id,
+    timestamp: new Date().toISOString(),
+    message: `message ${id}`,
+    prompt: `message ${id}`,
+    response: `response ${id}`,
+    stdout: "",
+    stderr: "",
+    exitCode: 0,
+    durationMs: 10,
+    ...overrides
+  };
+}
+
+function conversation(id: string, content: string): Conversation {
+  const now = new Date().toISOString();
+  return { id, createdAt: now, updatedAt: now, turns: [{ role: "user", content, timestamp: now }] };
+}
+
+async function withDataDir(run: (dataDir: string) => Promise<void>): Promise<void> {
+  const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "gemini-storage-"));
+  try {
+    await run(dataDir);
+  } finally {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  }
+}
+
+test("persists exchanges and conversations across instances", () => withDataDir(async (dataDir) => {
+  const storage = new JsonlStorage(dataDir);
+  await storage.appendExchange(exchange("a", { conversationId: "c1" }));
+  await storage.appendExchange(exchange("b", { error: "boom", errorCode: "NON_ZERO_EXIT" }));
+  await storage.saveConversation(conversation("c1", "first"));
+  await storage.saveConversation(conversation("c2", "other"));
+  await storage.saveConversation(conversation("c1", "updated"));
+  await storage.deleteConversation("c2");
+
+  const reloaded = new JsonlStorage(dataDir);
+  assert.equal((await reloaded.getExchange("a"))?.response, "response a");
+  assert.deepEqual((await reloaded.searchExchanges({ errorsOnly: true })).map((record) => record.id), ["b"]);
+  assert.deepEqual((await reloaded.searchExchanges({ conversationId: "c1" })).map((record) => record.id), ["a"]);
+  const conversations = await reloaded.loadConversations();
+  assert.deepEqual(conversations.map((saved) => [saved.id, saved.turns[0].content]), [["c1", "updated"]]);
+}));
+
+test("skips corrupt lines and keeps reading the rest", () => withDataDir(async (dataDir) => {
+  fs.writeFileSync(path.join(dataDir, "exchanges.jsonl"), [
+    JSON.stringify(exchange("a")),
+    "{\"id\": \"truncated",
+    "",
+    JSON.stringify(exchange("b"))
+  ].join("\n") + "\n");
+  const storage = new JsonlStorage(dataDir);
+  assert.deepEqual((await storage.searchExchanges({})).map((record) => record.id).sort(), ["a", "b"]);
+
+  // Appending after a corrupt line still produces readable records
+  await storage.appendExchange(exchange("c"));
+  assert.equal((await storage.getExchange("c"))?.response, "response c");
+}));
+
+test("applies retention by age and size, oldest first", () => withDataDir(async (dataDir) => {
+  const storage = new JsonlStorage(dataDir);
+  const old = new Date(Date.now() - 40 * 24 * 60 * 60 * 1000).toISOString();
+  await storage.appendExchange(exchange("old", { timestamp: old }));
+  for (const id of ["a", "b", "c"]) await storage.appendExchange(exchange(id));
+
+  assert.deepEqual(await storage.applyRetention({ maxAgeDays: 30 }), { removed: 1, remaining: 3 });
+  const size = Buffer.byteLength(JSON.stringify(exchange("c"))) + 1;
+  assert.deepEqual(await storage.applyRetention({ maxBytes: size * 2 + 10 }), { removed: 1, remaining: 2 });
+  assert.deepEqual((await new JsonlStorage(dataDir).searchExchanges({})).map((record) => record.id).sort(), ["b", "c"]);
+}));
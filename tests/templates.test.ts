@@ -0,0 +1,73 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { GeminiError } from "../src/errors.js";
+import { STARTER_TEMPLATES } from "../src/starter-templates.js";
+import { loadTemplates, parseTemplate, renderTemplate } from "../src/templates.js";
+
+const explain = parseTemplate({
+  arguments: [
+    { name: "file", required: true },
+    { name: "level", values: ["beginner", "expert"], default: "beginner" },
+    { name: "lines", type: "number" },
+    { name: "focus" }
+  ],
+  template: ["Explain @{{file}} at {{level}} level.", "{{#lines}}Keep it under {{lines}} lines.{{/lines}}{{^focus}}Cover everything.{{/focus}}{{#focus}}Focus on {{focus}}.{{/focus}}"]
+}, "explain");
+
+test("renders arguments, defaults and optional sections", () => {
+  assert.equal(renderTemplate(explain, { file: "a.ts" }), "Explain @a.ts at beginner level.\nCover everything.");
+  assert.equal(
+    renderTemplate(explain, { file: "a.ts", level: "expert", lines: "20", focus: "errors" }),
+    "Explain @a.ts at expert level.\nKeep it under 20 lines.Focus on errors."
+  );
+});
+
+test("rejects missing, unknown and mistyped arguments", () => {
+  const rejects = (args: Record<string, unknown>, pattern: RegExp) =>
+    assert.throws(() => renderTemplate(explain, args), (error: GeminiError) => error.code === "INVALID_REQUEST" && pattern.test(error.message));
+  rejects({}, /requires argument "file"/);
+  rejects({ file: "a.ts", colour: "red" }, /Unknown argument.*colour/);
+  rejects({ file: "a.ts", level: "guru" }, /one of: beginner, expert/);
+  rejects({ file: "a.ts", lines: "many" }, /must be a number/);
+
+  assert.throws(() => parseTemplate({ template: "Hi {{name}}" }, "greet"), /undeclared argument "name"/);
+  assert.throws(() => parseTemplate({ template: "Hi" }, "bad name"), /Invalid template name/);
+  assert.throws(() => parseTemplate(["Hi"], "greet"), /must be a JSON object/);
+  assert.throws(() => parseTemplate({ template: 42 }, "greet"), /no template text/);
+  assert.throws(() => parseTemplate({ template: "Hi", arguments: ["name"] }, "greet"), /argument without a valid name/);
+  assert.throws(() => parseTemplate({ template: "Hi", arguments: [{ name: "n", type: 3 }] }, "greet"), /unknown type "3"/);
+});
+
+test("template files override starters and invalid files are reported", async () => {
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), "gemini-templates-"));
+  try {
+    fs.writeFileSync(path.join(directory, "translate.json"), JSON.stringify({ description: "Custom", template: "Translate to French" }));
+    fs.writeFileSync(path.join(directory, "broken.json"), "{");
+    fs.writeFileSync(path.join(directory, "notes.txt"), "ignored");
+
+    const { templates, errors } = await loadTemplates({ directories: [directory, path.join(directory, "missing")], starters: true });
+    assert.equal(templates.get("translate")?.description, "Custom");
+    assert.equal(templates.get("translate")?.source, path.join(directory, "translate.json"));
+    assert.ok(templates.has("code-review"));
+    assert.equal(errors.length, 1);
+    assert.match(errors[0], /broken\.json/);
+
+    assert.equal((await loadTemplates({ directories: [directory], starters: false })).templates.has("code-review"), false);
+  } finally {
+    fs.rmSync(directory, { recursive: true, force: true });
+  }
+});
+
+test("starter templates are valid and render", () => {
+  for (const starter of STARTER_TEMPLATES) {
+    assert.deepEqual(parseTemplate(starter), starter);
+  }
+  const research = STARTER_TEMPLATES.find((template) => template.name === "web-research")!;
+  const text = renderTemplate(research, { topic: "EU AI Act" });
+  assert.match(text, /research: EU AI Act/);
+  assert.match(text, /Write a brief answer/);
+  assert.doesNotMatch(text, /\{\{|published on or after/);
+});
@@ -0,0 +1,69 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { RunTimers, TimeoutLimit, TimeoutPolicy } from "../src/timeouts.js";
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function track(policy: Partial<TimeoutPolicy>) {
+  const fired: [TimeoutLimit, number][] = [];
+  const timers = new RunTimers(
+    { firstByteMs: 0, idleMs: 0, totalMs: 0, killGraceMs: 0, ...policy },
+    (limit, limitMs) => fired.push([limit, limitMs])
+  );
+  return { fired, timers };
+}
+
+test("fires the first-byte limit when nothing is printed", async () => {
+  const { fired, timers } = track({ firstByteMs: 30, idleMs: 10 });
+  timers.start();
+  await sleep(60);
+  assert.deepEqual(fired, [["first_byte", 30]]);
+});
+
+test("switches to the idle limit once output starts and resets it on output", async () => {
+  const { fired, timers } = track({ firstByteMs: 30, idleMs: 40 });
+  timers.start();
+  timers.onOutput();
+  await sleep(25);
+  timers.onOutput();
+  await sleep(25);
+  assert.deepEqual(fired, []);
+  await sleep(40);
+  assert.deepEqual(fired, [["idle", 40]]);
+});
+
+test("does not count other output as the first byte but keeps a started run alive", async () => {
+  const { fired, timers } = track({ firstByteMs: 40, idleMs: 40 });
+  timers.start();
+  timers.onActivity();
+  await sleep(60);
+  assert.deepEqual(fired, [["first_byte", 40]]);
+
+  const started = track({ firstByteMs: 40, idleMs: 40 });
+  started.timers.start();
+  started.timers.onOutput();
+  await sleep(25);
+  started.timers.onActivity();
+  await sleep(25);
+  assert.deepEqual(started.fired, []);
+  started.timers.stop();
+});
+
+test("fires the overall limit even while output keeps arriving, only once", async () => {
+  const { fired, timers } = track({ idleMs: 30, totalMs: 60 });
+  timers.start();
+  for (let i = 0; i < 6; i++) {
+    await sleep(15);
+    timers.onOutput();
+  }
+  await sleep(50);
+  assert.deepEqual(fired, [["total", 60]]);
+});
+
+test("stop cancels every limit", async () => {
+  const { fired, timers } = track({ firstByteMs: 10, idleMs: 10, totalMs: 10 });
+  timers.start();
+  timers.stop();
+  await sleep(30);
+  assert.deepEqual(fired, []);
+});